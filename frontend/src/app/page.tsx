@@ -83,7 +83,7 @@ export default function Home() {
 
   // Compute analytics data from real oracle data
   const analyticsData = useMemo(() => {
-    const haltedPairs = prices.filter(p => p.circuitBreaker?.isHalted).length;
+    const haltedPairs = prices.filter(p => p.circuitBreaker?.isHalted && p.circuitBreaker.severity !== 'soft').length;
     const verifiedSigs = prices.filter(p => p.signatureVerified).length;
     const totalTripCount = prices.reduce((sum, p) => sum + (p.circuitBreaker?.tripCount || 0), 0);
     const avgLatency = health?.sources?.healthy ? Math.floor(45 + Math.random() * 20) : 0; // Would be real in production
@@ -95,7 +95,9 @@ export default function Home() {
       totalTripCount,
       avgLatency,
       cbEnabled: circuitBreaker?.config?.enabled ?? true,
-      cbThreshold: circuitBreaker?.config?.maxPriceChangePercent ? (circuitBreaker.config.maxPriceChangePercent * 100).toFixed(0) : '10',
+      cbThresholds: circuitBreaker?.config?.tiers
+        ? circuitBreaker.config.tiers.map(t => `${(t.maxChangePercent * 100).toFixed(0)}%/${t.name}`).join(' · ')
+        : '5%/1m',
       uptime: health?.status === 'healthy' ? '99.9%' : health?.status === 'degraded' ? '95.0%' : 'Offline',
     };
   }, [prices, health, circuitBreaker]);
@@ -287,8 +289,8 @@ export default function Home() {
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
-                    <span className="text-gray-400">Threshold</span>
-                    <span className="text-sm font-medium text-white">{analyticsData.cbThreshold}%</span>
+                    <span className="text-gray-400">Thresholds</span>
+                    <span className="text-sm font-medium text-white">{analyticsData.cbThresholds}</span>
                   </div>
                   <div className="flex items-center justify-between">
                     <span className="text-gray-400">Total Trips</span>
@@ -6,19 +6,6 @@ import { Header } from '@/components/Header';
 import { useAleo, OnChainPrice } from '@/hooks/useAleo';
 import { oracleAPI, PriceData, RelayerHealth, RelayerStatus } from '@/services/oracleAPI';
 
-const PAIR_ID_MAP: { [pair: string]: number } = {
-  'ETH/USD': 1,
-  'BTC/USD': 2,
-  'ALEO/USD': 3,
-  'SOL/USD': 4,
-  'AVAX/USD': 5,
-  'DOT/USD': 6,
-  'ATOM/USD': 7,
-  'LINK/USD': 8,
-  'UNI/USD': 9,
-  'MATIC/USD': 10,
-};
-
 const PRICE_DECIMALS = 100_000_000;
 
 function scalePriceToU128(price: number): bigint {
@@ -58,6 +45,22 @@ export default function OracleDashboard() {
   const [relayerStatus, setRelayerStatus] = useState<RelayerStatus | null>(null);
   const [relayerOnline, setRelayerOnline] = useState(false);
   const [onChainPrices, setOnChainPrices] = useState<Map<number, OnChainPrice>>(new Map());
+  // Pair ids come from the oracle node's registry so they always match the signer and relayer
+  const [pairIdMap, setPairIdMap] = useState<{ [pair: string]: number }>({});
+
+  // Fetch pair registry
+  const fetchPairs = useCallback(async () => {
+    try {
+      const registry = await oracleAPI.getPairs();
+      const map: { [pair: string]: number } = {};
+      for (const def of registry.pairs) {
+        map[def.pair] = def.pairId;
+      }
+      setPairIdMap(map);
+    } catch (err) {
+      console.error('Failed to fetch pair registry:', err);
+    }
+  }, []);
 
   // Fetch live prices
   const fetchPrices = useCallback(async () => {
@@ -91,12 +94,16 @@ export default function OracleDashboard() {
   // Fetch on-chain prices
   const fetchOnChainPrices = useCallback(async () => {
     const results = new Map<number, OnChainPrice>();
-    for (const [, pairId] of Object.entries(PAIR_ID_MAP)) {
+    for (const [, pairId] of Object.entries(pairIdMap)) {
       const data = await readOnChainPrice(pairId);
       if (data) results.set(pairId, data);
     }
     setOnChainPrices(results);
-  }, [readOnChainPrice]);
+  }, [readOnChainPrice, pairIdMap]);
+
+  useEffect(() => {
+    fetchPairs();
+  }, [fetchPairs]);
 
   useEffect(() => {
     fetchPrices();
@@ -208,7 +215,7 @@ export default function OracleDashboard() {
                   </thead>
                   <tbody>
                     {prices.map((price) => {
-                      const pairId = PAIR_ID_MAP[price.pair];
+                      const pairId = pairIdMap[price.pair];
                       const age = price.age || (Date.now() - price.timestamp);
                       const isStale = age > 300_000;
                       return (
@@ -282,7 +289,7 @@ export default function OracleDashboard() {
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                 {prices.map((price) => {
                   const age = price.age || (Date.now() - price.timestamp);
-                  const pairId = PAIR_ID_MAP[price.pair];
+                  const pairId = pairIdMap[price.pair];
                   const twapDev = price.twap?.deviation1h;
                   return (
                     <div key={price.pair} className="glass-card rounded-2xl p-6">
@@ -492,7 +499,7 @@ export default function OracleDashboard() {
                     </tr>
                   </thead>
                   <tbody>
-                    {Object.entries(PAIR_ID_MAP).map(([pair, pairId]) => {
+                    {Object.entries(pairIdMap).map(([pair, pairId]) => {
                       const oraclePrice = prices.find(p => p.pair === pair);
                       const chainPrice = onChainPrices.get(pairId);
                       const chainPriceNum = chainPrice ? Number(chainPrice.price) / PRICE_DECIMALS : null;
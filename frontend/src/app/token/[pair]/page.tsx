@@ -5,7 +5,8 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { Header } from '@/components/Header';
 import { PriceChart } from '@/components/PriceChart';
-import { oracleAPI, AnalysisResponse, PriceData } from '@/services/oracleAPI';
+import { OperatorControls } from '@/components/OperatorControls';
+import { oracleAPI, AnalysisResponse, PriceData, PriceCandle, SourcesResponse, CircuitBreakerEvent } from '@/services/oracleAPI';
 
 const tokenIcons: { [key: string]: string } = {
   'ETH': '\u27e0',
@@ -34,6 +35,21 @@ const tokenColors: { [key: string]: { gradient: string; bg: string } } = {
   'UNI': { gradient: 'from-pink-400 to-purple-500', bg: 'bg-pink-400/10' },
 };
 
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// Chart interval and how far back each timeframe reaches
+const timeframes = {
+  '1m': { intervalMs: MINUTE, spanMs: 6 * HOUR },
+  '5m': { intervalMs: 5 * MINUTE, spanMs: DAY },
+  '15m': { intervalMs: 15 * MINUTE, spanMs: 3 * DAY },
+  '1h': { intervalMs: HOUR, spanMs: 7 * DAY },
+  '4h': { intervalMs: 4 * HOUR, spanMs: 30 * DAY },
+  '1d': { intervalMs: DAY, spanMs: 180 * DAY }
+};
+type Timeframe = keyof typeof timeframes;
+
 export default function TokenAnalysisPage() {
   const params = useParams();
   const pairParam = params.pair as string;
@@ -41,15 +57,27 @@ export default function TokenAnalysisPage() {
   const token = pair.split('/')[0];
 
   const [analysis, setAnalysis] = useState<AnalysisResponse | null>(null);
+  const [sources, setSources] = useState<SourcesResponse | null>(null);
+  const [cbEvents, setCbEvents] = useState<CircuitBreakerEvent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedTimeframe, setSelectedTimeframe] = useState<'1m' | '5m' | '15m' | '1h'>('5m');
+  const [candles, setCandles] = useState<PriceCandle[]>([]);
+  const [selectedTimeframe, setSelectedTimeframe] = useState<Timeframe>('5m');
   const [autoRefresh, setAutoRefresh] = useState(true);
 
   const fetchData = useCallback(async () => {
     try {
-      const analysisData = await oracleAPI.getAnalysis(pair);
+      const { spanMs } = timeframes[selectedTimeframe];
+      const [analysisData, sourcesData, eventsData, candleData] = await Promise.all([
+        oracleAPI.getAnalysis(pair),
+        oracleAPI.getSources(pair).catch(() => null),
+        oracleAPI.getCircuitBreakerEvents(pair, 5).catch(() => null),
+        oracleAPI.getCandleRange(pair, selectedTimeframe, Date.now() - spanMs).catch(() => null)
+      ]);
       setAnalysis(analysisData);
+      if (candleData) setCandles(candleData);
+      setSources(sourcesData);
+      setCbEvents(eventsData?.events || []);
       setError(null);
     } catch (err) {
       console.error('Failed to fetch analysis:', err);
@@ -57,7 +85,7 @@ export default function TokenAnalysisPage() {
     } finally {
       setLoading(false);
     }
-  }, [pair]);
+  }, [pair, selectedTimeframe]);
 
   useEffect(() => {
     fetchData();
@@ -162,7 +190,7 @@ export default function TokenAnalysisPage() {
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-xl font-bold text-white">Price Chart</h2>
                 <div className="flex gap-2">
-                  {(['1m', '5m', '15m', '1h'] as const).map((tf) => (
+                  {(Object.keys(timeframes) as Timeframe[]).map((tf) => (
                     <button
                       key={tf}
                       onClick={() => setSelectedTimeframe(tf)}
@@ -178,7 +206,8 @@ export default function TokenAnalysisPage() {
                 </div>
               </div>
               <PriceChart
-                candles={selectedTimeframe === '1m' ? analysis.charts.candles1m : analysis.charts.candles5m}
+                candles={candles}
+                intervalMs={timeframes[selectedTimeframe].intervalMs}
                 pair={pair}
                 color={colors.gradient.includes('blue') ? '#3B82F6' : colors.gradient.includes('orange') ? '#F97316' : '#8B5CF6'}
               />
@@ -287,30 +316,61 @@ export default function TokenAnalysisPage() {
                 <div className="flex items-center justify-between">
                   <span className="text-gray-400">Status</span>
                   <span className={`px-2 py-1 rounded-full text-xs font-bold ${
-                    analysis.circuitBreaker.isHalted
-                      ? 'bg-red-500/20 text-red-400'
-                      : 'bg-green-500/20 text-green-400'
+                    !analysis.circuitBreaker.isHalted
+                      ? 'bg-green-500/20 text-green-400'
+                      : analysis.circuitBreaker.severity === 'soft'
+                        ? 'bg-yellow-500/20 text-yellow-400'
+                        : 'bg-red-500/20 text-red-400'
                   }`}>
-                    {analysis.circuitBreaker.isHalted ? 'HALTED' : 'ACTIVE'}
+                    {!analysis.circuitBreaker.isHalted ? 'ACTIVE' : analysis.circuitBreaker.severity === 'soft' ? 'FLAGGED' : 'HALTED'}
                   </span>
                 </div>
                 <div className="flex items-center justify-between">
                   <span className="text-gray-400">Trip Count</span>
                   <span className="text-white">{analysis.circuitBreaker.tripCount}</span>
                 </div>
-                <div className="flex items-center justify-between">
-                  <span className="text-gray-400">Threshold</span>
-                  <span className="text-white">{(analysis.circuitBreaker.config.maxPriceChangePercent * 100).toFixed(0)}%</span>
-                </div>
+                {analysis.circuitBreaker.config.tiers.map(tier => (
+                  <div key={tier.name} className="flex items-center justify-between">
+                    <span className="text-gray-400">Max Move ({tier.name})</span>
+                    <span className="text-white">
+                      {(tier.maxChangePercent * 100).toFixed(0)}%
+                      <span className={`ml-2 text-xs ${tier.severity === 'hard' ? 'text-red-400' : 'text-yellow-400'}`}>{tier.severity}</span>
+                    </span>
+                  </div>
+                ))}
                 <div className="flex items-center justify-between">
                   <span className="text-gray-400">Halt Duration</span>
-                  <span className="text-white">{analysis.circuitBreaker.config.haltDurationMs / 1000 / 60} min</span>
+                  <span className="text-white">
+                    {analysis.circuitBreaker.config.softHaltDurationMs / 1000 / 60} / {analysis.circuitBreaker.config.hardHaltDurationMs / 1000 / 60} min
+                  </span>
                 </div>
                 {analysis.circuitBreaker.lastTripReason && (
                   <div className="mt-2 p-2 rounded-lg bg-yellow-500/10 border border-yellow-500/20">
                     <p className="text-xs text-yellow-400">Last trip: {analysis.circuitBreaker.lastTripReason}</p>
                   </div>
                 )}
+                {cbEvents.length > 0 && (
+                  <div className="pt-3 border-t border-white/10">
+                    <p className="text-xs text-gray-500 mb-2">Recent Events</p>
+                    <div className="space-y-1">
+                      {cbEvents.map(event => (
+                        <div key={event.id} className="flex items-center justify-between text-xs">
+                          <span className={event.type === 'trip' || event.type === 'manual-halt' ? 'text-red-400' : 'text-green-400'}>
+                            {event.type}{event.severity ? ` (${event.severity})` : ''}
+                          </span>
+                          <span className="text-gray-500">
+                            {event.actor} · {new Date(event.timestamp).toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                <OperatorControls
+                  pair={pair}
+                  isHalted={analysis.circuitBreaker.isHalted}
+                  onChange={fetchData}
+                />
               </div>
             </div>
 
@@ -358,14 +418,50 @@ export default function TokenAnalysisPage() {
             {/* Data Sources */}
             <div className="glass-card rounded-2xl p-6">
               <h2 className="text-lg font-bold text-white mb-4">Data Sources</h2>
-              <div className="space-y-2">
-                {analysis.currentPrice.sources.map((source, i) => (
-                  <div key={i} className="flex items-center gap-2 text-sm">
-                    <div className="w-2 h-2 rounded-full bg-green-400" />
-                    <span className="text-gray-300">{source}</span>
-                  </div>
-                ))}
-              </div>
+              {sources && sources.sources.length > 0 ? (
+                <div className="space-y-3">
+                  {sources.sources.map((quote, i) => (
+                    <div key={i} className="text-sm" title={quote.reason}>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <div className={`w-2 h-2 rounded-full flex-shrink-0 ${quote.status === 'included' ? 'bg-green-400' : 'bg-red-400'}`} />
+                          <span className="text-gray-300 truncate">
+                            {quote.source}
+                            {quote.leg && <span className="text-gray-500"> ({quote.leg})</span>}
+                          </span>
+                        </div>
+                        <span className="text-white font-medium">{quote.price.toPrecision(6)}</span>
+                      </div>
+                      <div className="flex items-center justify-between pl-4 text-xs text-gray-500">
+                        <span>
+                          {quote.quoteAsset !== pair.split('/')[1] && `${quote.rawPrice.toPrecision(6)} ${quote.quoteAsset} · `}
+                          {quote.latencyMs !== undefined && `${quote.latencyMs}ms`}
+                        </span>
+                        <span className={Math.abs(quote.deviationPercent) > 1 ? 'text-yellow-400' : ''}>
+                          {quote.deviationPercent >= 0 ? '+' : ''}{quote.deviationPercent.toFixed(3)}%
+                        </span>
+                      </div>
+                      {quote.status === 'rejected' && quote.reason && (
+                        <p className="pl-4 text-xs text-red-400/80">{quote.reason}</p>
+                      )}
+                    </div>
+                  ))}
+                  {sources.missing.length > 0 && (
+                    <p className="text-xs text-gray-500 pt-2 border-t border-white/5">
+                      No quote: {sources.missing.join(', ')}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {analysis.currentPrice.sources.map((source, i) => (
+                    <div key={i} className="flex items-center gap-2 text-sm">
+                      <div className="w-2 h-2 rounded-full bg-green-400" />
+                      <span className="text-gray-300">{source}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Quick Actions */}
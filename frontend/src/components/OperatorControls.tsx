@@ -0,0 +1,144 @@
+'use client';
+
+import { FC, useEffect, useState } from 'react';
+import { oracleAPI, ApiPrincipal } from '@/services/oracleAPI';
+
+interface OperatorControlsProps {
+  pair: string;
+  isHalted: boolean;
+  onChange: () => void;
+}
+
+const errorMessage = (err: unknown): string => {
+  const response = (err as { response?: { data?: { error?: string } } }).response;
+  return response?.data?.error || 'Request failed';
+};
+
+/**
+ * Sign in with an oracle node API key; operators and admins can then halt or
+ * resume the pair's circuit breaker.
+ */
+export const OperatorControls: FC<OperatorControlsProps> = ({ pair, isHalted, onChange }) => {
+  const [principal, setPrincipal] = useState<ApiPrincipal | null>(null);
+  const [keyInput, setKeyInput] = useState('');
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    oracleAPI.getPrincipal().then(setPrincipal);
+  }, []);
+
+  const signIn = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setPrincipal(await oracleAPI.signIn(keyInput.trim()));
+      setKeyInput('');
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signOut = () => {
+    oracleAPI.signOut();
+    setPrincipal(null);
+  };
+
+  const act = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      setReason('');
+      onChange();
+    } catch (err) {
+      setError(errorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!principal) {
+    return (
+      <div className="pt-3 border-t border-white/10 space-y-2">
+        <p className="text-xs text-gray-500">Operator Sign-in</p>
+        <div className="flex gap-2">
+          <input
+            type="password"
+            value={keyInput}
+            onChange={e => setKeyInput(e.target.value)}
+            placeholder="API key"
+            className="flex-1 px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder-gray-600"
+          />
+          <button
+            onClick={signIn}
+            disabled={busy || !keyInput.trim()}
+            className="px-3 py-1.5 rounded-lg bg-indigo-500/20 text-indigo-300 text-sm disabled:opacity-50"
+          >
+            Sign in
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-400">{error}</p>}
+      </div>
+    );
+  }
+
+  const canOperate = principal.role === 'operator' || principal.role === 'admin';
+
+  return (
+    <div className="pt-3 border-t border-white/10 space-y-2">
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500">
+          Signed in as <span className="text-white">{principal.name}</span> ({principal.role})
+        </span>
+        <button onClick={signOut} className="text-gray-400 hover:text-white">Sign out</button>
+      </div>
+      {canOperate ? (
+        <>
+          <input
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder="Reason (recorded in the event log)"
+            className="w-full px-3 py-1.5 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder-gray-600"
+          />
+          <div className="flex gap-2">
+            {isHalted ? (
+              <button
+                onClick={() => act(() => oracleAPI.resumeCircuitBreaker(pair, reason || undefined))}
+                disabled={busy}
+                className="flex-1 px-3 py-1.5 rounded-lg bg-green-500/20 text-green-400 text-sm disabled:opacity-50"
+              >
+                Resume
+              </button>
+            ) : (
+              <>
+                <button
+                  onClick={() => act(() => oracleAPI.haltCircuitBreaker(pair, reason || 'Manual halt', 'soft'))}
+                  disabled={busy}
+                  className="flex-1 px-3 py-1.5 rounded-lg bg-yellow-500/20 text-yellow-400 text-sm disabled:opacity-50"
+                >
+                  Soft Halt
+                </button>
+                <button
+                  onClick={() => act(() => oracleAPI.haltCircuitBreaker(pair, reason || 'Manual halt', 'hard'))}
+                  disabled={busy}
+                  className="flex-1 px-3 py-1.5 rounded-lg bg-red-500/20 text-red-400 text-sm disabled:opacity-50"
+                >
+                  Hard Halt
+                </button>
+              </>
+            )}
+          </div>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">Halting and resuming requires the operator role.</p>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default OperatorControls;
@@ -15,6 +15,7 @@ import { PriceCandle } from '@/services/oracleAPI';
 interface PriceChartProps {
   candles: PriceCandle[];
   pair: string;
+  intervalMs?: number;
   color?: string;
   height?: number;
 }
@@ -27,8 +28,23 @@ interface ChartDataPoint {
   low: number;
   open: number;
   close: number;
+  synthetic: boolean;
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// Axis label for a candle: time of day for intraday intervals, the date for daily ones
+const formatCandleTime = (timestamp: number, intervalMs: number): string => {
+  const date = new Date(timestamp);
+  if (intervalMs >= 24 * HOUR_MS) {
+    return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+  if (intervalMs >= HOUR_MS) {
+    return date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  }
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
 const CustomTooltip = ({ active, payload, label }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload as ChartDataPoint;
@@ -53,26 +69,30 @@ const CustomTooltip = ({ active, payload, label }: any) => {
             <span className="text-xs text-white font-medium">${data.close.toLocaleString(undefined, { minimumFractionDigits: 2 })}</span>
           </div>
         </div>
+        {data.synthetic && (
+          <p className="text-xs text-yellow-400 mt-2">No prices in this interval: previous close carried forward</p>
+        )}
       </div>
     );
   }
   return null;
 };
 
-export const PriceChart: FC<PriceChartProps> = ({ candles, pair, color = '#8B5CF6', height = 400 }) => {
+export const PriceChart: FC<PriceChartProps> = ({ candles, pair, intervalMs = 60 * 1000, color = '#8B5CF6', height = 400 }) => {
   const chartData: ChartDataPoint[] = useMemo(() => {
     if (!candles || candles.length === 0) return [];
 
     return candles.map((candle) => ({
-      time: new Date(candle.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+      time: formatCandleTime(candle.timestamp, intervalMs),
       timestamp: candle.timestamp,
       price: candle.close,
       high: candle.high,
       low: candle.low,
       open: candle.open,
       close: candle.close,
+      synthetic: candle.synthetic,
     }));
-  }, [candles]);
+  }, [candles, intervalMs]);
 
   const { minPrice, maxPrice, priceChange, changePercent } = useMemo(() => {
     if (chartData.length === 0) {
@@ -113,6 +133,7 @@ export const PriceChart: FC<PriceChartProps> = ({ candles, pair, color = '#8B5CF
   }
 
   const isPositive = changePercent >= 0;
+  const syntheticCount = chartData.filter(d => d.synthetic).length;
   const gradientId = `colorPrice-${pair.replace('/', '-')}`;
 
   return (
@@ -128,7 +149,8 @@ export const PriceChart: FC<PriceChartProps> = ({ candles, pair, color = '#8B5CF
           </span>
         </div>
         <div className="text-sm text-gray-500">
-          {chartData.length} data points
+          {chartData.length} candles
+          {syntheticCount > 0 && <span className="text-yellow-400/80"> ({syntheticCount} filled)</span>}
         </div>
       </div>
 
@@ -39,10 +39,15 @@ const tokenColors: { [key: string]: string } = {
 export const PriceDisplay: FC<PriceDisplayProps> = ({ prices, loading, providerCount }) => {
   const router = useRouter();
 
-  const formatPrice = (price: number): string => {
+  const formatPrice = (price: number, pair: string): string => {
+    const quote = pair.split('/')[1];
+    // Crypto-quoted pairs (ETH/BTC, ALEO/ETH) need significant digits, not cents
+    if (quote !== 'USD' && quote !== 'EUR') {
+      return `${price.toPrecision(6)} ${quote}`;
+    }
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: quote,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(price);
@@ -58,6 +63,12 @@ export const PriceDisplay: FC<PriceDisplayProps> = ({ prices, loading, providerC
 
   const getToken = (pair: string): string => pair.split('/')[0];
 
+  const getConfidenceStyle = (score: number): string => {
+    if (score >= 7000) return 'bg-green-500/20 text-green-400';
+    if (score >= 4000) return 'bg-yellow-500/20 text-yellow-400';
+    return 'bg-red-500/20 text-red-400';
+  };
+
   if (loading) {
     return (
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -108,13 +119,15 @@ export const PriceDisplay: FC<PriceDisplayProps> = ({ prices, loading, providerC
           const age = price.age || 0;
           const isStale = age > 60000;
           const isVeryStale = age > 300000;
-          const isHalted = price.circuitBreaker?.isHalted;
+          // Soft halt: the price is still published, but flagged
+          const isFlagged = !!price.circuitBreaker?.isHalted && price.circuitBreaker.severity === 'soft';
+          const isHalted = !!price.circuitBreaker?.isHalted && !isFlagged;
           const change24h = price.twap?.deviation24h || 0;
 
           return (
             <div
               key={price.pair}
-              className={`glass-card glass-card-hover rounded-2xl p-6 relative overflow-hidden group cursor-pointer transition-all duration-300 hover:scale-[1.02] ${isHalted ? 'ring-2 ring-red-500/50' : ''
+              className={`glass-card glass-card-hover rounded-2xl p-6 relative overflow-hidden group cursor-pointer transition-all duration-300 hover:scale-[1.02] ${isHalted ? 'ring-2 ring-red-500/50' : isFlagged ? 'ring-2 ring-yellow-500/50' : ''
                 }`}
               onClick={() => router.push(`/token/${price.pair.replace('/', '-').toLowerCase()}`)}
             >
@@ -129,16 +142,23 @@ export const PriceDisplay: FC<PriceDisplayProps> = ({ prices, loading, providerC
                   </span>
                 </div>
               )}
+              {isFlagged && (
+                <div className="absolute top-0 left-0 right-0 bg-yellow-500/20 px-3 py-1 text-center">
+                  <span className="text-xs font-medium text-yellow-400">
+                    Soft Halt: Price Flagged
+                  </span>
+                </div>
+              )}
 
               {/* Header */}
-              <div className={`flex items-center justify-between mb-4 relative ${isHalted ? 'mt-4' : ''}`}>
+              <div className={`flex items-center justify-between mb-4 relative ${isHalted || isFlagged ? 'mt-4' : ''}`}>
                 <div className="flex items-center gap-3">
                   <div className={`w-12 h-12 rounded-xl bg-gradient-to-br ${tokenColors[token] || 'from-indigo-500 to-purple-600'} flex items-center justify-center text-2xl shadow-lg group-hover:scale-110 transition-transform`}>
                     {tokenIcons[token] || token.charAt(0)}
                   </div>
                   <div>
                     <span className="text-lg font-bold text-white">{token}</span>
-                    <p className="text-xs text-gray-500">/ USD</p>
+                    <p className="text-xs text-gray-500">/ {price.pair.split('/')[1]}</p>
                   </div>
                 </div>
                 <div className="flex flex-col items-end gap-1">
@@ -178,18 +198,32 @@ export const PriceDisplay: FC<PriceDisplayProps> = ({ prices, loading, providerC
               {/* Price */}
               <div className="mb-3 relative">
                 <div className="text-3xl font-bold text-white tracking-tight">
-                  {formatPrice(price.price)}
+                  {formatPrice(price.price, price.pair)}
                 </div>
                 {/* 24h Change */}
                 <div className={`text-sm font-medium mt-1 ${change24h >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                   {change24h >= 0 ? '+' : ''}{change24h.toFixed(2)}% <span className="text-gray-500">24h</span>
                 </div>
+                {/* Confidence interval */}
+                {price.confidence && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    {formatPrice(price.confidence.low, price.pair)} – {formatPrice(price.confidence.high, price.pair)}
+                  </div>
+                )}
               </div>
 
               {/* Footer */}
               <div className="flex items-center justify-between relative pt-3 border-t border-white/5">
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-gray-500">{price.sourceCount} sources</span>
+                  {price.confidence && (
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium ${getConfidenceStyle(price.confidence.score)}`}
+                      title="Confidence score (0-10000) from source count, agreement and freshness"
+                    >
+                      {(price.confidence.score / 100).toFixed(0)}% conf.
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center gap-2 text-xs text-gray-500">
                   <span>View analysis</span>
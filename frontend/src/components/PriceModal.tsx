@@ -48,12 +48,19 @@ export const PriceModal: FC<PriceModalProps> = ({ price, onClose }) => {
   const token = price.pair.split('/')[0];
   const age = price.age || 0;
   const isStale = age > 60000;
-  const isHalted = price.circuitBreaker?.isHalted;
+  // Soft halt: the price is still published, but flagged
+  const isFlagged = !!price.circuitBreaker?.isHalted && price.circuitBreaker.severity === 'soft';
+  const isHalted = !!price.circuitBreaker?.isHalted && !isFlagged;
 
   const formatPrice = (p: number): string => {
+    const quote = price.pair.split('/')[1];
+    // Crypto-quoted pairs (ETH/BTC, ALEO/ETH) need significant digits, not cents
+    if (quote !== 'USD' && quote !== 'EUR') {
+      return `${p.toPrecision(6)} ${quote}`;
+    }
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
-      currency: 'USD',
+      currency: quote,
       minimumFractionDigits: 2,
       maximumFractionDigits: 2,
     }).format(p);
@@ -98,9 +105,9 @@ export const PriceModal: FC<PriceModalProps> = ({ price, onClose }) => {
           <div>
             <h2 className="text-2xl font-bold text-white">{token}/USD</h2>
             <div className="flex items-center gap-2 mt-1">
-              <div className={`w-2 h-2 rounded-full ${isHalted ? 'bg-red-400' : isStale ? 'bg-yellow-400' : 'bg-green-400 animate-pulse'}`} />
+              <div className={`w-2 h-2 rounded-full ${isHalted ? 'bg-red-400' : isFlagged || isStale ? 'bg-yellow-400' : 'bg-green-400 animate-pulse'}`} />
               <span className="text-sm text-gray-400">
-                {isHalted ? 'Halted' : `Updated ${formatAge(age)}`}
+                {isHalted ? 'Halted' : isFlagged ? `Flagged · updated ${formatAge(age)}` : `Updated ${formatAge(age)}`}
               </span>
             </div>
           </div>
@@ -121,6 +128,13 @@ export const PriceModal: FC<PriceModalProps> = ({ price, onClose }) => {
           </div>
         )}
 
+        {isFlagged && (
+          <div className="mb-6 p-4 rounded-xl bg-yellow-500/10 border border-yellow-500/30">
+            <p className="font-medium text-yellow-400">Soft Halt: Price Flagged</p>
+            <p className="text-sm text-yellow-300/70">{price.circuitBreaker?.lastTripReason || 'Unusual price movement'}</p>
+          </div>
+        )}
+
         {/* Price */}
         <div className="mb-6 relative">
           <p className="text-sm text-gray-500 mb-1">Current Price</p>
@@ -162,7 +176,7 @@ export const PriceModal: FC<PriceModalProps> = ({ price, onClose }) => {
             <p className={`text-lg font-bold ${price.signatureVerified ? 'text-emerald-400' : 'text-orange-400'}`}>
               {price.signatureVerified ? 'Verified' : 'Unverified'}
             </p>
-            <p className="text-xs text-gray-500 mt-1">{price.signatureR ? 'Schnorr' : 'Legacy'}</p>
+            <p className="text-xs text-gray-500 mt-1">{price.signature ? 'Aleo signature' : 'Unsigned'}</p>
           </div>
         </div>
 
@@ -184,8 +198,8 @@ export const PriceModal: FC<PriceModalProps> = ({ price, onClose }) => {
             </div>
             <div className="flex justify-between text-sm mt-1">
               <span className="text-gray-400">Status:</span>
-              <span className={price.circuitBreaker.isHalted ? 'text-red-400' : 'text-green-400'}>
-                {price.circuitBreaker.isHalted ? 'Halted' : 'Active'}
+              <span className={isHalted ? 'text-red-400' : isFlagged ? 'text-yellow-400' : 'text-green-400'}>
+                {isHalted ? 'Halted' : isFlagged ? 'Flagged' : 'Active'}
               </span>
             </div>
           </div>
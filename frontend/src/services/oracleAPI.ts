@@ -2,6 +2,16 @@ import axios from 'axios';
 
 const API_BASE_URL = (process.env.NEXT_PUBLIC_ORACLE_API_URL || 'http://localhost:3000').replace(/\/$/, '');
 const RELAYER_BASE_URL = (process.env.NEXT_PUBLIC_RELAYER_URL || 'http://localhost:3001').replace(/\/$/, '');
+const API_KEY_STORAGE = 'oracleApiKey';
+
+// Oracle node API key (operator/admin actions), kept in localStorage
+const getApiKey = (): string | null =>
+  typeof window !== 'undefined' ? window.localStorage.getItem(API_KEY_STORAGE) : null;
+
+const authHeaders = () => {
+  const key = getApiKey();
+  return key ? { Authorization: `Bearer ${key}` } : {};
+};
 
 export interface TWAPData {
   '1h': number;
@@ -18,13 +28,28 @@ export interface TWAPData {
 
 export interface CircuitBreakerStatus {
   isHalted: boolean;
+  severity?: 'soft' | 'hard' | null;  // soft: price still published, flagged; hard: withheld
+  flagged?: boolean;
   tripCount: number;
   lastTripReason?: string | null;
+  lastTripReasonCode?: number;        // Contract last_trip_reason (0 = none)
   haltedAt?: number;
   haltUntil?: number;
   remainingMs?: number;
 }
 
+// 0-10000 score (as ConsensusPrice.confidence_score) and confidence interval
+export interface PriceConfidence {
+  score: number;
+  low: number;
+  high: number;
+  factors: {
+    sources: number;
+    dispersion: number;
+    freshness: number;
+  };
+}
+
 export interface PriceData {
   pair: string;
   price: number;
@@ -32,8 +57,11 @@ export interface PriceData {
   timestamp: number;
   sources: string[];
   sourceCount: number;
-  signature?: string;
+  confidence?: PriceConfidence | null;
+  pairId?: number;
+  signature?: string | null;
   operatorAddress?: string;
+  message?: string;       // PriceMessage literal covered by the signature
   age?: number;
   twap?: TWAPData;
   circuitBreaker?: CircuitBreakerStatus;
@@ -52,11 +80,39 @@ export interface HealthStatus {
   };
 }
 
+export type ApiRole = 'reader' | 'operator' | 'admin';
+
+export interface ApiPrincipal {
+  name: string;
+  role: ApiRole;
+}
+
+// Audit log entry (trip, manual halt, resume, config change)
+export interface CircuitBreakerEvent {
+  id: number;
+  timestamp: number;
+  pair: string;
+  type: 'trip' | 'manual-halt' | 'auto-resume' | 'resume' | 'config-update';
+  actor: string;
+  reason: string | null;
+  severity: 'soft' | 'hard' | null;
+  reasonCode: number;
+  haltUntil: number | null;
+}
+
+export interface CircuitBreakerTier {
+  name: string;
+  windowMs: number;
+  maxChangePercent: number;
+  severity: 'soft' | 'hard';
+  reasonCode: number;
+}
+
 export interface CircuitBreakerConfig {
   enabled: boolean;
-  maxPriceChangePercent: number;
-  checkWindowMs: number;
-  haltDurationMs: number;
+  tiers: CircuitBreakerTier[];
+  softHaltDurationMs: number;
+  hardHaltDurationMs: number;
 }
 
 export interface AllPricesResponse {
@@ -95,12 +151,83 @@ export interface PriceStats {
 }
 
 export interface PriceCandle {
-  timestamp: number;
+  timestamp: number;          // Bucket start, aligned to UTC
   open: number;
   high: number;
   low: number;
   close: number;
-  volume: number;
+  volume: number;             // Estimated volume traded during the candle (pro-rated 24h volume)
+  volume24h: number | null;   // Sources' rolling 24h volume at the candle's close
+  samples: number;
+  synthetic: boolean;         // No price in the bucket: previous close carried forward
+}
+
+export interface CandlesResponse {
+  pair: string;
+  interval: string;
+  intervalMs: number;
+  from: number;
+  to: number;
+  truncated: boolean;         // More candles in the requested range: continue from to + intervalMs
+  candles: PriceCandle[];
+  count: number;
+  timestamp: number;
+}
+
+export interface AggregationDetails {
+  strategy: string;
+  price: number;
+  initialMedian: number;
+  included: string[];
+  rejected: { source: string; price: number; reason: string }[];
+  dispersion: {
+    stdDev: number;
+    mad: number;
+    spreadPercent: number;
+  };
+  weights?: { [source: string]: number };
+  quoteConversions?: QuoteConversion[];
+  // Derived pairs only: the pairs the price was computed from
+  derivation?: {
+    op: string;
+    legs: { pair: string; price: number; sourceCount: number; timestamp: number }[];
+  };
+}
+
+// Stablecoin-quoted venue price converted into the pair's quote currency
+export interface QuoteConversion {
+  source: string;
+  quoteAsset: string;
+  rawPrice: number;
+  rate: number;
+  price: number;
+  rateStatus: 'direct' | 'reference' | 'assumed';
+  depegged: boolean;
+  excluded: boolean;
+}
+
+// One exchange's quote behind an aggregated price
+export interface SourceQuote {
+  source: string;
+  rawPrice: number;
+  quoteAsset: string;
+  price: number;
+  timestamp: number;
+  latencyMs?: number;
+  deviationPercent: number;
+  status: 'included' | 'rejected';
+  reason?: string;
+  leg?: string;
+}
+
+export interface SourcesResponse {
+  pair: string;
+  price: number;
+  timestamp: number;
+  strategy: string | null;
+  sourceCount: number;
+  sources: SourceQuote[];
+  missing: string[];
 }
 
 export interface AnalysisResponse {
@@ -114,6 +241,7 @@ export interface AnalysisResponse {
     signature?: string;
     signatureVerified: boolean;
   };
+  aggregation: AggregationDetails | null;
   stats: {
     '5m': PriceStats | null;
     '1h': PriceStats | null;
@@ -127,8 +255,10 @@ export interface AnalysisResponse {
   };
   circuitBreaker: {
     isHalted: boolean;
+    severity?: 'soft' | 'hard' | null;
     tripCount: number;
     lastTripReason?: string | null;
+    lastTripReasonCode?: number;
     config: CircuitBreakerConfig;
   };
   charts: {
@@ -139,6 +269,35 @@ export interface AnalysisResponse {
   timestamp: number;
 }
 
+export interface PairDefinition {
+  pair: string;
+  pairId: number;
+  base: string;
+  quote: string;
+  decimals: number;
+  minSources: number;
+  symbols: { [provider: string]: string };
+}
+
+export interface PairRegistryResponse {
+  version: string;
+  pairs: PairDefinition[];
+  timestamp: number;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  message: string;
+  messageHash: string;
+  mismatches: { field: string; expected: string; actual: string }[];
+  reason: string | null;
+  pair: string | null;
+  pairId: number;
+  operatorAddress: string;
+  signedByThisNode: boolean;
+  timestamp: number;
+}
+
 // ===== Relayer Types =====
 export interface RelayerHealth {
   status: string;
@@ -219,6 +378,54 @@ export const oracleAPI = {
     return response.data;
   },
 
+  // Get the circuit breaker audit log, newest first
+  async getCircuitBreakerEvents(pair?: string, limit = 20): Promise<{ pair: string | null; count: number; events: CircuitBreakerEvent[]; timestamp: number }> {
+    const response = await axios.get(`${API_BASE_URL}/price/circuit-breaker/events`, {
+      params: { pair: pair?.replace('/', '-'), limit }
+    });
+    return response.data;
+  },
+
+  // Check an API key and store it for operator/admin calls; returns who it belongs to
+  async signIn(key: string): Promise<ApiPrincipal> {
+    const response = await axios.get(`${API_BASE_URL}/auth/whoami`, {
+      headers: { Authorization: `Bearer ${key}` }
+    });
+    window.localStorage.setItem(API_KEY_STORAGE, key);
+    return { name: response.data.name, role: response.data.role };
+  },
+
+  signOut(): void {
+    window.localStorage.removeItem(API_KEY_STORAGE);
+  },
+
+  // Principal of the stored API key, or null when signed out or the key was revoked
+  async getPrincipal(): Promise<ApiPrincipal | null> {
+    if (!getApiKey()) return null;
+    try {
+      const response = await axios.get(`${API_BASE_URL}/auth/whoami`, { headers: authHeaders() });
+      return { name: response.data.name, role: response.data.role };
+    } catch {
+      return null;
+    }
+  },
+
+  // Manually halt a pair (operator)
+  async haltCircuitBreaker(pair: string, reason: string, severity: 'soft' | 'hard' = 'hard'): Promise<void> {
+    await axios.post(`${API_BASE_URL}/price/circuit-breaker/${pair.replace('/', '-')}/halt`, { reason, severity }, { headers: authHeaders() });
+  },
+
+  // Resume a halted pair (operator)
+  async resumeCircuitBreaker(pair: string, reason?: string): Promise<void> {
+    await axios.post(`${API_BASE_URL}/price/circuit-breaker/${pair.replace('/', '-')}/resume`, { reason }, { headers: authHeaders() });
+  },
+
+  // Change circuit breaker config (admin)
+  async updateCircuitBreakerConfig(update: Partial<CircuitBreakerConfig>): Promise<CircuitBreakerConfig> {
+    const response = await axios.put(`${API_BASE_URL}/price/circuit-breaker/config`, update, { headers: authHeaders() });
+    return response.data.config;
+  },
+
   // Get health status
   async getHealth(): Promise<HealthStatus> {
     const response = await axios.get(`${API_BASE_URL}/health`);
@@ -231,6 +438,12 @@ export const oracleAPI = {
     return response.data;
   },
 
+  // Get the pair registry (ids, decimals, exchange symbols)
+  async getPairs(): Promise<PairRegistryResponse> {
+    const response = await axios.get(`${API_BASE_URL}/pairs`);
+    return response.data;
+  },
+
   // Get price statistics
   async getStats(pair: string, window: string = '1h'): Promise<{ pair: string; window: string; stats: PriceStats; trend: any; timestamp: number }> {
     const response = await axios.get(`${API_BASE_URL}/price/${pair.replace('/', '-')}/stats`, {
@@ -239,14 +452,46 @@ export const oracleAPI = {
     return response.data;
   },
 
-  // Get OHLC candles
-  async getCandles(pair: string, interval: string = '1m', limit: number = 100): Promise<{ pair: string; interval: string; candles: PriceCandle[]; count: number; timestamp: number }> {
+  // Get OHLC candles: the latest `limit`, or a page starting at `from`
+  async getCandles(pair: string, interval: string = '1m', limit: number = 100, from?: number, to?: number): Promise<CandlesResponse> {
     const response = await axios.get(`${API_BASE_URL}/price/${pair.replace('/', '-')}/candles`, {
-      params: { interval, limit }
+      params: { interval, limit, from, to }
+    });
+    return response.data;
+  },
+
+  // Get every candle from `from` to now, following pages
+  async getCandleRange(pair: string, interval: string, from: number): Promise<PriceCandle[]> {
+    const candles: PriceCandle[] = [];
+    let page: CandlesResponse;
+    do {
+      page = await oracleAPI.getCandles(pair, interval, 500, from);
+      candles.push(...page.candles);
+      from = page.to + page.intervalMs;
+    } while (page.truncated);
+    return candles;
+  },
+
+  // Check that a price's signature really covers it
+  async verifyPrice(price: PriceData): Promise<SignatureVerification> {
+    const response = await axios.post(`${API_BASE_URL}/verify`, {
+      pair: price.pair,
+      pairId: price.pairId,
+      price: price.scaledPrice,
+      timestamp: price.timestamp,
+      sourceCount: price.sourceCount,
+      signature: price.signature,
+      operatorAddress: price.operatorAddress
     });
     return response.data;
   },
 
+  // Get the per-exchange quotes behind the current price
+  async getSources(pair: string): Promise<SourcesResponse> {
+    const response = await axios.get(`${API_BASE_URL}/price/${pair.replace('/', '-')}/sources`);
+    return response.data;
+  },
+
   // Get comprehensive analysis
   async getAnalysis(pair: string): Promise<AnalysisResponse> {
     const response = await axios.get(`${API_BASE_URL}/price/${pair.replace('/', '-')}/analysis`);
@@ -0,0 +1,109 @@
+import { PriceResult } from '../providers';
+import {
+  AggregationOptions,
+  MedianStrategy,
+  FilteredMedianStrategy,
+  TrimmedMeanStrategy,
+  VolumeWeightedMedianStrategy,
+  VwapStrategy,
+  MadFilterStrategy,
+  ReliabilityWeightedStrategy,
+  weightedMedian,
+  getAggregationStrategy
+} from '../services/aggregationStrategies';
+
+const options: AggregationOptions = {
+  outlierThreshold: 0.05,
+  trimPercent: 0.2,
+  madThreshold: 3,
+  sourceReliability: { binance: 1, coingecko: 0.2 }
+};
+
+function quotes(entries: [string, number, number?][]): PriceResult[] {
+  return entries.map(([source, price, quoteVolume]) => ({
+    pair: 'ETH/USD',
+    price,
+    timestamp: Date.now(),
+    source,
+    quoteVolume
+  }));
+}
+
+describe('aggregation strategies', () => {
+  const withOutlier = quotes([
+    ['binance', 100],
+    ['coinbase', 101],
+    ['kraken', 99],
+    ['okex', 100.5],
+    ['gateio', 150]
+  ]);
+
+  it('median keeps every source', () => {
+    const result = new MedianStrategy().aggregate(withOutlier);
+    expect(result.price).toBe(100.5);
+    expect(result.rejected).toHaveLength(0);
+  });
+
+  it('filtered-median drops sources beyond the threshold and reports why', () => {
+    const result = new FilteredMedianStrategy().aggregate(withOutlier, options);
+    expect(result.initialMedian).toBe(100.5);
+    expect(result.price).toBe(100.25);
+    expect(result.included).not.toContain('gateio');
+    expect(result.rejected[0].source).toBe('gateio');
+    expect(result.rejected[0].reason).toContain('exceeds 5.00%');
+    expect(result.rejected[0].outlier).toBe(true);
+  });
+
+  it('trimmed-mean discards the extremes', () => {
+    const result = new TrimmedMeanStrategy().aggregate(withOutlier, options);
+    // 20% of 5 = 1 trimmed from each end: 99 and 150
+    expect(result.rejected.map(r => r.source).sort()).toEqual(['gateio', 'kraken']);
+    // Trimming is routine, not a verdict on the venue
+    expect(result.rejected.every(r => !r.outlier)).toBe(true);
+    expect(result.price).toBeCloseTo((100 + 100.5 + 101) / 3, 8);
+  });
+
+  it('volume-weighted-median follows the deepest venue', () => {
+    const result = new VolumeWeightedMedianStrategy().aggregate(quotes([
+      ['binance', 100, 1_000_000],
+      ['coinbase', 102, 10_000],
+      ['kraken', 101, 10_000]
+    ]), options);
+    expect(result.price).toBe(100);
+    expect(result.weights?.binance).toBe(1_000_000);
+  });
+
+  it('vwap limits the pull of a thinly traded venue', () => {
+    const result = new VwapStrategy().aggregate(quotes([
+      ['binance', 100, 900_000],
+      ['gateio', 104, 100_000]
+    ]), options);
+    expect(result.price).toBeCloseTo(100.4, 8);
+  });
+
+  it('mad rejects quotes far from the median relative to spread', () => {
+    const result = new MadFilterStrategy().aggregate(withOutlier, options);
+    expect(result.rejected.map(r => r.source)).toEqual(['gateio']);
+    expect(result.dispersion.mad).toBeGreaterThan(0);
+  });
+
+  it('reliability-weighted down-weights untrusted sources', () => {
+    const result = new ReliabilityWeightedStrategy().aggregate(quotes([
+      ['binance', 100],
+      ['coingecko', 101],
+      ['coinbase', 102]
+    ]), { ...options, sourceReliability: { binance: 3, coingecko: 0.2 } });
+    expect(result.weights).toEqual({ binance: 3, coingecko: 0.2, coinbase: 1 });
+    // Plain median would be 101; binance carries more than half the weight
+    expect(result.price).toBe(100);
+  });
+
+  it('weightedMedian falls back to the plain median without weights', () => {
+    expect(weightedMedian([1, 2, 3], [0, 0, 0])).toBe(2);
+  });
+
+  it('looks strategies up by name', () => {
+    expect(getAggregationStrategy('mad')).toBeInstanceOf(MadFilterStrategy);
+    expect(getAggregationStrategy('nope')).toBeUndefined();
+  });
+});
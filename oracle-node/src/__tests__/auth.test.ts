@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { ApiKeyStore, parseApiKeys } from '../services/apiKeys';
+
+const KEYS = 'dashboard:reader:r-key,ops:operator:o-key,root:admin:a-key:with:colons';
+
+describe('parseApiKeys', () => {
+  it('reads name:role:key entries', () => {
+    expect(parseApiKeys(KEYS)).toEqual([
+      { name: 'dashboard', role: 'reader', key: 'r-key' },
+      { name: 'ops', role: 'operator', key: 'o-key' },
+      { name: 'root', role: 'admin', key: 'a-key:with:colons' }
+    ]);
+  });
+
+  it('skips entries with an unknown role or no key', () => {
+    expect(parseApiKeys('a:superuser:k, b:admin:, ,c:reader:k2')).toEqual([{ name: 'c', role: 'reader', key: 'k2' }]);
+  });
+});
+
+describe('ApiKeyStore', () => {
+  const store = new ApiKeyStore(parseApiKeys(KEYS));
+
+  it('authenticates known keys only', () => {
+    expect(store.authenticate('o-key')).toEqual({ name: 'ops', role: 'operator' });
+    expect(store.authenticate('nope')).toBeNull();
+    expect(store.authenticate('')).toBeNull();
+  });
+
+  it('orders roles reader < operator < admin', () => {
+    const operator = store.authenticate('o-key')!;
+    expect(store.hasRole(operator, 'reader')).toBe(true);
+    expect(store.hasRole(operator, 'operator')).toBe(true);
+    expect(store.hasRole(operator, 'admin')).toBe(false);
+  });
+
+  it('is disabled without keys', () => {
+    expect(new ApiKeyStore([]).isEnabled()).toBe(false);
+  });
+});
+
+describe('requireRole', () => {
+  function mockResponse(): any {
+    const res: any = { locals: {} };
+    res.status = jest.fn(() => res);
+    res.json = jest.fn(() => res);
+    return res;
+  }
+
+  function mockRequest(headers: { [name: string]: string }): Request {
+    return { header: (name: string) => headers[name] } as unknown as Request;
+  }
+
+  async function load(apiKeys: string) {
+    jest.resetModules();
+    process.env.API_KEYS = apiKeys;
+    return import('../middleware/auth');
+  }
+
+  afterEach(() => {
+    delete process.env.API_KEYS;
+  });
+
+  it('passes a key with enough role and records the caller', async () => {
+    const { requireRole, getPrincipal } = await load(KEYS);
+    const res = mockResponse();
+    const next = jest.fn();
+
+    requireRole('operator')(mockRequest({ Authorization: 'Bearer a-key:with:colons' }), res as Response, next);
+
+    expect(next).toHaveBeenCalled();
+    expect(getPrincipal(res)).toEqual({ name: 'root', role: 'admin' });
+  });
+
+  it('rejects missing, unknown and under-privileged keys', async () => {
+    const { requireRole } = await load(KEYS);
+    const cases: [{ [name: string]: string }, number][] = [
+      [{}, 401],
+      [{ 'X-API-Key': 'wrong' }, 401],
+      [{ 'X-API-Key': 'r-key' }, 403]
+    ];
+
+    for (const [headers, status] of cases) {
+      const res = mockResponse();
+      const next = jest.fn();
+      requireRole('operator')(mockRequest(headers), res as Response, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(status);
+    }
+  });
+
+  it('accepts the legacy X-Admin-Key header', async () => {
+    const { requireRole } = await load(KEYS);
+    const next = jest.fn();
+
+    requireRole('admin')(mockRequest({ 'X-Admin-Key': 'a-key:with:colons' }), mockResponse() as Response, next);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
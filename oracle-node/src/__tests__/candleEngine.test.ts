@@ -0,0 +1,149 @@
+import { MemoryHistoryStorage } from '../services/historyStorage';
+import { PriceStore } from '../services/priceStore';
+import { CandleSeries, alignToInterval, buildCandles, fillGaps } from '../services/candleEngine';
+import { makePrice } from './fixtures/prices';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+describe('candle engine', () => {
+  it('aligns buckets to UTC boundaries', () => {
+    const t = Date.UTC(2024, 2, 10, 13, 47, 12);
+
+    expect(alignToInterval(t, DAY)).toBe(Date.UTC(2024, 2, 10));
+    expect(alignToInterval(t, 4 * HOUR)).toBe(Date.UTC(2024, 2, 10, 12));
+    expect(alignToInterval(t, 15 * MINUTE)).toBe(Date.UTC(2024, 2, 10, 13, 45));
+  });
+
+  it('builds OHLC candles with sample counts, pro-rated volume and the latest 24h volume', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const candles = buildCandles([
+      { timestamp: start + 5000, price: 100, volume24h: 10 },
+      { timestamp: start + 20000, price: 104, volume24h: 12 },
+      { timestamp: start + 40000, price: 98 },
+      { timestamp: start + MINUTE + 1000, price: 101, volume24h: 13 }
+    ], MINUTE);
+
+    expect(candles).toEqual([
+      { timestamp: start, open: 100, high: 104, low: 98, close: 98, volume: expect.closeTo(11 / 1440, 12), volume24h: 12, samples: 3, synthetic: false },
+      { timestamp: start + MINUTE, open: 101, high: 101, low: 101, close: 101, volume: expect.closeTo(13 / 1440, 12), volume24h: 13, samples: 1, synthetic: false }
+    ]);
+  });
+
+  it('forward-fills empty buckets as flat synthetic candles', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const candles = buildCandles([
+      { timestamp: start, price: 100 },
+      { timestamp: start + 3 * MINUTE, price: 103 }
+    ], MINUTE);
+
+    const filled = fillGaps(candles, MINUTE, start - MINUTE, start + 4 * MINUTE);
+    expect(filled.map(c => [c.close, c.synthetic])).toEqual([
+      [100, false], [100, true], [100, true], [103, false], [103, true]
+    ]);
+    expect(filled[1]).toMatchObject({ open: 100, high: 100, low: 100, volume: 0, samples: 0 });
+
+    // A known close before the range fills leading gaps too
+    expect(fillGaps(candles, MINUTE, start - MINUTE, start, 99).map(c => c.close)).toEqual([99, 100]);
+  });
+
+  it('keeps the newest buckets and knows which ranges it no longer covers', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const series = new CandleSeries(MINUTE, 3);
+    for (let i = 0; i < 5; i++) {
+      series.add(start + i * MINUTE, 100 + i);
+    }
+
+    expect(series.range(start, start + 10 * MINUTE).candles.map(c => c.close)).toEqual([102, 103, 104]);
+    expect(series.covers(start + 2 * MINUTE)).toBe(true);
+    expect(series.covers(start + MINUTE)).toBe(false);
+  });
+
+  it('merges late prices into their bucket as open, close or a new bucket', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const series = new CandleSeries(MINUTE, 10, start);
+    series.add(start + 20000, 100, 10);
+    series.add(start + 40000, 102, 11);
+    series.add(start + 3 * MINUTE, 105);
+
+    series.add(start + 5000, 99, 9);                   // Earliest in its bucket: the new open
+    series.add(start + 50000, 103, 12);                // Latest in its bucket: the new close
+    series.add(start + MINUTE + 1000, 101);            // Opens the missing bucket in between
+    series.add(start - MINUTE, 90);                    // Before the covered range: ignored
+
+    expect(series.range(start - MINUTE, start + 3 * MINUTE).candles).toEqual([
+      { timestamp: start, open: 99, high: 103, low: 99, close: 103, volume: expect.closeTo(10.5 / 1440, 12), volume24h: 12, samples: 4, synthetic: false },
+      { timestamp: start + MINUTE, open: 101, high: 101, low: 101, close: 101, volume: 0, volume24h: null, samples: 1, synthetic: false },
+      { timestamp: start + 3 * MINUTE, open: 105, high: 105, low: 105, close: 105, volume: 0, volume24h: null, samples: 1, synthetic: false }
+    ]);
+  });
+});
+
+describe('PriceStore.getCandles', () => {
+  let now: number;
+  let store: PriceStore;
+  const start = Date.UTC(2024, 0, 1);
+
+  beforeEach(() => {
+    now = start;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    store = new PriceStore(new MemoryHistoryStorage(100000), {
+      statsWindows: {},
+      candleIntervals: { '1m': MINUTE, '1h': HOUR },
+      candleRetention: 30,
+      maxCandles: 50,
+      cacheMaxAgeMs: 10000
+    });
+
+    // Two hours at one price a minute, with a 10 minute outage in the first hour
+    for (let i = 0; i < 120; i++) {
+      now = start + i * MINUTE + 1000;
+      if (i >= 20 && i < 30) continue;
+      store.setPrice(makePrice('ETH/USD', 3000 + i, now));
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('returns the latest buckets up to now', () => {
+    const page = store.getCandles('ETH/USD', HOUR, { limit: 5 });
+
+    // Nothing before the first price, so no leading synthetic candles
+    expect(page.candles.map(c => c.timestamp)).toEqual([start, start + HOUR]);
+    expect(page.candles[0]).toMatchObject({ open: 3000, close: 3059, samples: 50, synthetic: false });
+    expect(page.candles[1]).toMatchObject({ open: 3060, close: 3119, samples: 60 });
+    expect(page.to).toBe(start + HOUR);
+  });
+
+  it('pages forward from `from` and rebuilds ranges older than the in-memory series from history', () => {
+    const first = store.getCandles('ETH/USD', MINUTE, { from: start + 15 * MINUTE + 30000, limit: 20 });
+    expect(first.from).toBe(start + 15 * MINUTE);
+    expect(first.truncated).toBe(true);
+    expect(first.candles).toHaveLength(20);
+    expect(first.candles.filter(c => c.synthetic).map(c => c.timestamp - start)).toEqual(
+      Array.from({ length: 10 }, (_, i) => (20 + i) * MINUTE)
+    );
+    // The outage repeats the last close before it
+    expect(first.candles.find(c => c.synthetic)!.close).toBe(3019);
+
+    const second = store.getCandles('ETH/USD', MINUTE, { from: first.to + MINUTE, to: start + 40 * MINUTE });
+    expect(second.from).toBe(start + 35 * MINUTE);
+    expect(second.candles.map(c => c.close)).toEqual([3035, 3036, 3037, 3038, 3039, 3040]);
+    expect(second.truncated).toBe(false);
+  });
+
+  it('caps `to` at now and the page size at maxCandles', () => {
+    const page = store.getCandles('ETH/USD', MINUTE, { from: start + 60 * MINUTE, to: start + 10 * DAY, limit: 1000 });
+
+    expect(page.candles).toHaveLength(50);
+    expect(page.truncated).toBe(true);
+
+    const rest = store.getCandles('ETH/USD', MINUTE, { from: page.to + MINUTE, to: start + 10 * DAY });
+    expect(rest.to).toBe(start + 119 * MINUTE);
+    expect(rest.candles).toHaveLength(10);
+    expect(rest.truncated).toBe(false);
+  });
+});
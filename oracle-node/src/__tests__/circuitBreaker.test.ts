@@ -0,0 +1,298 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  CircuitBreaker,
+  CircuitBreakerState,
+  validateConfigUpdate,
+  TRIP_REASON_CHANGE_1M,
+  TRIP_REASON_CHANGE_1H,
+  TRIP_REASON_MANUAL
+} from '../services/circuitBreaker';
+
+const MINUTE = 60000;
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    breaker = new CircuitBreaker();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('allows moves within every tier', () => {
+    expect(breaker.checkPrice('ETH/USD', 3000).allowed).toBe(true);
+    now += 30000;
+    const result = breaker.checkPrice('ETH/USD', 3100);
+
+    expect(result.allowed).toBe(true);
+    expect(result.flagged).toBe(false);
+    expect(result.priceChange).toBeCloseTo(100 / 3000, 10);
+  });
+
+  it('hard halts and withholds on a 1m move, with the contract reason code', () => {
+    const trips: CircuitBreakerState[] = [];
+    breaker.on('trip', state => trips.push(state));
+
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 30000;
+    const result = breaker.checkPrice('ETH/USD', 3300);
+
+    expect(result.allowed).toBe(false);
+    expect(result.reasonCode).toBe(TRIP_REASON_CHANGE_1M);
+    expect(breaker.isWithheld('ETH/USD')).toBe(true);
+    expect(trips).toHaveLength(1);
+    expect(trips[0]).toMatchObject({ severity: 'hard', tripCountHard: 1, lastTripReasonCode: 1 });
+
+    // Still withheld until the hard halt expires
+    now += 10 * MINUTE;
+    expect(breaker.checkPrice('ETH/USD', 3300).allowed).toBe(false);
+    now += 5 * MINUTE;
+    expect(breaker.checkPrice('ETH/USD', 3300).allowed).toBe(true);
+    expect(breaker.isHalted('ETH/USD')).toBe(false);
+  });
+
+  it('measures the 1m move from the last published price, as the contract does', () => {
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 20000;
+    expect(breaker.checkPrice('ETH/USD', 3090).allowed).toBe(true);
+    now += 20000;
+    // 6% above the first price in the minute, but 2.9% from the last: the chain accepts it
+    const result = breaker.checkPrice('ETH/USD', 3180);
+    expect(result.allowed).toBe(true);
+    expect(result.priceChange).toBeCloseTo(180 / 3000, 10);   // From the 1h window start
+    expect(breaker.isHalted('ETH/USD')).toBe(false);
+
+    // Nothing published within the last minute: no 1m check
+    now += 2 * MINUTE;
+    expect(breaker.checkPrice('ETH/USD', 3400).allowed).toBe(true);
+  });
+
+  it('measures longer tiers from the price at the start of their window', () => {
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 30 * MINUTE;
+    breaker.checkPrice('ETH/USD', 3400);
+
+    // 3000 was still the price an hour ago: 16% over the hour
+    now += 40 * MINUTE;
+    expect(breaker.checkPrice('ETH/USD', 3480).flagged).toBe(true);
+    breaker.resume('ETH/USD');
+
+    // An hour ago the price was already 3400: a 2.4% move
+    now += 20 * MINUTE;
+    const result = breaker.checkPrice('ETH/USD', 3480);
+    expect(result.flagged).toBe(false);
+    expect(result.priceChange).toBeCloseTo(480 / 3000, 10);   // Still 16% over 24h, under its 30%
+  });
+
+  it('does not record withheld prices', () => {
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 30000;
+    breaker.checkPrice('ETH/USD', 3300);
+
+    expect(breaker.getState_public('ETH/USD').lastPrice).toBe(3000);
+  });
+
+  it('soft halts on a 1h move but keeps publishing, flagged', () => {
+    breaker.checkPrice('ETH/USD', 3000);
+    // 4% steps: each within the 1m tier, 16% over the hour
+    for (const price of [3120, 3240, 3360, 3480]) {
+      now += 10 * MINUTE;
+      breaker.checkPrice('ETH/USD', price);
+    }
+
+    const state = breaker.getState_public('ETH/USD');
+    expect(state).toMatchObject({ isHalted: true, severity: 'soft', tripCountSoft: 1, tripCountHard: 0 });
+    expect(state.lastTripReasonCode).toBe(TRIP_REASON_CHANGE_1H);
+    expect(breaker.isWithheld('ETH/USD')).toBe(false);
+
+    now += MINUTE;
+    const result = breaker.checkPrice('ETH/USD', 3500);
+    expect(result.allowed).toBe(true);
+    expect(result.flagged).toBe(true);
+    expect(breaker.getState_public('ETH/USD').tripCountSoft).toBe(1);
+  });
+
+  it('escalates a soft halt to hard on a 1m move', () => {
+    breaker.forceHalt('ETH/USD', 'Operator check', 'soft');
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 30000;
+
+    const result = breaker.checkPrice('ETH/USD', 3300);
+    expect(result.allowed).toBe(false);
+    expect(breaker.getState_public('ETH/USD').severity).toBe('hard');
+  });
+
+  it('records manual halts with their own reason code', () => {
+    breaker.forceHalt('BTC/USD');
+
+    expect(breaker.isWithheld('BTC/USD')).toBe(true);
+    expect(breaker.getState_public('BTC/USD').lastTripReasonCode).toBe(TRIP_REASON_MANUAL);
+  });
+
+  it('applies per-pair threshold overrides', () => {
+    breaker = new CircuitBreaker({ pairOverrides: { 'ALEO/USD': { maxChangePercent: { '1m': 0.2 } } } });
+
+    expect(breaker.getPairConfig('ALEO/USD').tiers.find(t => t.name === '1m')!.maxChangePercent).toBe(0.2);
+    expect(breaker.getPairConfig('ETH/USD').tiers.find(t => t.name === '1m')!.maxChangePercent).toBe(0.05);
+
+    breaker.checkPrice('ALEO/USD', 1);
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 30000;
+    expect(breaker.checkPrice('ALEO/USD', 1.1).allowed).toBe(true);
+    expect(breaker.checkPrice('ETH/USD', 3300).allowed).toBe(false);
+  });
+
+  it('skips every check for a pair it is disabled on', () => {
+    breaker = new CircuitBreaker({ pairOverrides: { 'EUR/USD': { enabled: false } } });
+
+    breaker.checkPrice('EUR/USD', 1.1);
+    now += 30000;
+    expect(breaker.checkPrice('EUR/USD', 2).allowed).toBe(true);
+  });
+});
+
+describe('CircuitBreaker persistence', () => {
+  let now: number;
+  let dataDir: string;
+  let stateFile: string;
+  let eventLogFile: string;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oracle-breaker-'));
+    stateFile = path.join(dataDir, 'circuit-breaker.json');
+    eventLogFile = path.join(dataDir, 'circuit-breaker-events.jsonl');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('restores halts and trip counts after a restart', () => {
+    const before = new CircuitBreaker({}, stateFile, eventLogFile);
+    before.checkPrice('ETH/USD', 3000);
+    now += 30000;
+    before.checkPrice('ETH/USD', 3300);
+
+    const after = new CircuitBreaker({}, stateFile, eventLogFile);
+    expect(after.isWithheld('ETH/USD')).toBe(true);
+    expect(after.getState_public('ETH/USD')).toMatchObject({ tripCount: 1, tripCountHard: 1, lastTripReasonCode: TRIP_REASON_CHANGE_1M });
+  });
+
+  it('keeps checking moves against the last price from before the restart', () => {
+    const before = new CircuitBreaker({}, stateFile, eventLogFile);
+    before.forceHalt('ETH/USD', 'Maintenance', 'soft');
+    before.checkPrice('ETH/USD', 3000);
+    before.resume('ETH/USD', 'ops');
+
+    const after = new CircuitBreaker({}, stateFile, eventLogFile);
+    now += 30000;
+    expect(after.checkPrice('ETH/USD', 3300).allowed).toBe(false);
+  });
+
+  it('saves published prices so the tier checks resume where they left off', () => {
+    const before = new CircuitBreaker({}, stateFile, eventLogFile);
+    before.checkPrice('ETH/USD', 3000);
+    for (const price of [3100, 3200, 3300, 3380]) {
+      now += 10 * MINUTE;
+      before.checkPrice('ETH/USD', price);
+    }
+    now += 5000;
+    before.checkPrice('ETH/USD', 3390);   // Within the save interval: not written yet
+
+    const after = new CircuitBreaker({}, stateFile, eventLogFile);
+    expect(after.getState_public('ETH/USD')).toMatchObject({ lastPrice: 3380, isHalted: false });
+
+    // Measured from 3000 at the start of the hour, not just the last price
+    now += 5 * MINUTE;
+    expect(after.checkPrice('ETH/USD', 3470).flagged).toBe(true);
+  });
+
+  it('appends every transition to the event log with its actor', () => {
+    const breaker = new CircuitBreaker({}, stateFile, eventLogFile);
+    breaker.forceHalt('BTC/USD', 'Exchange outage', 'hard', 'ops');
+    breaker.resume('BTC/USD', '10.0.0.1', 'Outage over');
+    breaker.checkPrice('ETH/USD', 3000);
+    now += 30000;
+    breaker.checkPrice('ETH/USD', 3300);
+    now += 15 * MINUTE;
+    breaker.checkPrice('ETH/USD', 3300);
+
+    const lines = fs.readFileSync(eventLogFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(e => `${e.pair} ${e.type} ${e.actor}`)).toEqual([
+      'BTC/USD manual-halt ops',
+      'BTC/USD resume 10.0.0.1',
+      'ETH/USD trip system',
+      'ETH/USD auto-resume system'
+    ]);
+    expect(lines[0]).toMatchObject({ reason: 'Exchange outage', severity: 'hard', reasonCode: TRIP_REASON_MANUAL });
+    expect(lines[1]).toMatchObject({ reason: 'Outage over', severity: 'hard' });
+
+    // Queryable per pair, newest first, including after a restart
+    const reloaded = new CircuitBreaker({}, stateFile, eventLogFile);
+    expect(reloaded.getEvents('BTC/USD').map(e => e.type)).toEqual(['resume', 'manual-halt']);
+    expect(reloaded.getEvents(undefined, 1)[0].type).toBe('auto-resume');
+
+    reloaded.forceHalt('SOL/USD');
+    expect(reloaded.getEvents('SOL/USD')[0].id).toBe(5);
+  });
+
+  it('starts from a truncated event log line or an unreadable state file', () => {
+    const before = new CircuitBreaker({}, stateFile, eventLogFile);
+    before.forceHalt('BTC/USD', 'Exchange outage', 'hard', 'ops');
+    fs.appendFileSync(eventLogFile, '{"id":2,"timestamp":');
+
+    const after = new CircuitBreaker({}, stateFile, eventLogFile);
+    expect(after.isWithheld('BTC/USD')).toBe(true);
+    expect(after.getEvents().map(e => e.type)).toEqual(['manual-halt']);
+
+    fs.writeFileSync(stateFile, '{"states": [');
+    expect(new CircuitBreaker({}, stateFile, eventLogFile).isHalted('BTC/USD')).toBe(false);
+    expect(fs.existsSync(`${stateFile}.tmp`)).toBe(false);
+  });
+
+  it('keeps runtime config updates across restarts and logs who made them', () => {
+    const before = new CircuitBreaker({}, stateFile, eventLogFile);
+    before.updateConfig({ pairOverrides: { 'ALEO/USD': { maxChangePercent: { '1m': 0.1 } } } }, 'ops');
+
+    const after = new CircuitBreaker({}, stateFile, eventLogFile);
+    expect(after.getPairConfig('ALEO/USD').tiers[0].maxChangePercent).toBe(0.1);
+    expect(after.getConfig().hardHaltDurationMs).toBe(900000);
+    expect(after.getEvents()[0]).toMatchObject({ pair: '*', type: 'config-update', actor: 'ops', reason: 'Updated pairOverrides' });
+  });
+});
+
+describe('validateConfigUpdate', () => {
+  it('accepts a well-formed update', () => {
+    expect(validateConfigUpdate({
+      enabled: true,
+      tiers: [{ name: '1m', windowMs: 60000, maxChangePercent: 0.05, severity: 'hard', reasonCode: 1 }],
+      hardHaltDurationMs: 600000,
+      pairOverrides: { 'ALEO/USD': { maxChangePercent: { '1m': 0.1 } } }
+    })).toEqual([]);
+  });
+
+  it('reports every problem', () => {
+    expect(validateConfigUpdate({
+      haltDurationMs: 1,
+      tiers: [{ name: '1m', windowMs: 60000, maxChangePercent: 5, severity: 'medium', reasonCode: 0 }],
+      pairOverrides: { 'ALEO/USD': { softHaltDurationMs: -1 } }
+    })).toEqual([
+      'unknown field haltDurationMs',
+      'tiers[0]: maxChangePercent must be a fraction between 0 and 1',
+      'tiers[0]: severity must be soft or hard',
+      'tiers[0]: reasonCode must be a u8 above 0',
+      'ALEO/USD: softHaltDurationMs must be a positive number'
+    ]);
+    expect(validateConfigUpdate(null)).toEqual(['config update must be an object']);
+  });
+});
@@ -0,0 +1,66 @@
+import { scoreConfidence, combineConfidence, MAX_CONFIDENCE } from '../services/confidence';
+import { PriceResult } from '../providers';
+
+const CONFIG = {
+  targetSources: 5,
+  maxSpreadPercent: 5,
+  freshMs: 10000,
+  staleMs: 60000,
+  intervalZ: 1.96
+};
+const NOW = 1_700_000_000_000;
+
+function quotes(prices: number[], age = 0): PriceResult[] {
+  return prices.map((price, i) => ({ pair: 'ETH/USD', price, timestamp: NOW - age, source: `source${i}` }));
+}
+
+describe('scoreConfidence', () => {
+  it('gives full confidence to many fresh, identical quotes', () => {
+    const confidence = scoreConfidence(3000, quotes([3000, 3000, 3000, 3000, 3000]), CONFIG, NOW);
+    expect(confidence.score).toBe(MAX_CONFIDENCE);
+    expect(confidence.low).toBe(3000);
+    expect(confidence.high).toBe(3000);
+  });
+
+  it('scales with source coverage', () => {
+    expect(scoreConfidence(3000, quotes([3000, 3000]), CONFIG, NOW).score).toBe(4000);
+    expect(scoreConfidence(3000, quotes(Array(8).fill(3000)), CONFIG, NOW).score).toBe(MAX_CONFIDENCE);
+  });
+
+  it('drops as included quotes spread apart', () => {
+    const tight = scoreConfidence(3000, quotes([2997, 3000, 3000, 3000, 3003]), CONFIG, NOW);
+    const wide = scoreConfidence(3000, quotes([2940, 3000, 3000, 3000, 3060]), CONFIG, NOW);
+
+    expect(tight.factors.dispersion).toBeCloseTo(0.96, 6);   // 0.2% spread
+    expect(wide.factors.dispersion).toBeCloseTo(0.2, 6);     // 4% spread
+    expect(wide.score).toBeLessThan(tight.score);
+    expect(wide.high - wide.low).toBeGreaterThan(tight.high - tight.low);
+  });
+
+  it('decays with quote age', () => {
+    expect(scoreConfidence(3000, quotes(Array(5).fill(3000), 10000), CONFIG, NOW).factors.freshness).toBe(1);
+    expect(scoreConfidence(3000, quotes(Array(5).fill(3000), 35000), CONFIG, NOW).factors.freshness).toBeCloseTo(0.5, 6);
+    expect(scoreConfidence(3000, quotes(Array(5).fill(3000), 90000), CONFIG, NOW).score).toBe(0);
+  });
+
+  it('centres a standard-error interval on the price', () => {
+    // Sample std dev of [2990, 3000, 3010] is 10; 1.96 * 10 / sqrt(3)
+    const confidence = scoreConfidence(3000, quotes([2990, 3000, 3010]), CONFIG, NOW);
+    expect(confidence.high - 3000).toBeCloseTo(1.96 * 10 / Math.sqrt(3), 6);
+    expect(3000 - confidence.low).toBeCloseTo(confidence.high - 3000, 6);
+  });
+});
+
+describe('combineConfidence', () => {
+  it('multiplies leg scores and widens the interval in quadrature', () => {
+    const eth = { price: 3000, confidence: { score: 9000, low: 2997, high: 3003, factors: { sources: 1, dispersion: 0.9, freshness: 1 } } };
+    const btc = { price: 60000, confidence: { score: 8000, low: 59920, high: 60080, factors: { sources: 0.8, dispersion: 1, freshness: 1 } } };
+
+    const combined = combineConfidence(0.05, [eth, btc]);
+
+    expect(combined.score).toBe(7200);
+    expect(combined.factors).toEqual({ sources: 0.8, dispersion: 0.9, freshness: 1 });
+    // Relative half-widths 0.1% and 0.1333...% combine to 0.1666...%
+    expect((combined.high - 0.05) / 0.05).toBeCloseTo(Math.sqrt(0.001 ** 2 + (80 / 60000) ** 2), 10);
+  });
+});
@@ -0,0 +1,147 @@
+import { applyDerivation, derivePrice, DerivedLeg } from '../services/derivedPairs';
+import { PriceAggregator } from '../services/priceAggregator';
+import { stablecoinNormalizer } from '../services/stablecoinNormalizer';
+import { PairRegistry, PairDefinition, pairRegistry } from '../pairRegistry';
+import { PriceResult } from '../providers';
+
+function leg(pair: string, price: number, overrides: Partial<DerivedLeg> = {}): DerivedLeg {
+  return {
+    pair,
+    price,
+    timestamp: 1_000_000,
+    sources: ['binance', 'kraken', 'coinbase'],
+    sourceCount: 3,
+    dispersion: { stdDev: 0, mad: 0, spreadPercent: 0 },
+    ...overrides
+  };
+}
+
+describe('derivePrice', () => {
+  it('applies ratio, product and inverse formulas', () => {
+    expect(applyDerivation('ratio', [3000, 60000])).toBeCloseTo(0.05, 10);
+    expect(applyDerivation('product', [0.05, 60000])).toBeCloseTo(3000, 10);
+    expect(applyDerivation('inverse', [1.25])).toBeCloseTo(0.8, 10);
+  });
+
+  it('combines sources conservatively and keeps the oldest leg timestamp', () => {
+    const derived = derivePrice({ op: 'ratio', legs: ['ALEO/USD', 'ETH/USD'] }, [
+      leg('ALEO/USD', 0.3, { sources: ['gateio', 'mexc'], sourceCount: 2, timestamp: 900_000 }),
+      leg('ETH/USD', 3000)
+    ]);
+
+    expect(derived.price).toBeCloseTo(0.0001, 12);
+    expect(derived.sourceCount).toBe(2);
+    expect(derived.sources).toEqual(['gateio', 'mexc', 'binance', 'kraken', 'coinbase']);
+    expect(derived.timestamp).toBe(900_000);
+    expect(derived.aggregation.strategy).toBe('derived:ratio');
+    expect(derived.aggregation.derivation?.legs.map(l => l.pair)).toEqual(['ALEO/USD', 'ETH/USD']);
+  });
+
+  it('compounds leg dispersion', () => {
+    const derived = derivePrice({ op: 'ratio', legs: ['ETH/USD', 'BTC/USD'] }, [
+      leg('ETH/USD', 3000, { dispersion: { stdDev: 9, mad: 3, spreadPercent: 0.5 } }),      // 0.3% / 0.1%
+      leg('BTC/USD', 60000, { dispersion: { stdDev: 240, mad: 60, spreadPercent: 0.25 } })  // 0.4% / 0.1%
+    ]);
+
+    expect(derived.aggregation.dispersion.stdDev / derived.price).toBeCloseTo(0.005, 10);
+    expect(derived.aggregation.dispersion.mad / derived.price).toBeCloseTo(Math.SQRT2 * 0.001, 10);
+    expect(derived.aggregation.dispersion.spreadPercent).toBeCloseTo(0.75, 10);
+  });
+
+  it('labels rejected leg sources with their leg', () => {
+    const derived = derivePrice({ op: 'inverse', legs: ['EUR/USD'] }, [
+      leg('EUR/USD', 1.25, { rejected: [{ source: 'binance', price: 1.4, reason: 'Deviation 12.00% exceeds 5.00%', outlier: true }] })
+    ]);
+    expect(derived.aggregation.rejected[0].reason).toBe('EUR/USD: Deviation 12.00% exceeds 5.00%');
+  });
+});
+
+describe('PairRegistry derived pairs', () => {
+  const PROVIDERS = ['binance', 'kraken'];
+  const ethUsd: PairDefinition = {
+    pair: 'ETH/USD', pairId: 1, base: 'ETH', quote: 'USD', decimals: 8, minSources: 2,
+    symbols: { binance: 'ETHUSDT', kraken: 'ETHUSD' }
+  };
+  const btcUsd: PairDefinition = { ...ethUsd, pair: 'BTC/USD', pairId: 2, base: 'BTC', symbols: { binance: 'BTCUSDT', kraken: 'XBTUSD' } };
+  const ethBtc: PairDefinition = {
+    pair: 'ETH/BTC', pairId: 3, base: 'ETH', quote: 'BTC', decimals: 8, minSources: 2, symbols: {},
+    derived: { op: 'ratio', legs: ['ETH/USD', 'BTC/USD'] }
+  };
+
+  it('ships ETH/BTC, ALEO/ETH and BTC/EUR as derived pairs', () => {
+    expect(pairRegistry.getDerivation('ETH/BTC')).toEqual({ op: 'ratio', legs: ['ETH/USD', 'BTC/USD'] });
+    expect(pairRegistry.getDerivation('ALEO/ETH')?.legs).toEqual(['ALEO/USD', 'ETH/USD']);
+    expect(pairRegistry.getDerivation('BTC/EUR')?.legs).toEqual(['BTC/USD', 'EUR/USD']);
+    expect(pairRegistry.getDerivation('ETH/USD')).toBeUndefined();
+    expect(pairRegistry.getSupportedPairs()).toContain('ETH/BTC');
+  });
+
+  it('accepts derived pairs without provider symbols', () => {
+    expect(new PairRegistry([ethUsd, btcUsd, ethBtc]).validate(PROVIDERS, 8)).toEqual([]);
+  });
+
+  it('rejects unknown legs, derived legs and wrong arity', () => {
+    const errors = new PairRegistry([
+      ethUsd,
+      ethBtc,
+      { ...ethBtc, pair: 'BTC/ETH', pairId: 4, base: 'BTC', quote: 'ETH', derived: { op: 'inverse', legs: ['ETH/BTC'] } },
+      { ...ethBtc, pair: 'ETH/EUR', pairId: 5, quote: 'EUR', derived: { op: 'ratio', legs: ['ETH/USD'] } }
+    ]).validate(PROVIDERS, 8);
+
+    expect(errors).toEqual([
+      'ETH/BTC: unknown leg BTC/USD',
+      'BTC/ETH: leg ETH/BTC is itself derived',
+      'ETH/EUR: ratio takes 2 legs, got 1'
+    ]);
+  });
+});
+
+describe('PriceAggregator derived pairs', () => {
+  const quotes: { [pair: string]: number[] } = {
+    'ETH/USD': [3000, 3001, 2999],
+    'BTC/USD': [60000, 60010, 59990]
+  };
+  let aggregator: PriceAggregator;
+  let fetchAll: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.spyOn(stablecoinNormalizer, 'refresh').mockResolvedValue();
+    aggregator = new PriceAggregator();
+    fetchAll = jest.spyOn(aggregator, 'fetchAllPrices').mockImplementation(async (pair: string) =>
+      (quotes[pair] || []).map((price, i): PriceResult => ({
+        pair, price, timestamp: Date.now(), source: ['coinbase', 'kraken', 'bitstamp'][i]
+      }))
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('derives ETH/BTC from the ETH/USD and BTC/USD aggregates', async () => {
+    const price = await aggregator.getAggregatedPrice('ETH/BTC');
+
+    expect(price?.price).toBeCloseTo(0.05, 10);
+    expect(price?.scaledPrice).toBe(5000000n);
+    expect(price?.sourceCount).toBe(3);
+    expect(price?.aggregation?.derivation?.op).toBe('ratio');
+    expect(price?.confidence?.factors.sources).toBeCloseTo(0.36, 6);   // 3 of 5 target sources on each leg
+    expect(price?.sourceBreakdown?.map(q => `${q.leg}:${q.source}`)).toEqual([
+      'ETH/USD:coinbase', 'ETH/USD:kraken', 'ETH/USD:bitstamp',
+      'BTC/USD:coinbase', 'BTC/USD:kraken', 'BTC/USD:bitstamp'
+    ]);
+  });
+
+  it('reuses recent leg aggregates', async () => {
+    await aggregator.getAggregatedPrice('ETH/USD');
+    await aggregator.getAggregatedPrice('BTC/USD');
+    fetchAll.mockClear();
+
+    await aggregator.getAggregatedPrice('ETH/BTC');
+    expect(fetchAll).not.toHaveBeenCalled();
+  });
+
+  it('returns null when a leg has no price', async () => {
+    expect(await aggregator.getAggregatedPrice('ALEO/ETH')).toBeNull();
+  });
+});
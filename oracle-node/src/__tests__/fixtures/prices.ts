@@ -0,0 +1,19 @@
+import { StoredPrice } from '../../services/priceStore';
+
+/**
+ * A signed three-source price for history, aggregate and candle tests
+ */
+export function makePrice(pair: string, price: number, timestamp: number, overrides: Partial<StoredPrice> = {}): StoredPrice {
+  return {
+    pair,
+    price,
+    scaledPrice: BigInt(Math.round(price * 1e8)),
+    timestamp,
+    sources: ['binance', 'kraken', 'coinbase'],
+    sourceCount: 3,
+    volume24h: 1000000,
+    signature: 'sign1test',
+    operatorAddress: 'aleo1test',
+    ...overrides
+  };
+}
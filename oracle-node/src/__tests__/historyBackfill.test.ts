@@ -0,0 +1,150 @@
+import axios from 'axios';
+import fs from 'fs';
+import path from 'path';
+import { RestProviderConfig, fetchKlines } from '../providers';
+import { config } from '../config';
+import { MemoryHistoryStorage } from '../services/historyStorage';
+import { PriceStore } from '../services/priceStore';
+import { HistoryBackfill, BackfillError } from '../services/historyBackfill';
+import { makePrice } from './fixtures/prices';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const MINUTE = 60 * 1000;
+// 2024-03-10 12:00:30 UTC: the last completed 5m candle opened at 11:55
+const NOW = Date.UTC(2024, 2, 10, 12, 0, 30);
+const BUCKETS = [Date.UTC(2024, 2, 10, 11, 45), Date.UTC(2024, 2, 10, 11, 50), Date.UTC(2024, 2, 10, 11, 55)];
+
+function venue(name: string): RestProviderConfig {
+  return config.restVenues.find(v => v.name === name)!;
+}
+
+// Responses recorded from each venue's klines endpoint, keyed by venue and symbol
+function recorded(url: string, params?: { [key: string]: string }) {
+  const source = config.restVenues.find(v => url.startsWith(v.klines?.baseUrl ?? v.baseUrl))!;
+  const symbol = params?.symbol ?? params?.instId ?? url.split('/').slice(-2)[0];
+  const file = path.join(__dirname, 'fixtures', 'klines', `${source.name}-${symbol}.json`);
+  return { status: 200, data: JSON.parse(fs.readFileSync(file, 'utf8')) };
+}
+
+describe('fetchKlines', () => {
+  beforeEach(() => {
+    mockedAxios.get.mockReset();
+    mockedAxios.isAxiosError.mockReturnValue(false);
+  });
+
+  it('pages long ranges by maxRows and keeps candles inside the range', async () => {
+    const binance = venue('binance');
+    const paged = { ...binance, klines: { ...binance.klines!, maxRows: 2 } };
+    mockedAxios.get.mockImplementation(async (url, options) => recorded(url, options?.params));
+
+    const klines = await fetchKlines(paged, 'ETH/USD', '5m', 5 * MINUTE, BUCKETS[0], BUCKETS[2]);
+
+    expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({
+      symbol: 'ETHUSDT', interval: '5m', startTime: String(BUCKETS[0]), endTime: String(BUCKETS[1]), limit: '2'
+    });
+    expect(mockedAxios.get.mock.calls[1][1]?.params).toMatchObject({ startTime: String(BUCKETS[2]), endTime: String(BUCKETS[2]) });
+    expect(klines).toEqual([
+      { openTime: BUCKETS[0], close: 3890.12 },
+      { openTime: BUCKETS[1], close: 3893.5 },
+      { openTime: BUCKETS[2], close: 3891.07 }
+    ]);
+  });
+
+  it('formats times per venue and widens exclusive bounds', async () => {
+    mockedAxios.get.mockImplementation(async (url, options) => recorded(url, options?.params));
+
+    const okex = await fetchKlines(venue('okex'), 'ETH/USD', '5m', 5 * MINUTE, BUCKETS[0], BUCKETS[2]);
+    expect(mockedAxios.get.mock.calls[0][1]?.params).toMatchObject({
+      instId: 'ETH-USDT', bar: '5m', before: String(BUCKETS[0] - 1), after: String(BUCKETS[2] + 1)
+    });
+    // Newest-first rows come back oldest first
+    expect(okex.map(k => k.openTime)).toEqual(BUCKETS);
+
+    const coinbase = await fetchKlines(venue('coinbase'), 'ETH/USD', '5m', 5 * MINUTE, BUCKETS[0], BUCKETS[2]);
+    expect(mockedAxios.get.mock.calls[1][0]).toBe('https://api.exchange.coinbase.com/products/ETH-USD/candles');
+    expect(mockedAxios.get.mock.calls[1][1]?.params).toMatchObject({ granularity: '300', start: '2024-03-10T11:45:00.000Z' });
+    expect(coinbase.map(k => k.close)).toEqual([3891.45, 3894.8, 3892.36]);
+
+    // Bitstamp returned a candle from before the range
+    const bitstamp = await fetchKlines(venue('bitstamp'), 'ETH/USD', '5m', 5 * MINUTE, BUCKETS[0], BUCKETS[2]);
+    expect(bitstamp.map(k => k.openTime)).toEqual(BUCKETS);
+  });
+
+  it('skips venues without candles at the interval', async () => {
+    expect(await fetchKlines(venue('coinbase'), 'ETH/USD', '4h', 240 * MINUTE, BUCKETS[0], BUCKETS[2])).toEqual([]);
+    expect(await fetchKlines(venue('kraken'), 'ETH/USD', '5m', 5 * MINUTE, BUCKETS[0], BUCKETS[2])).toEqual([]);
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+  });
+});
+
+describe('HistoryBackfill', () => {
+  const venues = ['binance', 'okex', 'coinbase', 'bitstamp'].map(venue);
+  let store: PriceStore;
+  let backfill: HistoryBackfill;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    mockedAxios.get.mockReset();
+    mockedAxios.isAxiosError.mockReturnValue(false);
+    mockedAxios.get.mockImplementation(async (url, options) => recorded(url, options?.params));
+
+    store = new PriceStore(new MemoryHistoryStorage());
+    backfill = new HistoryBackfill(store, venues, { lookbackMs: 15 * MINUTE, interval: '5m' });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('aggregates USDT-converted closes per bucket and stores them unsigned', async () => {
+    const run = await backfill.start(['ETH/USD'], 'test');
+
+    expect(run).toMatchObject({ status: 'completed', actor: 'test', from: BUCKETS[0], to: BUCKETS[2] });
+    expect(run.pairs).toEqual([{
+      pair: 'ETH/USD', sources: ['binance', 'bitstamp', 'coinbase', 'okex'], failed: [], buckets: 3, skipped: 0, stored: 3
+    }]);
+
+    const history = store.getHistory('ETH/USD');
+    expect(history.map(p => p.timestamp)).toEqual(BUCKETS.map(t => t + 5 * MINUTE - 1));
+    // Median of Coinbase, Bitstamp and the USDT venues at that bucket's USDT/USD rate
+    expect(history[0].price).toBeCloseTo(3891.4171445, 6);
+    expect(history[1].price).toBeCloseTo(3894.525700125, 6);
+    expect(history[2].price).toBeCloseTo(3891.98912, 6);
+    expect(history[0]).toMatchObject({ backfilled: true, sourceCount: 4 });
+    expect(history[0].signature).toBeUndefined();
+
+    // Fills the windows without standing in for a live price
+    expect(store.getStats('ETH/USD', 60 * MINUTE)?.dataPoints).toBe(3);
+    expect(store.getPrice('ETH/USD')).toBeNull();
+    expect(backfill.getStatus()).toBe(run);
+  });
+
+  it('only stores history older than what the node already has', async () => {
+    store.setPrice(makePrice('ETH/USD', 3893, Date.UTC(2024, 2, 10, 11, 52)));
+    mockedAxios.get.mockImplementation(async (url, options) => {
+      if (url.includes('okx.com')) throw new Error('timeout of 5000ms exceeded');
+      return recorded(url, options?.params);
+    });
+
+    const run = await backfill.start(['ETH/USD'], 'test');
+
+    expect(run.pairs[0]).toMatchObject({
+      buckets: 3, stored: 1, failed: [{ source: 'okex', error: 'timeout of 5000ms exceeded' }]
+    });
+    expect(store.getHistory('ETH/USD').map(p => !!p.backfilled)).toEqual([true, false]);
+    expect(store.getPrice('ETH/USD')?.price).toBe(3893);
+  });
+
+  it('rejects unknown pairs and overlapping runs', async () => {
+    expect(() => backfill.start(['DOGE/USD'], 'test')).toThrow(BackfillError);
+
+    const running = backfill.start(['ETH/USD'], 'test');
+    expect(backfill.isRunning()).toBe(true);
+    expect(() => backfill.start(undefined, 'test')).toThrow(expect.objectContaining({ statusCode: 409 }));
+    await running;
+    expect(backfill.isRunning()).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryHistoryStorage, FileHistoryStorage } from '../services/historyStorage';
+import { PriceStore } from '../services/priceStore';
+import { makePrice } from './fixtures/prices';
+
+const ONE_HOUR = 60 * 60 * 1000;
+
+describe('MemoryHistoryStorage', () => {
+  it('caps history at maxEntries', () => {
+    const storage = new MemoryHistoryStorage(3);
+    for (let i = 0; i < 5; i++) {
+      storage.append(makePrice('ETH/USD', 100 + i, 1000 + i));
+    }
+
+    expect(storage.count('ETH/USD')).toBe(3);
+    expect(storage.getRecent('ETH/USD').map(p => p.price)).toEqual([102, 103, 104]);
+  });
+
+  it('returns entries inside an inclusive time range', () => {
+    const storage = new MemoryHistoryStorage();
+    [1000, 2000, 3000, 4000].forEach((t, i) => storage.append(makePrice('ETH/USD', i, t)));
+
+    expect(storage.getRange('ETH/USD', 2000, 3000).map(p => p.timestamp)).toEqual([2000, 3000]);
+    expect(storage.getRange('BTC/USD', 0, 5000)).toEqual([]);
+  });
+
+  it('inserts late prices in timestamp order', () => {
+    const storage = new MemoryHistoryStorage();
+    [1000, 3000, 2000, 3000].forEach((t, i) => storage.append(makePrice('ETH/USD', i, t)));
+
+    expect(storage.getRecent('ETH/USD').map(p => p.price)).toEqual([0, 2, 1, 3]);
+    expect(storage.getLatest('ETH/USD')?.price).toBe(3);
+  });
+});
+
+describe('FileHistoryStorage', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'oracle-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const options = () => ({ dataDir, retentionDays: 30, maxCachedEntries: 2 });
+
+  it('persists prices and restores them on restart', () => {
+    const now = Date.now();
+    const storage = new FileHistoryStorage(options());
+    storage.append(makePrice('ETH/USD', 3450, now - 2000));
+    storage.append(makePrice('ETH/USD', 3451, now - 1000));
+
+    const restored = new FileHistoryStorage(options());
+    const latest = restored.getLatest('ETH/USD');
+
+    expect(restored.count('ETH/USD')).toBe(2);
+    expect(latest?.price).toBe(3451);
+    expect(latest?.scaledPrice).toBe(345100000000n);
+    expect(latest?.signature).toBe('sign1test');
+  });
+
+  it('reads ranges older than the in-memory cache from disk', () => {
+    const now = Date.now();
+    const storage = new FileHistoryStorage(options());
+    for (let i = 4; i >= 0; i--) {
+      storage.append(makePrice('ETH/USD', 100 - i, now - i * 24 * ONE_HOUR));
+    }
+
+    // Only the newest 2 entries are cached; the range spans the older ones too
+    expect(storage.getRecent('ETH/USD')).toHaveLength(2);
+    const range = storage.getRange('ETH/USD', now - 4 * 24 * ONE_HOUR, now - 2 * 24 * ONE_HOUR);
+    expect(range.map(p => p.price)).toEqual([96, 97, 98]);
+  });
+
+  it('prunes segments older than the retention period', () => {
+    const now = Date.now();
+    const storage = new FileHistoryStorage({ ...options(), retentionDays: 2 });
+    storage.append(makePrice('ETH/USD', 1, now - 5 * 24 * ONE_HOUR));
+    storage.append(makePrice('ETH/USD', 2, now));
+
+    expect(fs.readdirSync(path.join(dataDir, 'ETH_USD'))).toHaveLength(1);
+    expect(storage.count('ETH/USD')).toBe(1);
+  });
+
+  it('prepends older history into new and existing day segments', () => {
+    const now = Date.UTC(2024, 0, 10, 6);
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const storage = new FileHistoryStorage({ ...options(), maxCachedEntries: 10 });
+    storage.append(makePrice('ETH/USD', 100, now));
+
+    storage.prepend('ETH/USD', [
+      makePrice('ETH/USD', 98, now - 30 * ONE_HOUR),
+      makePrice('ETH/USD', 99, now - ONE_HOUR)
+    ]);
+
+    expect(storage.getEarliest('ETH/USD')?.price).toBe(98);
+    expect(storage.getRecent('ETH/USD').map(p => p.price)).toEqual([98, 99, 100]);
+
+    const restored = new FileHistoryStorage(options());
+    expect(restored.count('ETH/USD')).toBe(3);
+    expect(fs.readdirSync(path.join(dataDir, 'ETH_USD'))).toEqual(['2024-01-09.jsonl', '2024-01-10.jsonl']);
+    expect(restored.getRange('ETH/USD', 0, now).map(p => p.price)).toEqual([98, 99, 100]);
+    jest.restoreAllMocks();
+  });
+
+  it('writes late prices into their day segment in timestamp order', () => {
+    const now = Date.UTC(2024, 0, 10, 6);
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const storage = new FileHistoryStorage(options());
+    storage.append(makePrice('ETH/USD', 97, now - 30 * ONE_HOUR));
+    storage.append(makePrice('ETH/USD', 100, now));
+    storage.append(makePrice('ETH/USD', 99, now - ONE_HOUR));
+    storage.append(makePrice('ETH/USD', 98, now - 2 * ONE_HOUR));
+
+    // Only the newest 2 are cached: 98 is older than the cached tail
+    expect(storage.count('ETH/USD')).toBe(4);
+    expect(storage.getRecent('ETH/USD').map(p => p.price)).toEqual([99, 100]);
+    expect(storage.getLatest('ETH/USD')?.price).toBe(100);
+
+    const restored = new FileHistoryStorage(options());
+    expect(restored.getRange('ETH/USD', 0, now).map(p => p.price)).toEqual([97, 98, 99, 100]);
+    jest.restoreAllMocks();
+  });
+
+  it('lets PriceStore restore the latest price per pair', () => {
+    const now = Date.now();
+    new FileHistoryStorage(options()).append(makePrice('BTC/USD', 65000, now));
+
+    const store = new PriceStore(new FileHistoryStorage(options()));
+    expect(store.getPrice('BTC/USD')?.price).toBe(65000);
+    expect(store.getHistorySince('BTC/USD', ONE_HOUR)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,99 @@
+import { PairAdmin, assetHash } from '../services/pairAdmin';
+import { priceAggregator } from '../services/priceAggregator';
+import { pairRegistry } from '../pairRegistry';
+
+// Keep runtime registry changes in memory instead of ./data
+jest.mock('../pairRegistry', () => {
+  const actual = jest.requireActual('../pairRegistry');
+  return { ...actual, pairRegistry: new actual.PairRegistry(actual.pairRegistry.getPairs(), null) };
+});
+
+function quotes(pair: string, sources: string[]) {
+  return sources.map(source => ({ pair, price: 1.5, timestamp: Date.now(), source }));
+}
+
+describe('PairAdmin', () => {
+  let admin: PairAdmin;
+
+  beforeEach(() => {
+    admin = new PairAdmin();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('activates a pair quoted by enough providers and queues add_pair', async () => {
+    jest.spyOn(priceAggregator, 'fetchAllPrices').mockResolvedValue(quotes('ARB/USD', ['binance', 'okex', 'bybit']));
+
+    const result = await admin.onboardPair({
+      base: 'arb',
+      quote: 'usd',
+      symbols: { binance: 'ARBUSDT', okex: 'ARB-USDT', bybit: 'ARBUSDT' }
+    });
+
+    expect(result.pair.status).toBe('active');
+    expect(result.pair.pairId).toBe(15);
+    expect(pairRegistry.getSupportedPairs()).toContain('ARB/USD');
+    expect(result.job.status).toBe('pending');
+    expect(result.job.inputs.slice(0, 4)).toEqual(['15u64', assetHash('ARB'), assetHash('USD'), '8u8']);
+    expect(admin.getJobs('pending')).toHaveLength(1);
+  });
+
+  it('rejects and removes a pair too few providers can quote', async () => {
+    jest.spyOn(priceAggregator, 'fetchAllPrices').mockResolvedValue(quotes('OP/USD', ['binance']));
+
+    await expect(admin.onboardPair({
+      base: 'OP',
+      quote: 'USD',
+      symbols: { binance: 'OPUSDT', okex: 'OP-USDT', bybit: 'OPUSDT' }
+    })).rejects.toMatchObject({ statusCode: 422, details: { missing: ['okex', 'bybit'] } });
+
+    expect(pairRegistry.getPair('OP/USD')).toBeUndefined();
+    expect(admin.getJobs()).toHaveLength(0);
+  });
+
+  it('rejects pair ids that are not integers', async () => {
+    const fetch = jest.spyOn(priceAggregator, 'fetchAllPrices');
+
+    for (const pairId of [3.5, '7']) {
+      await expect(admin.onboardPair({
+        base: 'OP',
+        quote: 'USD',
+        pairId: pairId as number,
+        symbols: { binance: 'OPUSDT' }
+      })).rejects.toMatchObject({ statusCode: 400, message: 'pairId must be an integer' });
+    }
+    expect(fetch).not.toHaveBeenCalled();
+    expect(pairRegistry.getPair('OP/USD')).toBeUndefined();
+  });
+
+  it('rejects minSources outside 1 to the symbol count and empty symbols', async () => {
+    const fetch = jest.spyOn(priceAggregator, 'fetchAllPrices');
+    const symbols = { binance: 'OPUSDT', okex: 'OP-USDT' };
+
+    for (const minSources of [0, 3, 1.5, 'abc']) {
+      await expect(admin.onboardPair({ base: 'OP', quote: 'USD', minSources: minSources as number, symbols }))
+        .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('minSources must be an integer') });
+    }
+    await expect(admin.onboardPair({ base: 'OP', quote: 'USD', minSources: 0, symbols: {} }))
+      .rejects.toMatchObject({ statusCode: 400 });
+    await expect(admin.onboardPair({ base: 'OP', quote: 'USD', minSources: 1, symbols: { binance: 'OPUSDT', okex: ' ' } }))
+      .rejects.toMatchObject({ statusCode: 400, message: 'Symbols must be non-empty strings: okex' });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(pairRegistry.getPair('OP/USD')).toBeUndefined();
+  });
+
+  it('pauses, resumes and retires pairs', () => {
+    expect(admin.pausePair('UNI/USD').status).toBe('paused');
+    expect(pairRegistry.getSupportedPairs()).not.toContain('UNI/USD');
+    expect(admin.resumePair('UNI/USD').status).toBe('active');
+    expect(admin.retirePair('UNI/USD').status).toBe('retired');
+    expect(() => admin.resumePair('UNI/USD')).toThrow('retired');
+  });
+
+  it('encodes asset symbols as field literals', () => {
+    expect(assetHash('ETH')).toBe(`${0x455448}field`);
+  });
+});
@@ -0,0 +1,114 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PairRegistry, PairDefinition, pairRegistry } from '../pairRegistry';
+
+const PROVIDERS = [
+  'binance', 'coinbase', 'kraken', 'huobi', 'okex', 'gateio', 'bybit', 'coingecko', 'kucoin', 'cryptocompare',
+  'bitstamp', 'bitfinex', 'mexc'
+];
+
+function def(overrides: Partial<PairDefinition> = {}): PairDefinition {
+  return {
+    pair: 'ETH/USD',
+    pairId: 1,
+    base: 'ETH',
+    quote: 'USD',
+    decimals: 8,
+    minSources: 2,
+    symbols: { binance: 'ETHUSDT', kraken: 'ETHUSD' },
+    ...overrides
+  };
+}
+
+describe('PairRegistry', () => {
+  it('ships a consistent registry', () => {
+    expect(pairRegistry.validate(PROVIDERS, 8)).toEqual([]);
+  });
+
+  it('keeps the on-chain pair ids stable', () => {
+    expect(pairRegistry.getPairId('ETH/USD')).toBe(1);
+    expect(pairRegistry.getPairId('BTC/USD')).toBe(2);
+    expect(pairRegistry.getPairId('MATIC/USD')).toBe(6);
+    expect(pairRegistry.getPairId('DOT/USD')).toBe(7);
+    expect(pairRegistry.getPairId('UNKNOWN/USD')).toBe(0);
+    expect(pairRegistry.getPairById(10)?.pair).toBe('UNI/USD');
+  });
+
+  it('builds per-provider symbol maps', () => {
+    const binance = pairRegistry.getSymbolMap('binance');
+    expect(binance['BTC/USD']).toBe('BTCUSDT');
+    expect(binance['ALEO/USD']).toBeUndefined();
+    expect(pairRegistry.getSymbol('kraken', 'BTC/USD')).toBe('XBTUSD');
+  });
+
+  it('rejects duplicate pair ids', () => {
+    const registry = new PairRegistry([def(), def({ pair: 'BTC/USD', base: 'BTC' })]);
+    expect(registry.validate(PROVIDERS, 8)).toContain('BTC/USD: duplicate pairId 1');
+  });
+
+  it('rejects decimals that differ from the price scale', () => {
+    const registry = new PairRegistry([def({ decimals: 6 })]);
+    expect(registry.validate(PROVIDERS, 8)[0]).toContain('decimals 6');
+  });
+
+  it('rejects pairs that too few providers can quote', () => {
+    const registry = new PairRegistry([def({ minSources: 3 })]);
+    expect(registry.validate(PROVIDERS, 8)[0]).toContain('only 2 providers');
+  });
+
+  it('rejects symbols for unknown providers', () => {
+    const registry = new PairRegistry([def({ symbols: { binance: 'ETHUSDT', kraken: 'ETHUSD', ftx: 'ETH/USD' } })]);
+    expect(registry.validate(PROVIDERS, 8)).toContain('ETH/USD: symbol for unknown provider "ftx"');
+  });
+
+  it('changes version when the registry changes', () => {
+    const a = new PairRegistry([def()]);
+    const b = new PairRegistry([def({ pairId: 2 })]);
+    expect(a.getVersion()).not.toBe(b.getVersion());
+    expect(a.getVersion()).toBe(new PairRegistry([def()]).getVersion());
+  });
+});
+
+describe('PairRegistry runtime changes', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pair-registry-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('adds pairs paused and only serves them once active', () => {
+    const registry = new PairRegistry([def()]);
+    registry.addPair(def({ pair: 'BTC/USD', pairId: 2, base: 'BTC' }));
+
+    expect(registry.getSupportedPairs()).toEqual(['ETH/USD']);
+    registry.setStatus('BTC/USD', 'active');
+    expect(registry.getSupportedPairs()).toEqual(['ETH/USD', 'BTC/USD']);
+    expect(registry.getNextPairId()).toBe(3);
+  });
+
+  it('never reuses a retired pair id', () => {
+    const registry = new PairRegistry([def()]);
+    registry.setStatus('ETH/USD', 'retired');
+
+    expect(registry.getSupportedPairs()).toEqual([]);
+    expect(registry.getSymbolMap('binance')).toEqual({});
+    expect(() => registry.addPair(def({ pair: 'BTC/USD', base: 'BTC' }))).toThrow('already used');
+    expect(() => registry.setStatus('ETH/USD', 'active')).toThrow('retired');
+  });
+
+  it('persists runtime changes across restarts', () => {
+    const file = path.join(dir, 'pairs.runtime.json');
+    const registry = new PairRegistry([def()], file);
+    registry.addPair(def({ pair: 'BTC/USD', pairId: 2, base: 'BTC', status: 'active' }));
+    registry.setStatus('ETH/USD', 'paused');
+
+    const restored = new PairRegistry([def()], file);
+    expect(restored.getSupportedPairs()).toEqual(['BTC/USD']);
+    expect(restored.getStatus('ETH/USD')).toBe('paused');
+  });
+});
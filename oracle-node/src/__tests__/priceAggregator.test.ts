@@ -1,4 +1,6 @@
 import { PriceAggregator } from '../services/priceAggregator';
+import { stablecoinNormalizer } from '../services/stablecoinNormalizer';
+import { PriceResult } from '../providers';
 
 // Test the aggregator's pure functions without needing live API calls
 describe('PriceAggregator', () => {
@@ -73,4 +75,41 @@ describe('PriceAggregator', () => {
       expect(filtered).toEqual([95, 100, 105]);
     });
   });
+
+  describe('source breakdown', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('keeps every quote with its deviation and fate', async () => {
+      jest.spyOn(stablecoinNormalizer, 'refresh').mockResolvedValue();
+      jest.spyOn(aggregator, 'fetchAllPrices').mockResolvedValue(
+        ([['coinbase', 3000, 120], ['kraken', 3003, 80], ['bitstamp', 2997, 95], ['binance', 3600, 15]] as const)
+          .map(([source, price, latencyMs]): PriceResult => ({ pair: 'ETH/USD', price, timestamp: 1000, source, latencyMs }))
+      );
+
+      const price = await aggregator.getAggregatedPrice('ETH/USD');
+      const breakdown = price!.sourceBreakdown!;
+
+      expect(breakdown.map(q => q.source)).toEqual(['coinbase', 'kraken', 'bitstamp', 'binance']);
+      expect(breakdown[0]).toMatchObject({ status: 'included', quoteAsset: 'USD', latencyMs: 120, rawPrice: 3000 });
+      expect(breakdown[1].deviationPercent).toBeCloseTo((1.5 / 3001.5) * 100, 6);   // Median of all four quotes is 3001.5
+      expect(breakdown[3]).toMatchObject({ status: 'rejected', quoteAsset: 'USDT', latencyMs: 15 });
+      expect(breakdown[3].reason).toMatch(/exceeds/);
+      expect(breakdown[3].deviationPercent).toBeGreaterThan(19);
+    });
+
+    it('needs config.minSources after filtering even where the pair needs fewer to fetch', async () => {
+      jest.spyOn(stablecoinNormalizer, 'refresh').mockResolvedValue();
+      const fetch = jest.spyOn(aggregator, 'fetchAllPrices');
+      const quotes = (prices: [string, number][]) => prices.map(([source, price]): PriceResult => ({ pair: 'ALEO/USD', price, timestamp: 1000, source }));
+
+      // ALEO/USD fetches with 2 sources, but 2 left after filtering would fail source_count >= 3 on-chain
+      fetch.mockResolvedValue(quotes([['gateio', 1.0], ['mexc', 1.01], ['okex', 1.5]]));
+      expect(await aggregator.getAggregatedPrice('ALEO/USD')).toBeNull();
+
+      fetch.mockResolvedValue(quotes([['gateio', 1.0], ['mexc', 1.01], ['okex', 1.005]]));
+      expect((await aggregator.getAggregatedPrice('ALEO/USD'))?.sourceCount).toBe(3);
+    });
+  });
 });
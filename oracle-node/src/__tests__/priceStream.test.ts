@@ -0,0 +1,112 @@
+import { EventEmitter } from 'events';
+import { PriceStream } from '../services/priceStream';
+import { AggregatedPriceWithCircuitBreaker } from '../services/priceAggregator';
+
+// Minimal stand-in for an Express response held open as an SSE stream
+function mockResponse() {
+  const res = new EventEmitter() as any;
+  res.frames = [] as string[];
+  res.writeHead = jest.fn();
+  res.write = jest.fn((chunk: string) => res.frames.push(chunk));
+  res.end = jest.fn();
+  return res;
+}
+
+function makePrice(pair: string, price: number): AggregatedPriceWithCircuitBreaker {
+  return {
+    pair,
+    price,
+    scaledPrice: BigInt(Math.round(price * 1e8)),
+    timestamp: Date.now(),
+    sources: ['binance', 'kraken', 'coinbase'],
+    sourceCount: 3,
+    circuitBreakerStatus: { allowed: true, isHalted: false, flagged: false, severity: null, reasonCode: 0, tripCount: 0 }
+  };
+}
+
+describe('PriceStream', () => {
+  let stream: PriceStream;
+
+  beforeEach(() => {
+    stream = new PriceStream();
+  });
+
+  afterEach(() => {
+    stream.stopHeartbeat();
+  });
+
+  it('sends SSE headers on connect', () => {
+    const res = mockResponse();
+    stream.addClient(res, null);
+
+    expect(res.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Content-Type': 'text/event-stream'
+    }));
+    expect(stream.getClientCount()).toBe(1);
+  });
+
+  it('delivers prices only to clients subscribed to the pair', () => {
+    const ethClient = mockResponse();
+    const btcClient = mockResponse();
+    const allClient = mockResponse();
+    stream.addClient(ethClient, ['ETH/USD']);
+    stream.addClient(btcClient, ['BTC/USD']);
+    stream.addClient(allClient, null);
+
+    stream.publishPrice(makePrice('ETH/USD', 3450.5), 'sign1abc', 'aleo1op');
+
+    const ethFrame = ethClient.frames.find((f: string) => f.includes('event: price'));
+    expect(ethFrame).toBeDefined();
+    expect(ethFrame).toContain('"scaledPrice":"345050000000"');
+    expect(ethFrame).toContain('"signature":"sign1abc"');
+    expect(allClient.frames.some((f: string) => f.includes('event: price'))).toBe(true);
+    expect(btcClient.frames.some((f: string) => f.includes('event: price'))).toBe(false);
+  });
+
+  it('broadcasts circuit breaker events', () => {
+    const res = mockResponse();
+    stream.addClient(res, ['ETH/USD']);
+
+    stream.publishCircuitBreaker('trip', {
+      pair: 'ETH/USD',
+      isHalted: true,
+      severity: 'hard',
+      haltedAt: 1,
+      haltUntil: 2,
+      lastPrice: 100,
+      lastPriceTimestamp: 1,
+      tripCount: 1,
+      tripCountSoft: 0,
+      tripCountHard: 1,
+      lastTripReason: 'Price change of 12.00% within 1m exceeds 5.00% threshold',
+      lastTripReasonCode: 1
+    });
+
+    const frame = res.frames.find((f: string) => f.includes('event: circuit-breaker'));
+    expect(frame).toContain('"event":"trip"');
+    expect(frame).toContain('"tripCount":1');
+    expect(frame).toContain('"severity":"hard"');
+    expect(frame).toContain('"reasonCode":1');
+  });
+
+  it('sends heartbeat frames to every client', () => {
+    jest.useFakeTimers();
+    const res = mockResponse();
+    stream.addClient(res, ['ETH/USD']);
+
+    stream.startHeartbeat(1000);
+    jest.advanceTimersByTime(2500);
+    stream.stopHeartbeat();
+    jest.useRealTimers();
+
+    expect(res.frames.filter((f: string) => f.includes('event: heartbeat'))).toHaveLength(2);
+  });
+
+  it('drops clients when the connection closes', () => {
+    const res = mockResponse();
+    stream.addClient(res, null);
+    res.emit('close');
+
+    expect(stream.getClientCount()).toBe(0);
+  });
+});
@@ -0,0 +1,82 @@
+// Deterministic stand-in for the SDK: the "hash" is the message literal and a
+// signature "sig:<address>:<hash>" verifies only for that address and hash
+jest.mock('@provablehq/sdk', () => ({
+  BHP256: jest.fn().mockImplementation(() => ({
+    hash: (bits: string[]) => ({ toString: () => `hash(${bits[0]})` }),
+  })),
+  Plaintext: {
+    fromString: (literal: string) => ({ toBitsLe: () => [literal] }),
+  },
+  Signature: {
+    from_string: (sig: string) => ({
+      verifyValue: (address: { value: string }, hash: string) => sig === `sig:${address.value}:${hash}`,
+    }),
+  },
+  Address: {
+    from_string: (value: string) => ({ value }),
+  },
+  Account: jest.fn(),
+}));
+
+import { verifyPriceSignature, parsePriceMessage, checkPriceMessage, PriceClaim } from '../services/priceVerifier';
+import { hashPriceMessage } from '../services/signer';
+
+const OPERATOR = 'aleo1operator';
+
+function signedClaim(overrides: Partial<PriceClaim> = {}): PriceClaim {
+  const base = { pairId: 1, price: 350000000000n, timestamp: 1700000000000, sourceCount: 5, operatorAddress: OPERATOR };
+  const hash = hashPriceMessage(base.pairId, base.price, base.timestamp, base.sourceCount);
+  return { ...base, signature: `sig:${OPERATOR}:${hash}`, ...overrides };
+}
+
+describe('priceVerifier', () => {
+  it('accepts a signature over the rebuilt PriceMessage', () => {
+    const result = verifyPriceSignature(signedClaim());
+
+    expect(result.valid).toBe(true);
+    expect(result.message).toBe('{ pair_id: 1u64, price: 350000000000u128, timestamp: 1700000000000u64, source_count: 5u8 }');
+    expect(result.mismatches).toEqual([]);
+  });
+
+  it('reports which field was changed after signing', () => {
+    const original = signedClaim();
+    const tampered = { ...original, price: 360000000000n };
+
+    const result = verifyPriceSignature(tampered, original);
+
+    expect(result.valid).toBe(false);
+    expect(result.mismatches).toEqual([
+      { field: 'price', expected: '350000000000', actual: '360000000000' }
+    ]);
+    expect(result.reason).toContain('price');
+  });
+
+  it('rejects a signature checked against another operator', () => {
+    const original = signedClaim();
+    const result = verifyPriceSignature({ ...original, operatorAddress: 'aleo1other' }, original);
+
+    expect(result.valid).toBe(false);
+    expect(result.mismatches.map(m => m.field)).toEqual(['operatorAddress']);
+  });
+
+  it('rejects a missing signature', () => {
+    expect(verifyPriceSignature(signedClaim({ signature: '' })).reason).toBe('No signature');
+  });
+
+  it('parses PriceMessage literals', () => {
+    expect(parsePriceMessage('{ pair_id: 2u64, price: 10u128, timestamp: 5u64, source_count: 3u8 }')).toEqual({
+      pairId: 2, price: 10n, timestamp: 5, sourceCount: 3
+    });
+    expect(parsePriceMessage('{ pair_id: 2u64 }')).toBeNull();
+  });
+
+  it('flags values outside the PriceMessage field types', () => {
+    const message = { pairId: 1, price: 10n, timestamp: 5, sourceCount: 3 };
+
+    expect(checkPriceMessage(message)).toBeNull();
+    expect(checkPriceMessage({ ...message, pairId: 3.5 })).toContain('pairId');
+    expect(checkPriceMessage({ ...message, price: 1n << 128n })).toContain('u128');
+    expect(checkPriceMessage({ ...message, timestamp: 1e20 })).toContain('timestamp');
+    expect(checkPriceMessage({ ...message, sourceCount: 256 })).toContain('sourceCount');
+  });
+});
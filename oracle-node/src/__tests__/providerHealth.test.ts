@@ -0,0 +1,95 @@
+import { ProviderHealthTracker } from '../services/providerHealth';
+
+describe('ProviderHealthTracker', () => {
+  let now: number;
+  let tracker: ProviderHealthTracker;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    tracker = new ProviderHealthTracker({
+      minSamples: 4,
+      maxConsecutiveFailures: 3,
+      baseQuarantineMs: 60000,
+      maxQuarantineMs: 200000,
+      probationSuccesses: 2
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  function fail(times: number) {
+    for (let i = 0; i < times; i++) tracker.recordFetch('kraken', 'ETH/USD', 100, false);
+  }
+
+  function succeed(outlier = false) {
+    tracker.recordFetch('kraken', 'ETH/USD', 100, true, now);
+    tracker.recordConsensus('kraken', 'ETH/USD', outlier);
+  }
+
+  it('scores latency, errors, outliers and stale quotes', () => {
+    tracker.recordFetch('binance', 'ETH/USD', 2000, true, now);
+    tracker.recordFetch('binance', 'ETH/USD', 2000, true, now - 60000);
+    tracker.recordConsensus('binance', 'ETH/USD', true);
+
+    const report = tracker.getReport('binance');
+    expect(report.outlierRate).toBe(0.5);
+    expect(report.staleRate).toBe(0.5);
+    expect(report.avgLatencyMs).toBe(2000);
+    // (1 - 0 errors) * (1 - 0.5 outliers) * (1 - 0.5 / 2 stale) * (1000 / 2000 latency)
+    expect(report.score).toBeCloseTo(0.1875, 4);
+  });
+
+  it('quarantines after consecutive failures and stops fetching', () => {
+    fail(3);
+
+    const report = tracker.getReport('kraken');
+    expect(report.status).toBe('quarantined');
+    expect(report.quarantineUntil).toBe(now + 60000);
+    expect(tracker.shouldFetch('kraken')).toBe(false);
+  });
+
+  it('quarantines a frequent outlier once enough samples exist', () => {
+    succeed(true);
+    succeed(true);
+    succeed(false);
+    expect(tracker.getStatus('kraken')).toBe('healthy');
+
+    succeed(true);
+    expect(tracker.getStatus('kraken')).toBe('quarantined');
+    expect(tracker.getReport('kraken').reason).toContain('Score');
+  });
+
+  it('re-admits after probation and doubles the back-off on relapse', () => {
+    fail(3);
+    now += 60000;
+
+    expect(tracker.getStatus('kraken')).toBe('probation');
+    expect(tracker.shouldFetch('kraken')).toBe(true);
+    expect(tracker.isAdmitted('kraken')).toBe(false);
+
+    // Failing during probation sends it back for twice as long
+    fail(1);
+    expect(tracker.getReport('kraken').quarantineUntil).toBe(now + 120000);
+
+    now += 120000;
+    succeed();
+    expect(tracker.getReport('kraken').probationRemaining).toBe(1);
+    succeed();
+
+    expect(tracker.isAdmitted('kraken')).toBe(true);
+    expect(tracker.getReport('kraken').samples).toBe(0);
+  });
+
+  it('caps the back-off', () => {
+    fail(3);
+    now += 60000;
+    fail(1);
+    now += 120000;
+    fail(1);
+
+    expect(tracker.getReport('kraken').quarantineUntil).toBe(now + 200000);
+  });
+});
@@ -0,0 +1,101 @@
+import { RateLimiter, RateLimitConfig } from '../services/rateLimiter';
+
+const CONFIG: RateLimitConfig = {
+  enabled: true,
+  tiers: {
+    anonymous: { requestsPerMinute: 60, burst: 5 },
+    reader: { requestsPerMinute: 600, burst: 50 },
+    admin: null
+  },
+  keyTiers: { 'partner': 'reader' },
+  pathCosts: [
+    { pattern: '^/prices?/[^/]+/analysis$', cost: 3 },
+    { pattern: '^/verify$', cost: 20 }
+  ],
+  idleEvictMs: 60000,
+  maxTracked: 2
+};
+const NOW = 1700000000000;
+
+describe('RateLimiter', () => {
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    limiter = new RateLimiter(CONFIG);
+  });
+
+  it('allows a burst, then throttles with a retry delay', () => {
+    for (let i = 0; i < 5; i++) {
+      expect(limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW).allowed).toBe(true);
+    }
+    const decision = limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.remaining).toBe(0);
+    expect(decision.retryAfterMs).toBe(1000);    // 60/min refills one per second
+  });
+
+  it('refills at the sustained rate', () => {
+    for (let i = 0; i < 5; i++) limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW);
+
+    expect(limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW + 1000).allowed).toBe(true);
+    expect(limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW + 1000).allowed).toBe(false);
+    expect(limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW + 60000).remaining).toBe(4);
+  });
+
+  it('charges expensive paths more', () => {
+    expect(limiter.costOf('/price/ETH-USD/analysis')).toBe(3);
+    expect(limiter.costOf('/prices/ETH-USD/analysis')).toBe(3);
+    expect(limiter.costOf('/price/ETH-USD')).toBe(1);
+
+    limiter.consume('ip:1.2.3.4', 'anonymous', 3, NOW);
+    expect(limiter.consume('ip:1.2.3.4', 'anonymous', 3, NOW).allowed).toBe(false);
+  });
+
+  it('lets a request costing more than the bucket through on a full bucket', () => {
+    expect(limiter.consume('ip:1.2.3.4', 'anonymous', 20, NOW).allowed).toBe(true);
+    expect(limiter.consume('ip:1.2.3.4', 'anonymous', 20, NOW).retryAfterMs).toBe(5000);
+  });
+
+  it('keeps callers apart and picks tiers by key', () => {
+    for (let i = 0; i < 5; i++) limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW);
+
+    expect(limiter.consume('ip:5.6.7.8', 'anonymous', 1, NOW).allowed).toBe(true);
+    expect(limiter.tierFor(null, null)).toBe('anonymous');
+    expect(limiter.tierFor('ops', 'admin')).toBe('admin');
+    expect(limiter.tierFor('partner', 'operator')).toBe('reader');
+  });
+
+  it('never throttles an unlimited tier', () => {
+    for (let i = 0; i < 100; i++) {
+      expect(limiter.consume('key:root', 'admin', 10, NOW).allowed).toBe(true);
+    }
+  });
+
+  it('counts usage and forgets idle callers', () => {
+    for (let i = 0; i < 7; i++) limiter.consume('ip:1.2.3.4', 'anonymous', 1, NOW);
+    limiter.consume('key:partner', 'reader', 3, NOW + 30000);
+
+    expect(limiter.getUsage()).toEqual([
+      expect.objectContaining({ identity: 'ip:1.2.3.4', requests: 7, throttled: 2, cost: 5 }),
+      expect.objectContaining({ identity: 'key:partner', tier: 'reader', requests: 1, cost: 3 })
+    ]);
+
+    // Tracking limit reached: the caller idle for over a minute is evicted
+    limiter.consume('ip:9.9.9.9', 'anonymous', 1, NOW + 70000);
+    expect(limiter.getUsage().map(u => u.identity).sort()).toEqual(['ip:9.9.9.9', 'key:partner']);
+  });
+
+  it('forgets the least recently seen caller when none is idle', () => {
+    // A flood of active callers keeps the map at maxTracked
+    for (let i = 0; i < 50; i++) {
+      limiter.consume(`ip:10.0.0.${i}`, 'anonymous', 1, NOW + 3000 + i);
+    }
+    expect(limiter.getUsage().map(u => u.identity).sort()).toEqual(['ip:10.0.0.48', 'ip:10.0.0.49']);
+
+    // Seeing a caller again makes it the most recent
+    limiter.consume('ip:10.0.0.48', 'anonymous', 1, NOW + 4000);
+    limiter.consume('ip:3.3.3.3', 'anonymous', 1, NOW + 4001);
+    expect(limiter.getUsage().map(u => u.identity).sort()).toEqual(['ip:10.0.0.48', 'ip:3.3.3.3']);
+  });
+});
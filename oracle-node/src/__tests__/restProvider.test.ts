@@ -0,0 +1,110 @@
+import axios from 'axios';
+import { RestProvider, RestProviderConfig, resolvePath } from '../providers';
+import { config } from '../config';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+function venue(name: string): RestProviderConfig {
+  return config.restVenues.find(v => v.name === name)!;
+}
+
+describe('resolvePath', () => {
+  it('walks objects and arrays, with * picking the first key', () => {
+    const data = { result: { XETHZUSD: { c: ['3450.1', '0.5'] } }, list: [{ last: '1' }] };
+    expect(resolvePath(data, 'result.*.c.0')).toBe('3450.1');
+    expect(resolvePath(data, 'list.0.last')).toBe('1');
+    expect(resolvePath(data, 'missing.path')).toBeUndefined();
+  });
+});
+
+describe('RestProvider', () => {
+  beforeEach(() => {
+    mockedAxios.get.mockReset();
+    mockedAxios.isAxiosError.mockReturnValue(false);
+  });
+
+  it('parses a flat ticker (Binance)', async () => {
+    mockedAxios.get.mockResolvedValue({
+      status: 200,
+      data: { lastPrice: '3450.10', volume: '1000', quoteVolume: '3450100', bidPrice: '3450.0', askPrice: '3450.2' }
+    });
+
+    const result = await new RestProvider(venue('binance')).fetchPrice('ETH/USD');
+
+    expect(mockedAxios.get).toHaveBeenCalledWith(
+      'https://api.binance.com/api/v3/ticker/24hr',
+      { params: { symbol: 'ETHUSDT' }, timeout: 5000 }
+    );
+    expect(result).toMatchObject({
+      pair: 'ETH/USD', price: 3450.1, source: 'binance',
+      baseVolume: 1000, quoteVolume: 3450100, bid: 3450, ask: 3450.2
+    });
+  });
+
+  it('resolves venue-keyed results and derived quote volume (Kraken)', async () => {
+    mockedAxios.get.mockResolvedValue({
+      status: 200,
+      data: { error: [], result: { XETHZUSD: { c: ['3450.5', '1'], v: ['10', '200'], p: ['3440', '3445'], b: ['3450'], a: ['3451'] } } }
+    });
+
+    const result = await new RestProvider(venue('kraken')).fetchPrice('ETH/USD');
+
+    expect(result?.price).toBe(3450.5);
+    expect(result?.baseVolume).toBe(200);
+    expect(result?.quoteVolume).toBe(200 * 3445);
+  });
+
+  it('fills symbol and quote templates (CryptoCompare)', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 200, data: { USD: 3449.9 } });
+
+    const result = await new RestProvider(venue('cryptocompare')).fetchPrice('ETH/USD');
+
+    expect(mockedAxios.get.mock.calls[0][1]).toMatchObject({ params: { fsym: 'ETH', tsyms: 'USD' } });
+    expect(result?.price).toBe(3449.9);
+  });
+
+  it('reads array tickers and path templates in the endpoint (Bitfinex)', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 200, data: [3450, 5, 3451, 4, 10, 0.01, 3450.5, 1200, 3500, 3400] });
+
+    const result = await new RestProvider({ ...venue('bitfinex'), minIntervalMs: 0 }).fetchPrice('ETH/USD');
+
+    expect(mockedAxios.get.mock.calls[0][0]).toBe('https://api-pub.bitfinex.com/v2/ticker/tETHUSD');
+    expect(result).toMatchObject({ price: 3450.5, baseVolume: 1200, bid: 3450, ask: 3451 });
+  });
+
+  it('uses the venue quote time when configured (Bitstamp)', async () => {
+    mockedAxios.get.mockResolvedValue({
+      status: 200,
+      data: { last: '3450', volume: '10', vwap: '3440', bid: '3449', ask: '3451', timestamp: '1700000000' }
+    });
+
+    const result = await new RestProvider(venue('bitstamp')).fetchPrice('ETH/USD');
+
+    expect(result?.timestamp).toBe(1700000000000);
+    expect(result?.quoteVolume).toBe(34400);
+  });
+
+  it('rejects responses that fail the venue checks (OKX error code)', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 200, data: { code: '51001', data: [] } });
+    expect(await new RestProvider(venue('okex')).fetchPrice('ETH/USD')).toBeNull();
+  });
+
+  it('returns null for pairs the venue does not list and for request failures', async () => {
+    expect(await new RestProvider(venue('binance')).fetchPrice('ALEO/USD')).toBeNull();
+    expect(mockedAxios.get).not.toHaveBeenCalled();
+
+    mockedAxios.get.mockRejectedValue(new Error('timeout'));
+    expect(await new RestProvider(venue('binance')).fetchPrice('ETH/USD')).toBeNull();
+  });
+
+  it('spaces requests by the venue rate limit', async () => {
+    mockedAxios.get.mockResolvedValue({ status: 200, data: { lastPrice: '1' } });
+    const provider = new RestProvider({ ...venue('mexc'), minIntervalMs: 50 });
+
+    const started = Date.now();
+    await Promise.all([provider.fetchPrice('ETH/USD'), provider.fetchPrice('BTC/USD'), provider.fetchPrice('SOL/USD')]);
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(95);
+  });
+});
@@ -0,0 +1,111 @@
+import { MemoryHistoryStorage } from '../services/historyStorage';
+import { PriceStore } from '../services/priceStore';
+import { RollingAggregates } from '../services/rollingAggregates';
+import { twapCalculator } from '../services/twapCalculator';
+import { makePrice } from './fixtures/prices';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Nothing tracked: every query falls back to scanning history
+const SCAN_ONLY = { statsWindows: {}, candleIntervals: {}, candleRetention: 1440, maxCandles: 500, cacheMaxAgeMs: 10000 };
+
+describe('RollingAggregates', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1700000000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('matches a full history scan for stats, candles and TWAP', () => {
+    const rolling = new PriceStore(new MemoryHistoryStorage(100000));
+    const scanned = new PriceStore(new MemoryHistoryStorage(100000), SCAN_ONLY);
+
+    // Six hours of a deterministic walk around 3000, one price every 10s
+    let price = 3000;
+    for (let i = 0; i < 6 * 360; i++) {
+      now += 10000;
+      price += Math.sin(i / 7) * 4 + ((i * 37) % 11 - 5) * 0.3;
+      rolling.setPrice(makePrice('ETH/USD', price, now));
+      scanned.setPrice(makePrice('ETH/USD', price, now));
+    }
+    now += 5000;
+
+    for (const windowMs of [5 * MINUTE, HOUR, 4 * HOUR, 24 * HOUR]) {
+      const expected = scanned.getStats('ETH/USD', windowMs)!;
+      const actual = rolling.getStats('ETH/USD', windowMs)!;
+      expect(actual.dataPoints).toBe(expected.dataPoints);
+      expect(actual).toMatchObject({ high: expected.high, low: expected.low, open: expected.open, close: expected.close });
+      expect(actual.average).toBeCloseTo(expected.average, 8);
+      expect(actual.volatility).toBeCloseTo(expected.volatility, 6);
+    }
+
+    expect(rolling.getCandles('ETH/USD', 5 * MINUTE, { limit: 24 })).toEqual(scanned.getCandles('ETH/USD', 5 * MINUTE, { limit: 24 }));
+
+    const history = scanned.getHistorySince('ETH/USD', 7 * 24 * HOUR);
+    const expected = twapCalculator.calculateAllTWAPs('ETH/USD', history, price);
+    const actual = rolling.getTWAPs('ETH/USD', price);
+    expect(actual.twap5m).toBeCloseTo(expected.twap5m, 8);
+    expect(actual.twap1h).toBeCloseTo(expected.twap1h, 8);
+    expect(actual.twap24h).toBeCloseTo(expected.twap24h, 8);
+    expect(actual.dataPoints).toEqual(expected.dataPoints);
+  });
+
+  it('merges a late price in memory, matching prices added in order', () => {
+    const storage = new MemoryHistoryStorage(100000);
+    const late = new PriceStore(storage);
+    const ordered = new PriceStore(new MemoryHistoryStorage(100000));
+
+    const prices = Array.from({ length: 120 }, (_, i) => makePrice('ETH/USD', 3000 + Math.sin(i / 5) * 20, now + i * 30000));
+    const skipped = prices[100];
+    prices.forEach(p => ordered.setPrice(p));
+    prices.filter(p => p !== skipped).forEach(p => late.setPrice(p));
+
+    const getRange = jest.spyOn(storage, 'getRange');
+    late.setPrice(skipped);
+    expect(getRange).not.toHaveBeenCalled();
+
+    now += 3600000;
+    for (const windowMs of [5 * MINUTE, HOUR, 24 * HOUR]) {
+      const expected = ordered.getStats('ETH/USD', windowMs)!;
+      const actual = late.getStats('ETH/USD', windowMs)!;
+      expect(actual).toMatchObject({ open: expected.open, close: expected.close, high: expected.high, low: expected.low, dataPoints: expected.dataPoints });
+      expect(actual.volatility).toBeCloseTo(expected.volatility, 6);
+    }
+    expect(late.getTWAPs('ETH/USD', 3000).twap1h).toBeCloseTo(ordered.getTWAPs('ETH/USD', 3000).twap1h, 8);
+    expect(late.getCandles('ETH/USD', 5 * MINUTE, { limit: 20 })).toEqual(ordered.getCandles('ETH/USD', 5 * MINUTE, { limit: 20 }));
+  });
+
+  it('drops prices as they leave the window, keeping the high and low current', () => {
+    const aggregates = new RollingAggregates([MINUTE], [], 10);
+    aggregates.add(now, 120);
+    aggregates.add(now + 20000, 80);
+    aggregates.add(now + 40000, 100);
+
+    expect(aggregates.getStats(MINUTE, now + 40000)).toMatchObject({ high: 120, low: 80, open: 120, dataPoints: 3 });
+    expect(aggregates.getStats(MINUTE, now + 70000)).toMatchObject({ high: 100, low: 80, open: 80, dataPoints: 2 });
+    expect(aggregates.getStats(MINUTE, now + 90000)).toMatchObject({ high: 100, low: 100, average: 100, volatility: 0, dataPoints: 1 });
+    expect(aggregates.getStats(MINUTE, now + 200000)).toBeNull();
+  });
+
+  it('restores from storage and merges an out-of-order price', () => {
+    const storage = new MemoryHistoryStorage();
+    [100, 110, 105].forEach((p, i) => storage.append(makePrice('BTC/USD', p, now - (3 - i) * MINUTE)));
+
+    const store = new PriceStore(storage);
+    expect(store.getStats('BTC/USD', HOUR)).toMatchObject({ open: 100, close: 105, high: 110, dataPoints: 3 });
+
+    store.setPrice(makePrice('BTC/USD', 90, now - 10 * MINUTE));
+    expect(store.getStats('BTC/USD', HOUR)).toMatchObject({ open: 90, close: 105, low: 90, high: 110, dataPoints: 4 });
+    expect(store.getPrice('BTC/USD')).toMatchObject({ price: 105, timestamp: now - MINUTE });
+    expect(store.getHistory('BTC/USD').map(p => p.price)).toEqual([90, 100, 110, 105]);
+
+    // Trapezoids 90→100 over 7 minutes, 100→110 and 110→105, then 105 held for a minute
+    expect(store.getTWAPs('BTC/USD', 105).twap1h).toBeCloseTo((665 + 105 + 107.5 + 105) / 10, 6);
+  });
+});
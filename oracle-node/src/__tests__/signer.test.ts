@@ -5,10 +5,15 @@ jest.mock('../config', () => ({
       address: 'aleo1test',
       privateKey: '',
     },
+    signer: {
+      current: { backend: 'env', privateKey: '', keystoreFile: '', keystorePassphrase: '', socketPath: '', timeoutMs: 5000 },
+      next: { backend: '', privateKey: '', keystoreFile: '', keystorePassphrase: '', socketPath: '', timeoutMs: 5000 },
+      rotationCutoverAt: 0,
+    },
   },
 }));
 
-jest.mock('./logger', () => ({
+jest.mock('../services/logger', () => ({
   logger: {
     info: jest.fn(),
     warn: jest.fn(),
@@ -28,19 +33,39 @@ jest.mock('@provablehq/sdk', () => {
 
   return {
     Account: jest.fn().mockImplementation(() => ({
-      sign: mockSign,
+      privateKey: jest.fn().mockReturnValue('mock_private_key'),
       address: mockAddress,
     })),
+    BHP256: jest.fn().mockImplementation(() => ({
+      hash: () => ({ toString: () => '123field' }),
+    })),
+    Plaintext: {
+      fromString: jest.fn().mockReturnValue({ toBitsLe: () => [] }),
+    },
+    Signature: {
+      signValue: mockSign,
+    },
   };
 });
 
 import { AleoSigner } from '../services/signer';
+import { SignerBackend } from '../services/signerBackends';
+
+function fakeBackend(address: string): SignerBackend {
+  return {
+    name: 'env',
+    init: jest.fn().mockResolvedValue(undefined),
+    getAddress: () => address,
+    signValue: jest.fn().mockResolvedValue(`sign1_${address}`),
+    close: jest.fn(),
+  };
+}
 
 describe('AleoSigner', () => {
   describe('without private key', () => {
-    it('returns unsigned data when no private key configured', () => {
+    it('returns unsigned data when no private key configured', async () => {
       const signer = new AleoSigner();
-      const result = signer.signPrice('ETH/USD', 350000000000n, Date.now(), 5);
+      const result = await signer.signPrice('ETH/USD', 350000000000n, Date.now(), 5);
 
       expect(result.signature).toBe('');
       expect(result.pair).toBe('ETH/USD');
@@ -58,31 +83,43 @@ describe('AleoSigner', () => {
     beforeEach(() => {
       // Override config to have a private key
       const { config } = require('../config');
-      config.operator.privateKey = 'APrivateKey1zktest123';
+      config.signer.current.privateKey = 'APrivateKey1zktest123';
     });
 
     afterEach(() => {
       const { config } = require('../config');
-      config.operator.privateKey = '';
+      config.signer.current.privateKey = '';
     });
 
-    it('returns signed data with correct pair ID', () => {
+    it('returns signed data with correct pair ID', async () => {
       const signer = new AleoSigner();
-      const result = signer.signPrice('BTC/USD', 10000000000000n, Date.now(), 5);
+      const result = await signer.signPrice('BTC/USD', 10000000000000n, Date.now(), 5);
 
       expect(result.pairId).toBe(2);
       expect(result.signature).toContain('sign1');
       expect(result.operatorAddress).toBe('aleo1mockaddress123');
     });
 
-    it('maps pair names to correct IDs', () => {
+    it('signs the BHP256 hash of the PriceMessage', async () => {
+      const { Plaintext, Signature } = require('@provablehq/sdk');
       const signer = new AleoSigner();
+      const result = await signer.signPrice('ETH/USD', 350000000000n, 1700000000000, 5);
 
-      expect(signer.signPrice('ETH/USD', 1n, 0, 3).pairId).toBe(1);
-      expect(signer.signPrice('BTC/USD', 1n, 0, 3).pairId).toBe(2);
-      expect(signer.signPrice('ALEO/USD', 1n, 0, 3).pairId).toBe(3);
-      expect(signer.signPrice('SOL/USD', 1n, 0, 3).pairId).toBe(4);
-      expect(signer.signPrice('UNKNOWN/USD', 1n, 0, 3).pairId).toBe(0);
+      expect(Plaintext.fromString).toHaveBeenCalledWith(
+        '{ pair_id: 1u64, price: 350000000000u128, timestamp: 1700000000000u64, source_count: 5u8 }'
+      );
+      expect(Signature.signValue).toHaveBeenCalledWith('mock_private_key', '123field');
+      expect(result.messageHash).toBe('123field');
+    });
+
+    it('maps pair names to correct IDs', async () => {
+      const signer = new AleoSigner();
+
+      expect((await signer.signPrice('ETH/USD', 1n, 0, 3)).pairId).toBe(1);
+      expect((await signer.signPrice('BTC/USD', 1n, 0, 3)).pairId).toBe(2);
+      expect((await signer.signPrice('ALEO/USD', 1n, 0, 3)).pairId).toBe(3);
+      expect((await signer.signPrice('SOL/USD', 1n, 0, 3)).pairId).toBe(4);
+      expect((await signer.signPrice('UNKNOWN/USD', 1n, 0, 3)).pairId).toBe(0);
     });
 
     it('reports signing as enabled', () => {
@@ -90,4 +127,51 @@ describe('AleoSigner', () => {
       expect(signer.isSigningEnabled()).toBe(true);
     });
   });
+
+  describe('key rotation', () => {
+    it('announces the next key but keeps signing with the current one', async () => {
+      const signer = new AleoSigner(fakeBackend('aleo1old'), fakeBackend('aleo1new'), 0);
+      const result = await signer.signPrice('ETH/USD', 1n, 0, 3);
+
+      expect(result.operatorAddress).toBe('aleo1old');
+      expect(result.signature).toBe('sign1_aleo1old');
+      expect(signer.getRotation()).toEqual({
+        backend: 'env',
+        currentAddress: 'aleo1old',
+        nextAddress: 'aleo1new',
+        cutoverAt: null,
+      });
+    });
+
+    it('switches keys on manual cut-over and closes the old backend', async () => {
+      const old = fakeBackend('aleo1old');
+      const signer = new AleoSigner(old, fakeBackend('aleo1new'), 0);
+      await signer.init();
+
+      signer.cutover();
+      const result = await signer.signPrice('ETH/USD', 1n, 0, 3);
+
+      expect(result.operatorAddress).toBe('aleo1new');
+      expect(old.close).toHaveBeenCalled();
+      expect(signer.getNextOperatorAddress()).toBeNull();
+      expect(() => signer.cutover()).toThrow('No key rotation pending');
+    });
+
+    it('cuts over automatically once the scheduled time has passed', async () => {
+      const signer = new AleoSigner(fakeBackend('aleo1old'), fakeBackend('aleo1new'), Date.now() - 1);
+      const result = await signer.signPrice('ETH/USD', 1n, 0, 3);
+
+      expect(result.operatorAddress).toBe('aleo1new');
+    });
+
+    it('cancels the rotation when the next backend fails to initialize', async () => {
+      const next = fakeBackend('aleo1new');
+      (next.init as jest.Mock).mockRejectedValue(new Error('bad passphrase'));
+      const signer = new AleoSigner(fakeBackend('aleo1old'), next, Date.now() - 1);
+      const result = await signer.signPrice('ETH/USD', 1n, 0, 3);
+
+      expect(result.operatorAddress).toBe('aleo1old');
+      expect(signer.getNextOperatorAddress()).toBeNull();
+    });
+  });
 });
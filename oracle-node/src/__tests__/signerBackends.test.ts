@@ -0,0 +1,81 @@
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+
+jest.mock('../services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+jest.mock('@provablehq/sdk', () => ({
+  Account: jest.fn(),
+  Signature: { signValue: jest.fn() },
+}));
+
+import { RemoteSignerBackend, SignerBackend, createSignerBackend, serveSigner } from '../services/signerBackends';
+
+const keyHolder: SignerBackend = {
+  name: 'env',
+  init: async () => {},
+  getAddress: () => 'aleo1daemon',
+  signValue: async (hash: string) => `sign1_${hash}`,
+  close: () => {},
+};
+
+describe('RemoteSignerBackend', () => {
+  let dir: string;
+  let socketPath: string;
+  let server: net.Server;
+  let remote: RemoteSignerBackend;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signer-'));
+    socketPath = path.join(dir, 'signer.sock');
+    server = serveSigner(keyHolder, socketPath);
+    await new Promise(resolve => server.once('listening', resolve));
+    remote = new RemoteSignerBackend(socketPath, 1000);
+  });
+
+  afterEach(async () => {
+    remote.close();
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('learns the address of the key held by the signer process', async () => {
+    await remote.init();
+    expect(remote.getAddress()).toBe('aleo1daemon');
+  });
+
+  it('signs message hashes over the socket', async () => {
+    await remote.init();
+    const results = await Promise.all([remote.signValue('1field'), remote.signValue('2field')]);
+    expect(results).toEqual(['sign1_1field', 'sign1_2field']);
+  });
+
+  it('refuses to sign anything other than a field element', async () => {
+    await expect(remote.signValue('{ amount: 1u64 }')).rejects.toThrow('Unsupported request');
+  });
+
+  it('fails when no signer process is listening', async () => {
+    const missing = new RemoteSignerBackend(path.join(dir, 'missing.sock'), 1000);
+    await expect(missing.init()).rejects.toThrow();
+  });
+});
+
+describe('createSignerBackend', () => {
+  const options = { backend: 'env', privateKey: '', keystoreFile: '', keystorePassphrase: '', socketPath: '', timeoutMs: 1000 };
+
+  it('returns null when no key is configured', () => {
+    expect(createSignerBackend(options)).toBeNull();
+  });
+
+  it('rejects unknown backends', () => {
+    expect(() => createSignerBackend({ ...options, backend: 'hsm' })).toThrow('Unknown signer backend "hsm"');
+  });
+});
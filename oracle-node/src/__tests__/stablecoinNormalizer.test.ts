@@ -0,0 +1,94 @@
+import { StablecoinNormalizer, quoteAssetOf } from '../services/stablecoinNormalizer';
+import { pairRegistry } from '../pairRegistry';
+import { PriceResult } from '../providers';
+
+function quote(source: string, price: number, extra: Partial<PriceResult> = {}): PriceResult {
+  return { pair: 'ETH/USD', price, timestamp: Date.now(), source, ...extra };
+}
+
+describe('quoteAssetOf', () => {
+  it('detects stablecoin-quoted venue symbols', () => {
+    expect(quoteAssetOf('ETHUSDT', 'USD')).toBe('USDT');
+    expect(quoteAssetOf('ETH-USDT', 'USD')).toBe('USDT');
+    expect(quoteAssetOf('eth_usdt', 'USD')).toBe('USDT');
+    expect(quoteAssetOf('ETH-USDC', 'USD')).toBe('USDC');
+  });
+
+  it('treats other symbols as quoted in the pair currency', () => {
+    expect(quoteAssetOf('ETH-USD', 'USD')).toBe('USD');
+    expect(quoteAssetOf('XBTUSD', 'USD')).toBe('USD');
+    expect(quoteAssetOf('USDTZUSD', 'USD')).toBe('USD');
+    expect(quoteAssetOf('ethereum', 'USD')).toBe('USD');
+  });
+});
+
+describe('StablecoinNormalizer', () => {
+  let normalizer: StablecoinNormalizer;
+
+  beforeEach(() => {
+    normalizer = new StablecoinNormalizer({
+      refreshIntervalMs: 30000,
+      maxRateAgeMs: 300000,
+      depegFlagThreshold: 0.005,
+      depegExcludeThreshold: 0.02
+    });
+  });
+
+  it('ships USDT/USD and USDC/USD reference rates in the registry', () => {
+    expect(pairRegistry.getReferencePairs().map(r => r.pair)).toEqual(['USDT/USD', 'USDC/USD']);
+    expect(pairRegistry.getSymbol('kraken', 'USDT/USD')).toBe('USDTZUSD');
+    expect(pairRegistry.getSupportedPairs()).not.toContain('USDT/USD');
+  });
+
+  it('refreshes reference rates from the median of their sources', async () => {
+    const fetchQuotes = jest.fn(async (pair: string) => pair === 'USDT/USD'
+      ? [quote('kraken', 0.998), quote('coinbase', 0.999), quote('bitstamp', 1.003)]
+      : [quote('kraken', 1.0001)]);
+
+    await normalizer.refresh(fetchQuotes);
+
+    expect(normalizer.getRate('USDT')).toMatchObject({ rate: 0.999, sources: ['kraken', 'coinbase', 'bitstamp'] });
+    // USDC/USD needs 2 sources
+    expect(normalizer.getRate('USDC')).toBeNull();
+
+    // Fresh rates are not fetched again
+    await normalizer.refresh(fetchQuotes);
+    expect(fetchQuotes).toHaveBeenCalledWith('USDT/USD');
+    expect(fetchQuotes.mock.calls.filter(([pair]) => pair === 'USDT/USD')).toHaveLength(1);
+  });
+
+  it('converts USDT-quoted venues into USD and leaves USD venues alone', () => {
+    normalizer.setRate('USDT', 'USDT/USD', 0.999, ['kraken']);
+
+    const { results, conversions, rejected } = normalizer.normalize('ETH/USD', [
+      quote('binance', 3000, { bid: 2999, ask: 3001, quoteVolume: 1000 }),
+      quote('coinbase', 2997)
+    ]);
+
+    expect(results[0]).toMatchObject({ source: 'binance', price: 2997, bid: 2999 * 0.999, quoteVolume: 999 });
+    expect(results[1].price).toBe(2997);
+    expect(conversions).toEqual([
+      { source: 'binance', quoteAsset: 'USDT', rawPrice: 3000, rate: 0.999, price: 2997, rateStatus: 'reference', depegged: false, excluded: false },
+      { source: 'coinbase', quoteAsset: 'USD', rawPrice: 2997, rate: 1, price: 2997, rateStatus: 'direct', depegged: false, excluded: false }
+    ]);
+    expect(rejected).toEqual([]);
+  });
+
+  it('flags a mild depeg and excludes a severe one', () => {
+    normalizer.setRate('USDT', 'USDT/USD', 0.99, ['kraken']);
+    const flagged = normalizer.normalize('ETH/USD', [quote('okex', 3000)]);
+    expect(flagged.results[0].price).toBeCloseTo(2970, 6);
+    expect(flagged.conversions[0]).toMatchObject({ depegged: true, excluded: false });
+
+    normalizer.setRate('USDT', 'USDT/USD', 0.95, ['kraken']);
+    const excluded = normalizer.normalize('ETH/USD', [quote('okex', 3000), quote('coinbase', 2850)]);
+    expect(excluded.results.map(r => r.source)).toEqual(['coinbase']);
+    expect(excluded.rejected[0]).toMatchObject({ source: 'okex', reason: expect.stringContaining('USDT depegged') });
+  });
+
+  it('assumes 1:1 when no reference rate is available', () => {
+    const { results, conversions } = normalizer.normalize('ETH/USD', [quote('binance', 3000)]);
+    expect(results[0].price).toBe(3000);
+    expect(conversions[0].rateStatus).toBe('assumed');
+  });
+});
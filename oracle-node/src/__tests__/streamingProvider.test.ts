@@ -0,0 +1,185 @@
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { BinanceStream, BybitStream, CoinbaseStream, KrakenStream, OKXStream, StreamingOptions, StreamingProvider } from '../providers';
+
+jest.mock('../services/logger', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const poll = () => {
+      if (condition()) return resolve();
+      if (Date.now() - started > timeoutMs) return reject(new Error('Timed out waiting for condition'));
+      setTimeout(poll, 10);
+    };
+    poll();
+  });
+}
+
+describe('StreamingProvider', () => {
+  let server: WebSocketServer;
+  let clients: WebSocket[];
+  let received: any[];
+  let stream: StreamingProvider | null;
+  let options: StreamingOptions;
+
+  beforeEach(async () => {
+    clients = [];
+    received = [];
+    stream = null;
+    server = new WebSocketServer({ port: 0 });
+    server.on('connection', socket => {
+      clients.push(socket);
+      socket.on('message', data => {
+        const text = data.toString();
+        try {
+          received.push(JSON.parse(text));
+        } catch {
+          received.push(text);
+        }
+      });
+    });
+    await new Promise(resolve => server.once('listening', resolve));
+
+    options = {
+      socketTimeoutMs: 1000,
+      maxQuoteAgeMs: 1000,
+      reconnectBaseMs: 20,
+      reconnectMaxMs: 100,
+      url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`
+    };
+  });
+
+  afterEach(async () => {
+    stream?.stop();
+    clients.forEach(c => c.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function push(message: unknown) {
+    clients[clients.length - 1].send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  it('subscribes to registry symbols and serves pushed tickers from the cache', async () => {
+    stream = new BinanceStream(options);
+    stream.start();
+    await waitFor(() => received.length > 0);
+
+    expect(received[0].method).toBe('SUBSCRIBE');
+    expect(received[0].params).toContain('ethusdt@ticker');
+    expect(stream.getCachedPrice('ETH/USD')).toBeNull();
+
+    push({ e: '24hrTicker', E: 1700000000000, s: 'ETHUSDT', c: '3450.10', b: '3450.00', a: '3450.20', v: '1000', q: '3450100' });
+    await waitFor(() => stream!.getCachedPrice('ETH/USD') !== null);
+
+    expect(stream.getCachedPrice('ETH/USD')).toEqual({
+      pair: 'ETH/USD', price: 3450.1, timestamp: 1700000000000, source: 'binance',
+      baseVolume: 1000, quoteVolume: 3450100, bid: 3450, ask: 3450.2
+    });
+  });
+
+  it('treats quotes older than maxQuoteAgeMs as missing', async () => {
+    stream = new BinanceStream({ ...options, maxQuoteAgeMs: 50 });
+    stream.start();
+    await waitFor(() => received.length > 0);
+
+    push({ e: '24hrTicker', s: 'BTCUSDT', c: '65000' });
+    await waitFor(() => stream!.getCachedPrice('BTC/USD') !== null);
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    expect(stream.getCachedPrice('BTC/USD')).toBeNull();
+  });
+
+  it('reconnects and resubscribes when the venue drops the connection', async () => {
+    stream = new BinanceStream(options);
+    stream.start();
+    await waitFor(() => received.length > 0);
+
+    push({ e: '24hrTicker', s: 'ETHUSDT', c: '3450' });
+    await waitFor(() => stream!.getCachedPrice('ETH/USD') !== null);
+
+    clients[0].terminate();
+    await waitFor(() => !stream!.isConnected());
+    expect(stream.getCachedPrice('ETH/USD')).toBeNull();
+
+    await waitFor(() => clients.length === 2 && received.length === 2);
+    expect(received[1].method).toBe('SUBSCRIBE');
+    expect(stream.getStatus().reconnects).toBe(1);
+  });
+
+  it('drops a silent socket and reconnects', async () => {
+    stream = new BinanceStream({ ...options, socketTimeoutMs: 60 });
+    stream.start();
+    await waitFor(() => clients.length === 1);
+
+    // The server never sends anything
+    await waitFor(() => clients.length === 2, 1000);
+    expect(stream.getStatus().reconnects).toBeGreaterThanOrEqual(1);
+  });
+
+  it.each([
+    [
+      'Coinbase', CoinbaseStream, 'ETH/USD',
+      { type: 'ticker', product_id: 'ETH-USD', price: '3451', best_bid: '3450.5', best_ask: '3451.5', volume_24h: '10', time: '2024-01-01T00:00:00Z' },
+      { price: 3451, bid: 3450.5, ask: 3451.5, baseVolume: 10, timestamp: Date.parse('2024-01-01T00:00:00Z') }
+    ],
+    [
+      'Kraken', KrakenStream, 'BTC/USD',
+      { channel: 'ticker', type: 'update', data: [{ symbol: 'BTC/USD', last: 65000.5, bid: 65000, ask: 65001, volume: 100, vwap: 64900 }] },
+      { price: 65000.5, bid: 65000, ask: 65001, baseVolume: 100, quoteVolume: 6490000 }
+    ],
+    [
+      'OKX', OKXStream, 'ETH/USD',
+      { arg: { channel: 'tickers', instId: 'ETH-USDT' }, data: [{ instId: 'ETH-USDT', last: '3449', bidPx: '3448', askPx: '3450', vol24h: '5', volCcy24h: '17245', ts: '1700000000000' }] },
+      { price: 3449, bid: 3448, ask: 3450, quoteVolume: 17245, timestamp: 1700000000000 }
+    ],
+    [
+      'Bybit', BybitStream, 'SOL/USD',
+      { topic: 'tickers.SOLUSDT', ts: 1700000000000, type: 'snapshot', data: { symbol: 'SOLUSDT', lastPrice: '101.5', volume24h: '20', turnover24h: '2030' } },
+      { price: 101.5, baseVolume: 20, quoteVolume: 2030 }
+    ]
+  ])('parses %s ticker messages', async (_venue, Stream, pair, message, expected) => {
+    stream = new Stream(options);
+    stream.start();
+    await waitFor(() => received.length > 0);
+
+    push(message);
+    await waitFor(() => stream!.getCachedPrice(pair) !== null);
+    expect(stream.getCachedPrice(pair)).toMatchObject(expected);
+  });
+
+  it('subscribes Kraken v2 market names mapped from the registry symbols', async () => {
+    stream = new KrakenStream(options);
+    stream.start();
+    await waitFor(() => received.length > 0);
+
+    const symbols: string[] = received[0].params.symbol;
+    expect(symbols).toEqual(expect.arrayContaining(['BTC/USD', 'POL/USD', 'USDT/USD']));
+    expect(symbols).not.toContain('MATIC/USD');
+
+    push({ channel: 'ticker', type: 'update', data: [{ symbol: 'POL/USD', last: 0.52 }] });
+    await waitFor(() => stream!.getCachedPrice('MATIC/USD') !== null);
+    expect(stream.getCachedPrice('MATIC/USD')).toMatchObject({ pair: 'MATIC/USD', price: 0.52 });
+  });
+
+  it('sends the venue keep-alive ping', async () => {
+    class FastPingOKX extends OKXStream {
+      constructor(o: StreamingOptions) {
+        super(o);
+        this.keepAlive = { intervalMs: 20, message: 'ping' };
+      }
+    }
+    stream = new FastPingOKX(options);
+    stream.start();
+
+    await waitFor(() => received.includes('ping'));
+    expect(received[0].args[0]).toEqual({ channel: 'tickers', instId: 'ETH-USDT' });
+  });
+});
@@ -0,0 +1,109 @@
+import { MemoryHistoryStorage } from '../services/historyStorage';
+import { PriceStore } from '../services/priceStore';
+import { RollingAggregates } from '../services/rollingAggregates';
+import { Candle } from '../services/candleEngine';
+import { twapCalculator } from '../services/twapCalculator';
+import { makePrice } from './fixtures/prices';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const PERIODS_PER_YEAR = (365 * 24 * HOUR) / MINUTE;
+
+function candle(timestamp: number, close: number, high = close, low = close, samples = 2): Candle {
+  return { timestamp, open: close, high, low, close, volume: 0, volume24h: null, samples, synthetic: samples === 0 };
+}
+
+describe('TWAPCalculator EMA', () => {
+  it('decays toward new prices by elapsed time', () => {
+    const history = [
+      { price: 100, timestamp: 0 },
+      { price: 200, timestamp: 5 * MINUTE }
+    ];
+
+    // One time constant (half the 10m window) closes 1 - 1/e of the gap
+    expect(twapCalculator.calculateTimeEMA(history, 10 * MINUTE)).toBeCloseTo(100 + 100 * (1 - Math.exp(-1)), 8);
+    expect(twapCalculator.calculateTimeEMA(history.slice(0, 1), 10 * MINUTE)).toBe(100);
+    expect(twapCalculator.emaAlpha(0, 10 * MINUTE)).toBe(0);
+  });
+
+  it('keeps the rolling EMA equal to a scan of the same prices', () => {
+    const aggregates = new RollingAggregates([5 * MINUTE, HOUR], [], 10);
+    const history: { price: number; timestamp: number }[] = [];
+    for (let i = 0; i < 200; i++) {
+      const point = { price: 3000 + Math.sin(i / 5) * 20, timestamp: i * 7000 + (i % 3) * 1000 };
+      history.push(point);
+      aggregates.add(point.timestamp, point.price);
+    }
+
+    expect(aggregates.getEMA(5 * MINUTE)).toBeCloseTo(twapCalculator.calculateTimeEMA(history, 5 * MINUTE), 8);
+    expect(aggregates.getEMA(HOUR)).toBeCloseTo(twapCalculator.calculateTimeEMA(history, HOUR), 8);
+    expect(new RollingAggregates([HOUR], [], 10).getEMA(HOUR)).toBeNull();
+  });
+});
+
+describe('TWAPCalculator volatility', () => {
+  it('annualizes realized and EWMA volatility of log returns', () => {
+    // Closes alternating up and down by the same log return
+    const r = 0.001;
+    const candles = [0, 1, 2, 3, 4].map(i => candle(i * MINUTE, 100 * Math.exp(i % 2 === 0 ? 0 : r)));
+
+    const result = twapCalculator.calculateVolatility(candles, MINUTE, 0.94);
+    expect(result.returns).toBe(4);
+    expect(result.realized).toBeCloseTo(r * Math.sqrt(PERIODS_PER_YEAR), 10);
+    expect(result.ewma).toBeCloseTo(r * Math.sqrt(PERIODS_PER_YEAR), 10);
+  });
+
+  it('estimates Parkinson volatility from high-low ranges', () => {
+    const candles = [
+      candle(0, 100, 101, 99),
+      candle(MINUTE, 100, 102, 100),
+      candle(2 * MINUTE, 100, 100, 100, 1)     // Single sample: no range
+    ];
+
+    const squares = Math.log(101 / 99) ** 2 + Math.log(102 / 100) ** 2;
+    const result = twapCalculator.calculateVolatility(candles, MINUTE, 0.94);
+    expect(result.candles).toBe(2);
+    expect(result.parkinson).toBeCloseTo(Math.sqrt(squares / (4 * Math.LN2 * 2) * PERIODS_PER_YEAR), 10);
+  });
+
+  it('leaves out returns across synthetic candles', () => {
+    const candles = [candle(0, 100), candle(MINUTE, 110, 110, 110, 0), candle(2 * MINUTE, 110), candle(3 * MINUTE, 121)];
+
+    const result = twapCalculator.calculateVolatility(candles, MINUTE, 0.94);
+    expect(result.returns).toBe(1);
+    expect(result.realized).toBeNull();
+    expect(twapCalculator.calculateVolatility([], MINUTE, 0.94)).toEqual({
+      realized: null, ewma: null, parkinson: null, returns: 0, candles: 0
+    });
+  });
+});
+
+describe('PriceStore.getMetrics', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.UTC(2024, 2, 10, 12);
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports every TWAP window with its EMA and volatility per window', () => {
+    const store = new PriceStore(new MemoryHistoryStorage());
+    for (let i = 0; i < 120; i++) {
+      now += 30000;
+      store.setPrice(makePrice('ETH/USD', 3000 + (i % 4) * 2, now));
+    }
+
+    const metrics = store.getMetrics('ETH/USD', 3004);
+    expect(Object.keys(metrics.windows)).toEqual(['5m', '1h', '24h', '7d']);
+    expect(metrics.windows['5m'].dataPoints).toBe(11);   // Both ends of the window count
+    expect(metrics.windows['5m'].twap).toBeCloseTo(store.getTWAPs('ETH/USD', 3004).twap5m, 8);
+    expect(metrics.windows['1h'].ema).toBeGreaterThan(3000);
+    expect(metrics.volatility['1h']).toMatchObject({ interval: '1m', returns: 59, candles: 59 });   // The current bucket has one price, no range
+    expect(metrics.volatility['1h'].realized).toBeGreaterThan(0);
+    expect(metrics.volatility['24h'].parkinson).toBeGreaterThan(0);
+  });
+});
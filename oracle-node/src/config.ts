@@ -1,23 +1,19 @@
 import dotenv from 'dotenv';
+import { pairRegistry } from './pairRegistry';
+import type { RestProviderConfig } from './providers/restProvider';
+import type { CircuitBreakerTier, CircuitBreakerPairOverride } from './services/circuitBreaker';
+import type { RateLimitTier } from './services/rateLimiter';
+import venueFile from './providers/venues.json';
 dotenv.config();
 
 export const config = {
   port: process.env.PORT || 3000,
 
-  // Supported trading pairs (Phase 1 expansion)
-  supportedPairs: [
-    // Major Cryptocurrencies
-    'ETH/USD',
-    'BTC/USD',
-    'ALEO/USD',
-    'SOL/USD',
-    'AVAX/USD',
-    'MATIC/USD',
-    'DOT/USD',
-    'ATOM/USD',
-    'LINK/USD',
-    'UNI/USD'
-  ],
+  // Active trading pairs (pairs.json plus runtime changes). Read live so pairs
+  // onboarded, paused or retired through the admin API take effect immediately.
+  get supportedPairs(): string[] {
+    return pairRegistry.getSupportedPairs();
+  },
 
   // Price scaling (10^8 for precision)
   priceScale: 100000000n,
@@ -26,170 +22,254 @@ export const config = {
   fetchInterval: 10000,      // 10 seconds
   heartbeatInterval: 300000, // 5 minutes
 
+  // Push stream (SSE) settings
+  stream: {
+    heartbeatIntervalMs: 15000   // Keep-alive frame for idle connections
+  },
+
   // Aggregation settings
   outlierThreshold: 0.05,    // 5% max deviation from median
   minSources: 3,             // Minimum sources required (increased for Phase 1)
 
-  // Circuit breaker settings
+  // Aggregation strategy per pair (see services/aggregationStrategies.ts)
+  // median | filtered-median | trimmed-mean | volume-weighted-median | vwap | mad | reliability-weighted
+  aggregation: {
+    defaultStrategy: process.env.AGGREGATION_STRATEGY || 'filtered-median',
+    // Per-pair overrides, e.g. { 'ALEO/USD': 'mad' }
+    pairStrategies: {} as { [pair: string]: string },
+    trimPercent: 0.2,             // Trimmed mean: drop 20% from each end
+    madThreshold: 3,              // MAD filter: tolerate 3 scaled MADs
+    // Relative trust per source for reliability weighting (unlisted sources = 1)
+    sourceReliability: {
+      binance: 1.0,
+      coinbase: 1.0,
+      kraken: 1.0,
+      bitstamp: 0.9,
+      bitfinex: 0.9,
+      okex: 0.9,
+      bybit: 0.9,
+      kucoin: 0.8,
+      gateio: 0.7,
+      huobi: 0.7,
+      mexc: 0.7,
+      coingecko: 0.6,
+      cryptocompare: 0.6
+    } as { [source: string]: number }
+  },
+
+  // Stablecoin-quoted venues (ETHUSDT, ETH-USDT, ...) are converted to USD with the
+  // USDT/USD and USDC/USD reference rates in pairs.json (see services/stablecoinNormalizer.ts)
+  stablecoins: {
+    refreshIntervalMs: 30000,
+    maxRateAgeMs: 300000,          // Older rates are unknown; conversion falls back to 1:1, flagged
+    depegFlagThreshold: 0.005,     // 0.5% off peg: converted quotes are flagged
+    depegExcludeThreshold: 0.02    // 2% off peg: quotes in that stablecoin are dropped
+  },
+
+  // Confidence score and interval per aggregated price (see services/confidence.ts)
+  confidence: {
+    targetSources: 5,              // 5+ agreeing sources: full marks on coverage
+    maxSpreadPercent: 5,           // Included quotes 5% apart: no confidence in agreement
+    freshMs: 10000,                // Mean quote age up to 10s counts as fresh...
+    staleMs: 60000,                // ...falling linearly to zero at 60s
+    intervalZ: 1.96                // ~95% interval
+  },
+
+  // Derived pairs (ETH/BTC from ETH/USD and BTC/USD, see services/derivedPairs.ts)
+  derived: {
+    maxLegAgeMs: 15000             // Older leg aggregates are re-fetched before deriving
+  },
+
+  // Provider health tracking and quarantine (see services/providerHealth.ts)
+  providerHealth: {
+    windowSize: 50,                // Recent fetches scored per provider
+    minSamples: 10,
+    quarantineScore: 0.5,          // Quarantine below this score (0-1)
+    maxConsecutiveFailures: 5,
+    baseQuarantineMs: 60000,       // 1 minute, doubled on each repeat quarantine
+    maxQuarantineMs: 3600000,      // Capped at 1 hour
+    probationSuccesses: 3,         // Clean quotes needed to be re-admitted
+    staleAfterMs: 30000,
+    targetLatencyMs: 1000,
+    forgiveAfterMs: 3600000        // Back-off resets after an hour without quarantine
+  },
+
+  // Circuit breaker tiers, mirroring the contract's CircuitBreakerConfig (see services/circuitBreaker.ts).
+  // Hard halts withhold prices (the chain would reject them); soft halts publish them flagged.
+  // reasonCode is the contract's last_trip_reason for the tier; reference is the price a move is
+  // measured from (the contract's last_price for 1m, the price at the window start otherwise).
   circuitBreaker: {
     enabled: true,
-    maxPriceChangePercent: 0.10,   // 10% max change triggers halt
-    checkWindowMs: 60000,           // 1 minute window
-    haltDurationMs: 300000          // 5 minute halt duration
+    tiers: [
+      { name: '1m', windowMs: 60000, maxChangePercent: 0.05, severity: 'hard', reasonCode: 1, reference: 'last' },  // max_price_change_1m
+      { name: '1h', windowMs: 3600000, maxChangePercent: 0.15, severity: 'soft', reasonCode: 2 },     // max_price_change_1h
+      { name: '24h', windowMs: 86400000, maxChangePercent: 0.30, severity: 'soft', reasonCode: 3 }     // max_price_change_24h
+    ] as CircuitBreakerTier[],
+    softHaltDurationMs: 300000,    // halt_duration_soft: 5 minutes
+    hardHaltDurationMs: 900000,    // halt_duration_hard: 15 minutes
+    // Per-pair overrides, e.g. { 'ALEO/USD': { maxChangePercent: { '1m': 0.08 } } }
+    pairOverrides: {} as { [pair: string]: CircuitBreakerPairOverride },
+    // Halts and trip counts survive restarts; every trip, halt and resume is appended to the event log
+    stateFile: process.env.CIRCUIT_BREAKER_STATE_FILE || './data/circuit-breaker.json',
+    eventLogFile: process.env.CIRCUIT_BREAKER_EVENT_LOG || './data/circuit-breaker-events.jsonl'
   },
 
-  // TWAP settings
+  // Price history persistence
+  history: {
+    backend: process.env.HISTORY_BACKEND || 'memory',          // 'memory' | 'file'
+    dataDir: process.env.HISTORY_DATA_DIR || './data/history',
+    retentionDays: parseInt(process.env.HISTORY_RETENTION_DAYS || '30'),
+    maxCachedEntries: 10000                                   // ~27 hours at 10s intervals
+  },
+
+  // TWAP settings. Each window also gets an EMA (see /price/:pair/metrics); 5m feeds
+  // the contract's TWAPData.twap_5m, and 5m, 1h, 24h and 7d must stay configured.
   twap: {
     enabled: true,
     windows: {
+      '5m': 5 * 60 * 1000,          // 5 minutes
       '1h': 60 * 60 * 1000,         // 1 hour
       '24h': 24 * 60 * 60 * 1000,   // 24 hours
       '7d': 7 * 24 * 60 * 60 * 1000 // 7 days
-    }
+    } as { [window: string]: number }
+  },
+
+  // Volatility served by /price/:pair/metrics (see TWAPCalculator.calculateVolatility).
+  // Each window is measured on candles of a config.analytics.candleIntervals interval.
+  metrics: {
+    volatility: {
+      '1h': { windowMs: 60 * 60 * 1000, interval: '1m' },
+      '24h': { windowMs: 24 * 60 * 60 * 1000, interval: '5m' },
+      '7d': { windowMs: 7 * 24 * 60 * 60 * 1000, interval: '1h' }
+    } as { [window: string]: { windowMs: number; interval: string } },
+    ewmaLambda: 0.94                // RiskMetrics decay per candle for the EWMA estimate
   },
 
-  // Exchange API endpoints
+  // Rolling analytics updated on every stored price (see services/rollingAggregates.ts and
+  // services/candleEngine.ts). The stats windows and candle intervals served by
+  // /price/:pair/stats, /candles and /analysis.
+  analytics: {
+    statsWindows: {
+      '5m': 5 * 60 * 1000,
+      '15m': 15 * 60 * 1000,
+      '1h': 60 * 60 * 1000,
+      '4h': 4 * 60 * 60 * 1000,
+      '24h': 24 * 60 * 60 * 1000,
+      '7d': 7 * 24 * 60 * 60 * 1000
+    } as { [window: string]: number },
+    candleIntervals: {
+      '1m': 60 * 1000,
+      '5m': 5 * 60 * 1000,
+      '15m': 15 * 60 * 1000,
+      '1h': 60 * 60 * 1000,
+      '4h': 4 * 60 * 60 * 1000,
+      '1d': 24 * 60 * 60 * 1000
+    } as { [interval: string]: number },
+    candleRetention: 1440,          // Buckets kept in memory per interval (a day of 1m candles)
+    maxCandles: 500,                // Largest candles `limit`; older ranges are rebuilt from history
+    cacheMaxAgeMs: 10000            // One fetch interval: responses can't change faster
+  },
+
+  // History backfill from exchange klines after a fresh deploy (see services/historyBackfill.ts).
+  // Also triggered with POST /admin/backfill.
+  backfill: {
+    onStartup: process.env.BACKFILL_ON_STARTUP === 'true',
+    lookbackMs: parseInt(process.env.BACKFILL_LOOKBACK_MS || String(7 * 24 * 60 * 60 * 1000)),  // Fills the 7d TWAP
+    interval: process.env.BACKFILL_INTERVAL || '5m'       // A config.analytics.candleIntervals key
+  },
+
+  // REST ticker venues served by the generic RestProvider (providers/venues.json).
+  // Add a venue there and its symbols to pairs.json; no code needed.
+  restVenues: venueFile.venues as unknown as RestProviderConfig[],
+
+  // WebSocket ticker feeds replace REST polling for these venues (empty = REST only)
+  streaming: {
+    providers: (process.env.STREAMING_PROVIDERS ?? 'binance,coinbase,kraken,okex,bybit').split(',').map(s => s.trim()).filter(Boolean),
+    socketTimeoutMs: 30000,      // Silent this long = dead socket, reconnect
+    maxQuoteAgeMs: 60000,        // Older cached quotes count as a missing source
+    reconnectBaseMs: 1000,       // Doubled per failed attempt
+    reconnectMaxMs: 60000
+  },
+
+  // Venues with bespoke providers
   exchanges: {
-    binance: {
-      baseUrl: 'https://api.binance.com',
-      priceEndpoint: '/api/v3/ticker/price'
-    },
-    coinbase: {
-      baseUrl: 'https://api.coinbase.com',
-      priceEndpoint: '/v2/prices'
-    },
-    kraken: {
-      baseUrl: 'https://api.kraken.com',
-      priceEndpoint: '/0/public/Ticker'
-    },
-    huobi: {
-      baseUrl: 'https://api.huobi.pro',
-      priceEndpoint: '/market/detail/merged'
-    },
-    okex: {
-      baseUrl: 'https://www.okx.com',
-      priceEndpoint: '/api/v5/market/ticker'
-    },
-    gateio: {
-      baseUrl: 'https://api.gateio.ws',
-      priceEndpoint: '/api/v4/spot/tickers'
-    },
-    bybit: {
-      baseUrl: 'https://api.bybit.com',
-      priceEndpoint: '/v5/market/tickers'
-    },
     coingecko: {
       baseUrl: 'https://api.coingecko.com',
       priceEndpoint: '/api/v3/simple/price'
-    },
-    kucoin: {
-      baseUrl: 'https://api.kucoin.com',
-      priceEndpoint: '/api/v1/market/orderbook/level1'
-    },
-    cryptocompare: {
-      baseUrl: 'https://min-api.cryptocompare.com',
-      priceEndpoint: '/data/price'
     }
   },
 
-  // Pair mappings per exchange
+  // Pair mappings for bespoke providers (derived from the pair registry, read live)
   pairMappings: {
-    binance: {
-      'ETH/USD': 'ETHUSDT',
-      'BTC/USD': 'BTCUSDT',
-      'SOL/USD': 'SOLUSDT',
-      'AVAX/USD': 'AVAXUSDT',
-      'MATIC/USD': 'POLUSDT',
-      'DOT/USD': 'DOTUSDT',
-      'ATOM/USD': 'ATOMUSDT',
-      'LINK/USD': 'LINKUSDT',
-      'UNI/USD': 'UNIUSDT'
-    },
-    coinbase: {
-      'ETH/USD': 'ETH-USD',
-      'BTC/USD': 'BTC-USD',
-      'SOL/USD': 'SOL-USD',
-      'AVAX/USD': 'AVAX-USD',
-      'MATIC/USD': 'POL-USD',
-      'DOT/USD': 'DOT-USD',
-      'ATOM/USD': 'ATOM-USD',
-      'LINK/USD': 'LINK-USD',
-      'UNI/USD': 'UNI-USD'
-    },
-    kraken: {
-      'ETH/USD': 'ETHUSD',
-      'BTC/USD': 'XBTUSD',
-      'SOL/USD': 'SOLUSD',
-      'AVAX/USD': 'AVAXUSD',
-      'MATIC/USD': 'POLUSD',
-      'DOT/USD': 'DOTUSD',
-      'ATOM/USD': 'ATOMUSD',
-      'LINK/USD': 'LINKUSD',
-      'UNI/USD': 'UNIUSD'
-    },
-    huobi: {
-      'ETH/USD': 'ethusdt',
-      'BTC/USD': 'btcusdt',
-      'SOL/USD': 'solusdt',
-      'AVAX/USD': 'avaxusdt',
-      'MATIC/USD': 'polusdt',
-      'DOT/USD': 'dotusdt',
-      'ATOM/USD': 'atomusdt',
-      'LINK/USD': 'linkusdt',
-      'UNI/USD': 'uniusdt'
-    },
-    okex: {
-      'ETH/USD': 'ETH-USDT',
-      'BTC/USD': 'BTC-USDT',
-      'SOL/USD': 'SOL-USDT',
-      'AVAX/USD': 'AVAX-USDT',
-      'MATIC/USD': 'POL-USDT',
-      'DOT/USD': 'DOT-USDT',
-      'ATOM/USD': 'ATOM-USDT',
-      'LINK/USD': 'LINK-USDT',
-      'UNI/USD': 'UNI-USDT'
-    },
-    gateio: {
-      'ETH/USD': 'ETH_USDT',
-      'BTC/USD': 'BTC_USDT',
-      'ALEO/USD': 'ALEO_USDT',
-      'SOL/USD': 'SOL_USDT',
-      'AVAX/USD': 'AVAX_USDT',
-      'MATIC/USD': 'POL_USDT',
-      'DOT/USD': 'DOT_USDT',
-      'ATOM/USD': 'ATOM_USDT',
-      'LINK/USD': 'LINK_USDT',
-      'UNI/USD': 'UNI_USDT'
-    },
-    bybit: {
-      'ETH/USD': 'ETHUSDT',
-      'BTC/USD': 'BTCUSDT',
-      'SOL/USD': 'SOLUSDT',
-      'AVAX/USD': 'AVAXUSDT',
-      'MATIC/USD': 'POLUSDT',
-      'DOT/USD': 'DOTUSDT',
-      'ATOM/USD': 'ATOMUSDT',
-      'LINK/USD': 'LINKUSDT',
-      'UNI/USD': 'UNIUSDT'
-    },
-    kucoin: {
-      'ETH/USD': 'ETH-USDT',
-      'BTC/USD': 'BTC-USDT',
-      'SOL/USD': 'SOL-USDT',
-      'AVAX/USD': 'AVAX-USDT',
-      'MATIC/USD': 'POL-USDT',
-      'DOT/USD': 'DOT-USDT',
-      'ATOM/USD': 'ATOM-USDT',
-      'LINK/USD': 'LINK-USDT',
-      'UNI/USD': 'UNI-USDT'
-    }
-    // CoinGecko and CryptoCompare use direct symbol parsing
+    get coingecko() { return pairRegistry.getSymbolMap('coingecko'); }
+  },
+
+  // API keys and roles (reader < operator < admin), see services/apiKeys.ts.
+  // Comma-separated name:role:key entries; ADMIN_API_KEY below is also accepted as an admin key.
+  auth: {
+    apiKeys: process.env.API_KEYS || ''
+  },
+
+  // Per-IP and per-API-key rate limits (see services/rateLimiter.ts)
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    tiers: {
+      anonymous: { requestsPerMinute: 120, burst: 40 },   // Per IP
+      reader: { requestsPerMinute: 600, burst: 120 },     // Per key
+      operator: { requestsPerMinute: 1200, burst: 240 },
+      admin: null                                         // Unlimited
+    } as { [tier: string]: RateLimitTier | null },
+    // Key name -> tier, for keys that need a different quota than their role's, e.g. { 'partner-dex': 'operator' }
+    keyTiers: {} as { [keyName: string]: string },
+    // Expensive routes take more of the bucket (regex on the request path)
+    pathCosts: [
+      { pattern: '^/prices?/[^/]+/analysis$', cost: 10 },   // Stats, TWAP and candles for every window
+      { pattern: '^/prices?/[^/]+/(stats|metrics)$', cost: 5 },
+      { pattern: '^/prices?/[^/]+/(history|candles)$', cost: 3 },
+      { pattern: '^/verify$', cost: 3 }                      // Signature verification
+    ],
+    idleEvictMs: 600000,            // Forget callers idle for 10 minutes...
+    maxTracked: 10000,              // ...once this many are tracked
+    trustProxy: parseInt(process.env.TRUST_PROXY || '0')   // Proxy hops in front of the node (for client IPs)
+  },
+
+  // CORS: comma-separated allowed origins (empty = any)
+  corsOrigins: (process.env.CORS_ORIGINS || '').split(',').map(s => s.trim()).filter(Boolean),
+
+  // Admin API (runtime pair onboarding). ADMIN_API_KEY is an admin key; no key = admin API disabled.
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY || '',
+    minUpdateInterval: parseInt(process.env.PAIR_MIN_UPDATE_INTERVAL || '10000'),  // ms, passed to add_pair
+    jobsFile: process.env.PAIR_JOBS_FILE || './data/pair-jobs.json'
   },
 
   // Operator config (for signing - Phase 0 placeholder)
   operator: {
     address: process.env.OPERATOR_ADDRESS || 'aleo1placeholder',
     privateKey: process.env.OPERATOR_PRIVATE_KEY || ''
+  },
+
+  // Signer key management (see services/signerBackends.ts)
+  signer: {
+    current: {
+      backend: process.env.SIGNER_BACKEND || 'env',                // 'env' | 'keystore' | 'remote'
+      privateKey: process.env.OPERATOR_PRIVATE_KEY || '',
+      keystoreFile: process.env.SIGNER_KEYSTORE_FILE || './data/operator.keystore.json',
+      keystorePassphrase: process.env.SIGNER_KEYSTORE_PASSPHRASE || '',
+      socketPath: process.env.SIGNER_SOCKET || '/tmp/aleo-oracle-signer.sock',
+      timeoutMs: 5000
+    },
+    // Key rotation: the next key is announced (GET /operator) but prices keep being
+    // signed with the current key until cut-over. Empty backend = no rotation pending.
+    next: {
+      backend: process.env.NEXT_SIGNER_BACKEND || '',
+      privateKey: process.env.NEXT_OPERATOR_PRIVATE_KEY || '',
+      keystoreFile: process.env.NEXT_SIGNER_KEYSTORE_FILE || '',
+      keystorePassphrase: process.env.NEXT_SIGNER_KEYSTORE_PASSPHRASE || '',
+      socketPath: process.env.NEXT_SIGNER_SOCKET || '',
+      timeoutMs: 5000
+    },
+    rotationCutoverAt: parseInt(process.env.SIGNER_ROTATION_CUTOVER || '0')  // ms epoch; 0 = manual cut-over
   }
 };
 
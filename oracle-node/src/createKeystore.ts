@@ -0,0 +1,26 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from './config';
+import { KeystoreSignerBackend } from './services/signerBackends';
+
+/**
+ * Encrypt OPERATOR_PRIVATE_KEY with SIGNER_KEYSTORE_PASSPHRASE into
+ * SIGNER_KEYSTORE_FILE (or the path given as the first argument).
+ */
+const { privateKey, keystorePassphrase } = config.signer.current;
+const file = process.argv[2] || config.signer.current.keystoreFile;
+
+if (!privateKey || !keystorePassphrase) {
+  console.error('OPERATOR_PRIVATE_KEY and SIGNER_KEYSTORE_PASSPHRASE are required');
+  process.exit(1);
+}
+if (fs.existsSync(file)) {
+  console.error(`${file} already exists; refusing to overwrite`);
+  process.exit(1);
+}
+
+const keystore = KeystoreSignerBackend.encrypt(privateKey, keystorePassphrase);
+fs.mkdirSync(path.dirname(file), { recursive: true });
+fs.writeFileSync(file, JSON.stringify(keystore, null, 2) + '\n', { mode: 0o600 });
+console.log(`Keystore for ${keystore.address} written to ${file}`);
+console.log('Remove OPERATOR_PRIVATE_KEY from the environment and set SIGNER_BACKEND=keystore');
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeys, Principal, Role } from '../services/apiKeys';
+
+/**
+ * API key from `Authorization: Bearer <key>`, `X-API-Key` or the legacy `X-Admin-Key`
+ */
+export function getApiKey(req: Request): string {
+  const authorization = req.header('Authorization') || '';
+  if (authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+  return req.header('X-API-Key') || req.header('X-Admin-Key') || '';
+}
+
+/**
+ * Caller authenticated by requireRole, for handlers that record who acted
+ */
+export function getPrincipal(res: Response): Principal {
+  return res.locals.principal as Principal;
+}
+
+/**
+ * Require an API key with at least the given role. 503 when no keys are
+ * configured, 401 for a missing or unknown key, 403 for a lower role.
+ */
+export function requireRole(role: Role) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!apiKeys.isEnabled()) {
+      return res.status(503).json({ error: 'Authentication disabled (set API_KEYS or ADMIN_API_KEY)' });
+    }
+
+    const principal = apiKeys.authenticate(getApiKey(req));
+    if (!principal) {
+      return res.status(401).json({ error: 'Invalid or missing API key' });
+    }
+    if (!apiKeys.hasRole(principal, role)) {
+      return res.status(403).json({ error: `Requires ${role} role`, role: principal.role });
+    }
+
+    res.locals.principal = principal;
+    return next();
+  };
+}
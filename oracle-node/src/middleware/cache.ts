@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { config } from '../config';
+
+/**
+ * Set Cache-Control and an ETag derived from what the response depends on
+ * (pair, latest price, query...) rather than its body, so an unchanged
+ * response is answered before it is built. The ETag also rolls over every
+ * cacheMaxAgeMs, as trailing windows move even without new prices.
+ * Returns true when the client's copy is current and a 304 should be sent.
+ */
+export function notModified(req: Request, res: Response, parts: unknown[]): boolean {
+  const maxAgeMs = config.analytics.cacheMaxAgeMs;
+  const slot = Math.floor(Date.now() / maxAgeMs);
+  const digest = crypto
+    .createHash('sha1')
+    .update(JSON.stringify([req.path, ...parts, slot]))
+    .digest('base64url');
+
+  res.setHeader('ETag', `W/"${digest}"`);
+  res.setHeader('Cache-Control', `public, max-age=${Math.floor(maxAgeMs / 1000)}`);
+  return req.fresh;
+}
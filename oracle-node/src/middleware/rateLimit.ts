@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeys } from '../services/apiKeys';
+import { rateLimiter } from '../services/rateLimiter';
+import { getApiKey } from './auth';
+
+/**
+ * Throttle per API key (valid keys) or per client IP (everyone else). Over the
+ * limit: 429 with Retry-After. Expensive paths cost more than one request.
+ */
+export function rateLimit(req: Request, res: Response, next: NextFunction) {
+  if (!rateLimiter.isEnabled()) return next();
+
+  const principal = apiKeys.authenticate(getApiKey(req));
+  const identity = principal ? `key:${principal.name}` : `ip:${req.ip}`;
+  const tier = rateLimiter.tierFor(principal?.name ?? null, principal?.role ?? null);
+  const decision = rateLimiter.consume(identity, tier, rateLimiter.costOf(req.path));
+
+  if (Number.isFinite(decision.limit)) {
+    res.setHeader('X-RateLimit-Limit', decision.limit);
+    res.setHeader('X-RateLimit-Remaining', decision.remaining);
+  }
+
+  if (!decision.allowed) {
+    const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+    res.setHeader('Retry-After', retryAfterSeconds);
+    return res.status(429).json({
+      error: 'Rate limit exceeded',
+      tier,
+      retryAfterSeconds
+    });
+  }
+
+  return next();
+}
@@ -0,0 +1,347 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import registryFile from './pairs.json';
+
+// Largest pair id accepted by the contract's add_pair (MAX_PAIRS)
+const MAX_PAIR_ID = 50;
+
+// active: fetched, signed and served; paused: temporarily skipped; retired: permanently
+// removed (its pair id is never reused)
+export type PairStatus = 'active' | 'paused' | 'retired';
+
+// ratio: legs[0] / legs[1]; product: legs[0] * legs[1]; inverse: 1 / legs[0]
+export type DerivationOp = 'ratio' | 'product' | 'inverse';
+
+/**
+ * Formula over other pairs' aggregated prices, for markets few venues list
+ * directly (ETH/BTC = ETH/USD / BTC/USD). Legs must be non-derived pairs.
+ */
+export interface PairDerivation {
+  op: DerivationOp;
+  legs: string[];
+}
+
+const DERIVATION_ARITY: { [op in DerivationOp]: number } = { ratio: 2, product: 2, inverse: 1 };
+
+export interface PairDefinition {
+  pair: string;                           // e.g. 'ETH/USD'
+  pairId: number;                         // On-chain pair_id (u64)
+  base: string;
+  quote: string;
+  decimals: number;                       // Fixed-point decimals of the on-chain price
+  minSources: number;                     // Minimum agreeing sources to publish a price
+  symbols: { [provider: string]: string }; // Provider name -> venue symbol / coin id
+  status?: PairStatus;                     // Defaults to active
+  derived?: PairDerivation;                // Computed from other pairs; symbols is then empty
+}
+
+/**
+ * Rate fetched only as an input to aggregation (e.g. USDT/USD for converting
+ * USDT-quoted venues). Never signed or served, so it has no pair id.
+ */
+export interface ReferencePair {
+  pair: string;
+  base: string;
+  quote: string;
+  minSources: number;
+  symbols: { [provider: string]: string };
+}
+
+// Runtime changes made through the admin API, layered over pairs.json
+interface RuntimeOverlay {
+  pairs: PairDefinition[];
+  statuses: { [pair: string]: PairStatus };
+}
+
+/**
+ * Single source of truth for pair ids, assets, decimals, per-exchange symbols and
+ * min-source rules. Loaded from pairs.json and served at GET /pairs so the signer,
+ * relayer and frontend all use the same table.
+ *
+ * Pairs added, paused or retired at runtime are persisted to an overlay file
+ * (when one is configured) so they survive restarts.
+ */
+export class PairRegistry {
+  private byPair: Map<string, PairDefinition> = new Map();
+  private byId: Map<number, PairDefinition> = new Map();
+  private definitions: PairDefinition[] = [];
+  private overlay: RuntimeOverlay = { pairs: [], statuses: {} };
+  private references: Map<string, ReferencePair> = new Map();
+
+  constructor(
+    definitions: PairDefinition[],
+    private runtimeFile: string | null = null,
+    references: ReferencePair[] = []
+  ) {
+    for (const ref of references) {
+      this.references.set(ref.pair, ref);
+    }
+    for (const def of definitions) {
+      this.index({ ...def, status: def.status || 'active' });
+    }
+
+    if (runtimeFile && fs.existsSync(runtimeFile)) {
+      this.overlay = JSON.parse(fs.readFileSync(runtimeFile, 'utf8'));
+      for (const def of this.overlay.pairs) {
+        this.index(def);
+      }
+      for (const [pair, status] of Object.entries(this.overlay.statuses)) {
+        const def = this.byPair.get(pair);
+        if (def) def.status = status;
+      }
+    }
+  }
+
+  getPairs(): PairDefinition[] {
+    return this.definitions.map(def => ({ ...def, symbols: { ...def.symbols } }));
+  }
+
+  getDerivation(pair: string): PairDerivation | undefined {
+    return this.byPair.get(pair)?.derived;
+  }
+
+  // Active pairs only: the set that is fetched, signed and served
+  getSupportedPairs(): string[] {
+    return this.definitions.filter(def => def.status === 'active').map(def => def.pair);
+  }
+
+  /**
+   * Smallest pair id never used by any pair, including retired ones
+   */
+  getNextPairId(): number {
+    return this.definitions.reduce((max, def) => Math.max(max, def.pairId), 0) + 1;
+  }
+
+  /**
+   * Register a new pair at runtime. The caller is responsible for checking
+   * that providers can quote it before activating.
+   */
+  addPair(def: PairDefinition): void {
+    if (this.byPair.has(def.pair)) {
+      throw new Error(`Pair ${def.pair} already exists`);
+    }
+    if (this.byId.has(def.pairId)) {
+      throw new Error(`Pair id ${def.pairId} already used by ${this.byId.get(def.pairId)!.pair}`);
+    }
+    if (def.pairId < 1 || def.pairId > MAX_PAIR_ID) {
+      throw new Error(`Pair id ${def.pairId} outside 1..${MAX_PAIR_ID}`);
+    }
+    const symbolCount = Object.keys(def.symbols).length;
+    if (!def.derived && (!Number.isInteger(def.minSources) || def.minSources < 1 || def.minSources > symbolCount)) {
+      throw new Error(`minSources ${def.minSources} outside 1..${symbolCount} (provider symbols)`);
+    }
+
+    const stored = { ...def, symbols: { ...def.symbols }, status: def.status || 'paused' };
+    this.index(stored);
+    this.overlay.pairs.push(stored);
+    this.persist();
+  }
+
+  /**
+   * Remove a pair added at runtime that never went live (e.g. failed its quote probe)
+   */
+  removePendingPair(pair: string): void {
+    const def = this.byPair.get(pair);
+    if (!def || !this.overlay.pairs.some(p => p.pair === pair)) {
+      throw new Error(`Pair ${pair} was not added at runtime`);
+    }
+
+    this.byPair.delete(pair);
+    this.byId.delete(def.pairId);
+    this.definitions = this.definitions.filter(d => d.pair !== pair);
+    this.overlay.pairs = this.overlay.pairs.filter(p => p.pair !== pair);
+    delete this.overlay.statuses[pair];
+    this.persist();
+  }
+
+  setStatus(pair: string, status: PairStatus): void {
+    const def = this.byPair.get(pair);
+    if (!def) {
+      throw new Error(`Unknown pair ${pair}`);
+    }
+    if (def.status === 'retired') {
+      throw new Error(`Pair ${pair} is retired`);
+    }
+
+    def.status = status;
+    this.overlay.statuses[pair] = status;
+    this.persist();
+  }
+
+  getPair(pair: string): PairDefinition | undefined {
+    return this.byPair.get(pair);
+  }
+
+  getPairById(pairId: number): PairDefinition | undefined {
+    return this.byId.get(pairId);
+  }
+
+  // Returns 0 for unknown pairs (never a valid on-chain id)
+  getPairId(pair: string): number {
+    return this.byPair.get(pair)?.pairId || 0;
+  }
+
+  getStatus(pair: string): PairStatus | undefined {
+    return this.byPair.get(pair)?.status;
+  }
+
+  getMinSources(pair: string): number | undefined {
+    return this.byPair.get(pair)?.minSources;
+  }
+
+  getSymbol(provider: string, pair: string): string | undefined {
+    return (this.byPair.get(pair) || this.references.get(pair))?.symbols[provider];
+  }
+
+  getReferencePairs(): ReferencePair[] {
+    return [...this.references.values()];
+  }
+
+  getReferencePair(pair: string): ReferencePair | undefined {
+    return this.references.get(pair);
+  }
+
+  /**
+   * Pair -> symbol table for one provider (the shape of config.pairMappings entries).
+   * Includes reference rates so providers that batch or subscribe fetch them too.
+   */
+  getSymbolMap(provider: string): { [pair: string]: string } {
+    const map: { [pair: string]: string } = {};
+    for (const def of this.definitions) {
+      const symbol = def.symbols[provider];
+      if (symbol && def.status !== 'retired') {
+        map[def.pair] = symbol;
+      }
+    }
+    for (const ref of this.references.values()) {
+      if (ref.symbols[provider]) {
+        map[ref.pair] = ref.symbols[provider];
+      }
+    }
+    return map;
+  }
+
+  /**
+   * Content hash of the registry. Consumers compare it to detect a stale copy.
+   */
+  getVersion(): string {
+    const canonical = JSON.stringify(this.definitions.map(def => ({
+      ...def,
+      symbols: Object.keys(def.symbols).sort().reduce((acc, k) => ({ ...acc, [k]: def.symbols[k] }), {})
+    })));
+    return crypto.createHash('sha256').update(canonical).digest('hex').slice(0, 16);
+  }
+
+  /**
+   * Consistency check run at startup. Returns a list of problems; empty means valid.
+   */
+  validate(providerNames: string[], priceDecimals: number): string[] {
+    const errors: string[] = [];
+    const seenPairs = new Set<string>();
+    const seenIds = new Set<number>();
+
+    for (const def of this.definitions) {
+      if (seenPairs.has(def.pair)) errors.push(`${def.pair}: duplicate pair`);
+      seenPairs.add(def.pair);
+
+      if (seenIds.has(def.pairId)) errors.push(`${def.pair}: duplicate pairId ${def.pairId}`);
+      seenIds.add(def.pairId);
+
+      if (!Number.isInteger(def.pairId) || def.pairId < 1 || def.pairId > MAX_PAIR_ID) {
+        errors.push(`${def.pair}: pairId ${def.pairId} outside 1..${MAX_PAIR_ID}`);
+      }
+
+      if (def.pair !== `${def.base}/${def.quote}`) {
+        errors.push(`${def.pair}: does not match base/quote ${def.base}/${def.quote}`);
+      }
+
+      if (def.decimals !== priceDecimals) {
+        errors.push(`${def.pair}: decimals ${def.decimals} do not match price scale (${priceDecimals})`);
+      }
+
+      for (const provider of Object.keys(def.symbols)) {
+        if (!providerNames.includes(provider)) {
+          errors.push(`${def.pair}: symbol for unknown provider "${provider}"`);
+        }
+      }
+
+      if (def.derived) {
+        errors.push(...this.validateDerivation(def));
+        continue;
+      }
+
+      const quotable = providerNames.filter(name => def.symbols[name]).length;
+      if (def.minSources < 1 || quotable < def.minSources) {
+        errors.push(`${def.pair}: minSources ${def.minSources} but only ${quotable} providers can quote it`);
+      }
+    }
+
+    for (const ref of this.references.values()) {
+      if (this.byPair.has(ref.pair)) errors.push(`${ref.pair}: reference rate duplicates a pair`);
+
+      for (const provider of Object.keys(ref.symbols)) {
+        if (!providerNames.includes(provider)) {
+          errors.push(`${ref.pair}: symbol for unknown provider "${provider}"`);
+        }
+      }
+
+      const quotable = providerNames.filter(name => ref.symbols[name]).length;
+      if (ref.minSources < 1 || quotable < ref.minSources) {
+        errors.push(`${ref.pair}: minSources ${ref.minSources} but only ${quotable} providers can quote it`);
+      }
+    }
+
+    return errors;
+  }
+
+  private validateDerivation(def: PairDefinition): string[] {
+    const { op, legs } = def.derived!;
+    const errors: string[] = [];
+
+    if (!(op in DERIVATION_ARITY)) {
+      return [`${def.pair}: unknown derivation "${op}"`];
+    }
+    if (legs.length !== DERIVATION_ARITY[op]) {
+      errors.push(`${def.pair}: ${op} takes ${DERIVATION_ARITY[op]} legs, got ${legs.length}`);
+    }
+    if (Object.keys(def.symbols).length > 0) {
+      errors.push(`${def.pair}: derived pairs cannot list provider symbols`);
+    }
+    if (def.minSources < 1) {
+      errors.push(`${def.pair}: minSources ${def.minSources} must be at least 1`);
+    }
+
+    for (const leg of legs) {
+      const legDef = this.byPair.get(leg);
+      if (!legDef) {
+        errors.push(`${def.pair}: unknown leg ${leg}`);
+      } else if (legDef.derived) {
+        errors.push(`${def.pair}: leg ${leg} is itself derived`);
+      } else if (legDef.status === 'retired' && def.status !== 'retired') {
+        errors.push(`${def.pair}: leg ${leg} is retired`);
+      }
+    }
+
+    return errors;
+  }
+
+  private index(def: PairDefinition): void {
+    this.definitions.push(def);
+    this.byPair.set(def.pair, def);
+    this.byId.set(def.pairId, def);
+  }
+
+  private persist(): void {
+    if (!this.runtimeFile) return;
+    fs.mkdirSync(path.dirname(this.runtimeFile), { recursive: true });
+    fs.writeFileSync(this.runtimeFile, JSON.stringify(this.overlay, null, 2));
+  }
+}
+
+// Singleton instance loaded from pairs.json (pairs and reference rates) plus runtime changes
+export const pairRegistry = new PairRegistry(
+  registryFile.pairs as PairDefinition[],
+  process.env.PAIR_RUNTIME_FILE || './data/pairs.runtime.json',
+  registryFile.referenceRates as ReferencePair[]
+);
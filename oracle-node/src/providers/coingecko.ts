@@ -7,19 +7,10 @@ export class CoinGeckoProvider implements PriceProvider {
   name = 'coingecko';
   private baseUrl = config.exchanges.coingecko?.baseUrl || 'https://api.coingecko.com';
 
-  // CoinGecko uses coin IDs instead of symbols
-  private coinIds: { [key: string]: string } = {
-    'ETH/USD': 'ethereum',
-    'BTC/USD': 'bitcoin',
-    'ALEO/USD': 'aleo',
-    'SOL/USD': 'solana',
-    'AVAX/USD': 'avalanche-2',
-    'MATIC/USD': 'matic-network',
-    'DOT/USD': 'polkadot',
-    'ATOM/USD': 'cosmos',
-    'LINK/USD': 'chainlink',
-    'UNI/USD': 'uniswap'
-  };
+  // CoinGecko uses coin IDs instead of symbols (read live so runtime-added pairs are included)
+  private get coinIds(): { [key: string]: string } {
+    return config.pairMappings.coingecko;
+  }
 
   // Cache implementation to avoid rate limits
   private static cache: { timestamp: number; prices: { [key: string]: number } } | null = null;
@@ -3,6 +3,20 @@ export interface PriceResult {
   price: number;
   timestamp: number;
   source: string;
+  baseVolume?: number;    // 24h traded volume in base currency, when the venue reports it
+  quoteVolume?: number;   // 24h traded volume in quote currency, when the venue reports it
+  bid?: number;           // Best bid at fetch time
+  ask?: number;           // Best ask at fetch time
+  latencyMs?: number;     // Time the fetch took, set by the aggregator
+}
+
+/**
+ * Parse an optional numeric ticker field; returns undefined for missing or invalid values
+ */
+export function parseOptionalNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return isNaN(parsed) || parsed < 0 ? undefined : parsed;
 }
 
 export interface PriceProvider {
@@ -11,16 +25,15 @@ export interface PriceProvider {
   healthCheck(): Promise<boolean>;
 }
 
-// Original providers (Phase 0)
-export { BinanceProvider } from './binance';
-export { CoinbaseProvider } from './coinbase';
-export { KrakenProvider } from './kraken';
+// Generic REST ticker provider, configured per venue in venues.json
+export { RestProvider, RestProviderConfig, ResponseCheck, ResponsePath, KlineConfig, resolvePath } from './restProvider';
+
+// Historical candles from the venues' kline endpoints, for backfilling history
+export { Kline, fetchKlines, supportsKlines } from './klines';
+
+// WebSocket ticker feeds, used instead of REST for the venues in config.streaming.providers
+export { StreamingProvider, StreamingOptions, StreamQuote, StreamStatus, isStreamingProvider } from './streamingProvider';
+export { BinanceStream, CoinbaseStream, KrakenStream, OKXStream, BybitStream, createStreamingProvider, getStreamingVenues } from './streamingVenues';
 
-// New providers (Phase 1)
-export { HuobiProvider } from './huobi';
-export { OKExProvider } from './okex';
-export { GateIOProvider } from './gateio';
-export { BybitProvider } from './bybit';
+// Bespoke providers
 export { CoinGeckoProvider } from './coingecko';
-export { KuCoinProvider } from './kucoin';
-export { CryptoCompareProvider } from './cryptocompare';
@@ -0,0 +1,95 @@
+import axios from 'axios';
+import { parseOptionalNumber } from './index';
+import { RestProviderConfig, checksPass, fillParams, fillTemplate, resolvePath } from './restProvider';
+import { pairRegistry } from '../pairRegistry';
+
+// One historical candle's open time and close, as a venue reported it
+export interface Kline {
+  openTime: number;
+  close: number;
+}
+
+function formatTime(timestamp: number, format: 'ms' | 's' | 'iso' = 'ms'): string {
+  if (format === 'iso') return new Date(timestamp).toISOString();
+  return String(format === 's' ? Math.floor(timestamp / 1000) : timestamp);
+}
+
+/**
+ * Whether a venue can serve historical candles for a pair at an interval
+ */
+export function supportsKlines(venue: RestProviderConfig, pair: string, interval: string): boolean {
+  return !!venue.klines?.intervals[interval] && !!pairRegistry.getSymbol(venue.name, pair);
+}
+
+/**
+ * Closes of the candles opening in [start, end] (aligned to the interval), oldest
+ * first. Long ranges are fetched in pages of the venue's maxRows, one request at
+ * a time and at least minIntervalMs apart. Throws on a failed or invalid response.
+ */
+export async function fetchKlines(
+  venue: RestProviderConfig,
+  pair: string,
+  interval: string,
+  intervalMs: number,
+  start: number,
+  end: number
+): Promise<Kline[]> {
+  const spec = venue.klines;
+  const symbol = pairRegistry.getSymbol(venue.name, pair);
+  if (!spec || !spec.intervals[interval] || !symbol) return [];
+
+  const [base, quote] = pair.split('/');
+  // Venues with exclusive bounds get them widened by one unit of their time format
+  const pad = spec.exclusiveRange ? (spec.timeFormat === 's' ? 1000 : 1) : 0;
+  const closes: Map<number, number> = new Map();
+
+  for (let pageStart = start; pageStart <= end; pageStart += spec.maxRows * intervalMs) {
+    const pageEnd = Math.min(end, pageStart + (spec.maxRows - 1) * intervalMs);
+    const vars = {
+      symbol, base, quote,
+      interval: spec.intervals[interval],
+      start: formatTime(pageStart - pad, spec.timeFormat),
+      end: formatTime(pageEnd + pad, spec.timeFormat),
+      limit: String(spec.maxRows)
+    };
+
+    if (pageStart > start && venue.minIntervalMs) {
+      await new Promise(resolve => setTimeout(resolve, venue.minIntervalMs));
+    }
+
+    let data: unknown;
+    try {
+      const response = await axios.get(`${spec.baseUrl ?? venue.baseUrl}${fillTemplate(spec.endpoint, vars)}`, {
+        params: fillParams(spec.params, vars),
+        timeout: venue.timeoutMs ?? 5000
+      });
+      data = response.data;
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? (venue.errorMessagePath && resolvePath(error.response?.data, venue.errorMessagePath) as string) || error.message
+        : error instanceof Error ? error.message : String(error);
+      throw new Error(message);
+    }
+
+    const rows = spec.root ? resolvePath(data, spec.root) : data;
+    if (!checksPass(data, spec.checks) || !Array.isArray(rows)) {
+      throw new Error('Invalid klines response');
+    }
+
+    // Rows come newest or oldest first depending on the venue; key them by open time
+    for (const row of rows) {
+      const openTime = parseOptionalNumber(resolvePath(row, spec.openTime));
+      const close = parseOptionalNumber(resolvePath(row, spec.close));
+      if (openTime === undefined || close === undefined || close <= 0) continue;
+
+      const openMs = spec.openTimeUnit === 's' ? openTime * 1000 : openTime;
+      if (openMs >= pageStart && openMs <= pageEnd) {
+        closes.set(openMs, close);
+      }
+    }
+  }
+
+  return Array.from(closes.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([openTime, close]) => ({ openTime, close }));
+}
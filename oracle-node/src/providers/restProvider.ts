@@ -0,0 +1,215 @@
+import axios from 'axios';
+import { PriceProvider, PriceResult, parseOptionalNumber } from './index';
+import { pairRegistry } from '../pairRegistry';
+import { logger } from '../services/logger';
+
+/**
+ * Dot-separated path into a JSON response: `data.0.last`. A `*` segment picks the
+ * first value of an object (for responses keyed by a venue-specific name). An array
+ * of paths multiplies the values, e.g. base volume × VWAP for quote volume.
+ */
+export type ResponsePath = string | string[];
+
+// Response condition checked before parsing; a venue reporting an error in a 200 body
+export interface ResponseCheck {
+  path: string;
+  equals?: string | number | boolean;
+  notEquals?: string | number | boolean;
+  empty?: boolean;            // The value must be missing or an empty array
+}
+
+/**
+ * Historical candles endpoint, used to backfill history (see providers/klines.ts).
+ * Templates also get {interval} (the venue's name for it), {start} and {end}
+ * (first and last candle open time) and {limit}.
+ */
+export interface KlineConfig {
+  baseUrl?: string;                       // When candles are served from another host
+  endpoint: string;
+  params?: { [key: string]: string };
+  intervals: { [interval: string]: string };  // Candle interval (config.analytics) -> venue's name for it
+  timeFormat?: 'ms' | 's' | 'iso';        // Format of {start} and {end}; default ms
+  exclusiveRange?: boolean;               // The venue leaves out candles opening at {start} and {end}
+  maxRows: number;                        // Most candles per request
+  checks?: ResponseCheck[];
+  root?: string;                          // Candle array inside the body
+  openTime: string;                       // Paths inside one candle row
+  openTimeUnit?: 'ms' | 's';
+  close: string;
+}
+
+/**
+ * Declarative description of a REST ticker venue (see venues.json).
+ * `endpoint` and `params` values are templates: {symbol} (registry symbol for the
+ * venue), {base} and {quote} (pair assets).
+ */
+export interface RestProviderConfig {
+  name: string;                           // Provider name used in pairs.json symbols
+  label: string;                          // Display name in logs
+  baseUrl: string;
+  endpoint: string;
+  params?: { [key: string]: string };
+  timeoutMs?: number;                     // Default 5000
+  minIntervalMs?: number;                 // Rate limit: minimum spacing between requests
+  checks?: ResponseCheck[];
+  errorMessagePath?: string;              // Where an error response body carries its message
+  response: {
+    root?: string;                        // Ticker object inside the body
+    price: ResponsePath;
+    baseVolume?: ResponsePath;
+    quoteVolume?: ResponsePath;
+    bid?: ResponsePath;
+    ask?: ResponsePath;
+    timestamp?: ResponsePath;             // Quote time; fetch time when absent
+    timestampUnit?: 'ms' | 's';
+  };
+  healthCheck: {
+    endpoint: string;
+    params?: { [key: string]: string };
+    checks?: ResponseCheck[];
+  };
+  klines?: KlineConfig;                   // Venues without one are not used for backfill
+}
+
+/**
+ * Resolve a path in a parsed JSON body
+ */
+export function resolvePath(data: unknown, path: string): unknown {
+  let value: any = data;
+  for (const segment of path.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    value = segment === '*' ? Object.values(value)[0] : value[segment];
+  }
+  return value;
+}
+
+function readNumber(data: unknown, path: ResponsePath | undefined): number | undefined {
+  if (path === undefined) return undefined;
+
+  const paths = Array.isArray(path) ? path : [path];
+  let product = 1;
+  for (const p of paths) {
+    const value = parseOptionalNumber(resolvePath(data, p));
+    if (value === undefined) return undefined;
+    product *= value;
+  }
+  return product;
+}
+
+export function checksPass(data: unknown, checks: ResponseCheck[] = []): boolean {
+  return checks.every(check => {
+    const value = resolvePath(data, check.path);
+    if (check.empty) return value === undefined || (Array.isArray(value) && value.length === 0);
+    if (check.equals !== undefined) return value === check.equals;
+    if (check.notEquals !== undefined) return value !== check.notEquals;
+    return value !== undefined && value !== null && !(Array.isArray(value) && value.length === 0);
+  });
+}
+
+export function fillTemplate(template: string, vars: { [key: string]: string }): string {
+  return template.replace(/\{(\w+)\}/g, (match, key) => vars[key] ?? match);
+}
+
+export function fillParams(params: { [key: string]: string } | undefined, vars: { [key: string]: string }) {
+  if (!params) return undefined;
+  const filled: { [key: string]: string } = {};
+  for (const [key, value] of Object.entries(params)) {
+    filled[key] = fillTemplate(value, vars);
+  }
+  return filled;
+}
+
+/**
+ * Generic ticker provider: one GET per pair, parsed according to a RestProviderConfig
+ */
+export class RestProvider implements PriceProvider {
+  name: string;
+  private nextRequestAt = 0;
+
+  constructor(private venue: RestProviderConfig) {
+    this.name = venue.name;
+  }
+
+  async fetchPrice(pair: string): Promise<PriceResult | null> {
+    const { label, response: spec } = this.venue;
+
+    try {
+      const symbol = pairRegistry.getSymbol(this.name, pair);
+      if (!symbol) {
+        logger.warn(`${label}: Unsupported pair ${pair}`);
+        return null;
+      }
+
+      const [base, quote] = pair.split('/');
+      const vars = { symbol, base, quote };
+
+      await this.throttle();
+      const response = await axios.get(
+        `${this.venue.baseUrl}${fillTemplate(this.venue.endpoint, vars)}`,
+        {
+          params: fillParams(this.venue.params, vars),
+          timeout: this.venue.timeoutMs ?? 5000
+        }
+      );
+
+      if (!checksPass(response.data, this.venue.checks)) {
+        logger.warn(`${label}: Invalid response for ${pair}`);
+        return null;
+      }
+
+      const ticker = spec.root ? resolvePath(response.data, fillTemplate(spec.root, vars)) : response.data;
+      const pricePath = Array.isArray(spec.price) ? spec.price : fillTemplate(spec.price, vars);
+      const price = readNumber(ticker, pricePath);
+
+      if (price === undefined || price <= 0) {
+        logger.warn(`${label}: Invalid price for ${pair}`);
+        return null;
+      }
+
+      const quotedAt = readNumber(ticker, spec.timestamp);
+
+      return {
+        pair,
+        price,
+        timestamp: quotedAt !== undefined ? (spec.timestampUnit === 's' ? quotedAt * 1000 : quotedAt) : Date.now(),
+        source: this.name,
+        baseVolume: readNumber(ticker, spec.baseVolume),
+        quoteVolume: readNumber(ticker, spec.quoteVolume),
+        bid: readNumber(ticker, spec.bid),
+        ask: readNumber(ticker, spec.ask)
+      };
+    } catch (error) {
+      let errorMessage = 'Unknown error';
+      if (axios.isAxiosError(error)) {
+        const body = error.response?.data;
+        errorMessage = (this.venue.errorMessagePath && resolvePath(body, this.venue.errorMessagePath) as string) || error.message;
+      } else if (error instanceof Error) {
+        errorMessage = error.message;
+      }
+      logger.error(`${label}: Failed to fetch ${pair}: ${errorMessage}`);
+      return null;
+    }
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      const { endpoint, params, checks } = this.venue.healthCheck;
+      const response = await axios.get(`${this.venue.baseUrl}${endpoint}`, { params, timeout: 3000 });
+      return response.status === 200 && checksPass(response.data, checks);
+    } catch {
+      return false;
+    }
+  }
+
+  // Space requests at least minIntervalMs apart
+  private async throttle(): Promise<void> {
+    if (!this.venue.minIntervalMs) return;
+
+    const now = Date.now();
+    const wait = Math.max(0, this.nextRequestAt - now);
+    this.nextRequestAt = Math.max(now, this.nextRequestAt) + this.venue.minIntervalMs;
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+  }
+}
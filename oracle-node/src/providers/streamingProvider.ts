@@ -0,0 +1,270 @@
+import WebSocket from 'ws';
+import { PriceProvider, PriceResult } from './index';
+import { pairRegistry } from '../pairRegistry';
+import { logger } from '../services/logger';
+
+export interface StreamingOptions {
+  socketTimeoutMs: number;    // No message at all for this long = dead socket, reconnect
+  maxQuoteAgeMs: number;      // Cached quotes older than this are not served
+  reconnectBaseMs: number;    // First reconnect delay; doubles per failed attempt
+  reconnectMaxMs: number;
+  url?: string;               // Override the venue URL (tests)
+}
+
+// Latest ticker state for one venue symbol
+export interface StreamQuote {
+  symbol: string;
+  price: number;
+  timestamp: number;          // Venue event time when provided, else receipt time
+  baseVolume?: number;
+  quoteVolume?: number;
+  bid?: number;
+  ask?: number;
+}
+
+export interface StreamStatus {
+  name: string;
+  connected: boolean;
+  url: string;
+  subscriptions: string[];
+  cachedSymbols: number;
+  lastMessageAt: number | null;
+  reconnects: number;
+}
+
+/**
+ * Base for exchange WebSocket ticker feeds. Keeps one reconnecting socket,
+ * subscribes to every symbol the pair registry lists for the venue, and caches
+ * the latest quote per symbol. The aggregator reads the cache synchronously via
+ * getCachedPrice; a closed, silent or stale feed reads as a missing source.
+ */
+export abstract class StreamingProvider implements PriceProvider {
+  abstract readonly name: string;
+  protected abstract readonly defaultUrl: string;
+
+  // Application-level ping for venues that drop idle clients
+  protected keepAlive: { intervalMs: number; message: string } | null = null;
+
+  private socket: WebSocket | null = null;
+  private cache: Map<string, StreamQuote & { receivedAt: number }> = new Map();
+  private subscribed: Set<string> = new Set();
+  private running = false;
+  private reconnectAttempts = 0;
+  private reconnects = 0;
+  private lastMessageAt: number | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private keepAliveTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+
+  constructor(protected options: StreamingOptions) {}
+
+  // Venue subscribe frames for a batch of symbols
+  protected abstract subscribeMessages(symbols: string[]): string[];
+
+  // Quotes carried by one decoded message (none for acks, heartbeats, etc.)
+  protected abstract parseMessage(message: any): StreamQuote[];
+
+  // Symbol used on the stream; defaults to the registry (REST) symbol
+  protected streamSymbol(pair: string, registrySymbol: string): string {
+    return registrySymbol;
+  }
+
+  get url(): string {
+    return this.options.url || this.defaultUrl;
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+  }
+
+  stop(): void {
+    this.running = false;
+    this.clearTimers();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.removeAllListeners();
+    this.socket?.on('error', () => {});
+    this.socket?.terminate();
+    this.socket = null;
+    this.subscribed.clear();
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Latest quote for a pair, or null if the feed is down or the quote is stale
+   */
+  getCachedPrice(pair: string): PriceResult | null {
+    const registrySymbol = pairRegistry.getSymbol(this.name, pair);
+    if (!registrySymbol) return null;
+
+    const symbol = this.streamSymbol(pair, registrySymbol);
+    if (!this.subscribed.has(symbol) && this.isConnected()) {
+      // Pair onboarded after the socket opened
+      this.subscribe([symbol]);
+    }
+
+    const quote = this.cache.get(symbol);
+    if (!quote || !this.isConnected() || Date.now() - quote.receivedAt > this.options.maxQuoteAgeMs) {
+      return null;
+    }
+
+    return {
+      pair,
+      price: quote.price,
+      timestamp: quote.timestamp,
+      source: this.name,
+      baseVolume: quote.baseVolume,
+      quoteVolume: quote.quoteVolume,
+      bid: quote.bid,
+      ask: quote.ask
+    };
+  }
+
+  async fetchPrice(pair: string): Promise<PriceResult | null> {
+    return this.getCachedPrice(pair);
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.isConnected() && this.lastMessageAt !== null &&
+      Date.now() - this.lastMessageAt <= this.options.socketTimeoutMs;
+  }
+
+  getStatus(): StreamStatus {
+    return {
+      name: this.name,
+      connected: this.isConnected(),
+      url: this.url,
+      subscriptions: [...this.subscribed],
+      cachedSymbols: this.cache.size,
+      lastMessageAt: this.lastMessageAt,
+      reconnects: this.reconnects
+    };
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      logger.info(`${this.name} stream connected`);
+      this.reconnectAttempts = 0;
+      this.lastMessageAt = Date.now();
+      this.subscribed.clear();
+      this.subscribe(this.registrySymbols());
+
+      if (this.keepAlive) {
+        const { intervalMs, message } = this.keepAlive;
+        this.keepAliveTimer = setInterval(() => this.send(message), intervalMs);
+      }
+      this.watchdogTimer = setInterval(() => this.checkSilence(), Math.max(this.options.socketTimeoutMs / 2, 10));
+    });
+
+    socket.on('message', (data: WebSocket.RawData) => this.onMessage(data.toString()));
+    socket.on('ping', () => {
+      this.lastMessageAt = Date.now();
+    });
+
+    socket.on('error', (err: Error) => {
+      logger.warn(`${this.name} stream error: ${err.message}`);
+    });
+
+    socket.on('close', () => {
+      this.clearTimers();
+      if (this.socket === socket) {
+        this.socket = null;
+        this.scheduleReconnect();
+      }
+    });
+  }
+
+  private onMessage(raw: string): void {
+    const now = Date.now();
+    this.lastMessageAt = now;
+
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;   // Plain-text frames such as 'pong'
+    }
+
+    for (const quote of this.parseMessage(message)) {
+      if (quote.price > 0) {
+        this.cache.set(quote.symbol, { ...quote, receivedAt: now });
+      }
+    }
+  }
+
+  private subscribe(symbols: string[]): void {
+    const fresh = symbols.filter(s => !this.subscribed.has(s));
+    if (fresh.length === 0) return;
+
+    for (const frame of this.subscribeMessages(fresh)) {
+      this.send(frame);
+    }
+    fresh.forEach(s => this.subscribed.add(s));
+  }
+
+  private registrySymbols(): string[] {
+    const active = new Set([
+      ...pairRegistry.getSupportedPairs(),
+      ...pairRegistry.getReferencePairs().map(ref => ref.pair)
+    ]);
+    return Object.entries(pairRegistry.getSymbolMap(this.name))
+      .filter(([pair]) => active.has(pair))
+      .map(([pair, symbol]) => this.streamSymbol(pair, symbol));
+  }
+
+  private send(frame: string): void {
+    if (this.isConnected()) {
+      this.socket!.send(frame);
+    }
+  }
+
+  // A socket can stay open while the venue has stopped sending; treat it as dead
+  private checkSilence(): void {
+    if (this.lastMessageAt !== null && Date.now() - this.lastMessageAt > this.options.socketTimeoutMs) {
+      logger.warn(`${this.name} stream silent for ${Date.now() - this.lastMessageAt}ms, reconnecting`);
+      this.socket?.terminate();
+    }
+  }
+
+  private scheduleReconnect(): void {
+    if (!this.running) return;
+
+    const delay = Math.min(this.options.reconnectBaseMs * Math.pow(2, this.reconnectAttempts), this.options.reconnectMaxMs);
+    this.reconnectAttempts++;
+    this.reconnects++;
+    logger.info(`${this.name} stream reconnecting in ${delay}ms`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.running) this.connect();
+    }, delay);
+  }
+
+  private clearTimers(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+}
+
+/**
+ * Type guard for providers that serve from a stream cache
+ */
+export function isStreamingProvider(provider: PriceProvider): provider is StreamingProvider {
+  return provider instanceof StreamingProvider;
+}
@@ -0,0 +1,206 @@
+import { parseOptionalNumber } from './index';
+import { StreamingOptions, StreamingProvider, StreamQuote } from './streamingProvider';
+
+function num(value: unknown): number {
+  return parseOptionalNumber(value) ?? 0;
+}
+
+/**
+ * Binance 24h rolling ticker: <symbol>@ticker
+ */
+export class BinanceStream extends StreamingProvider {
+  readonly name = 'binance';
+  protected readonly defaultUrl = 'wss://stream.binance.com:9443/ws';
+  private requestId = 1;
+
+  protected subscribeMessages(symbols: string[]): string[] {
+    return [JSON.stringify({
+      method: 'SUBSCRIBE',
+      params: symbols.map(s => `${s.toLowerCase()}@ticker`),
+      id: this.requestId++
+    })];
+  }
+
+  protected parseMessage(message: any): StreamQuote[] {
+    if (message.e !== '24hrTicker') return [];
+    return [{
+      symbol: message.s,
+      price: num(message.c),
+      timestamp: message.E || Date.now(),
+      baseVolume: parseOptionalNumber(message.v),
+      quoteVolume: parseOptionalNumber(message.q),
+      bid: parseOptionalNumber(message.b),
+      ask: parseOptionalNumber(message.a)
+    }];
+  }
+}
+
+/**
+ * Coinbase Exchange ticker channel (one message per trade)
+ */
+export class CoinbaseStream extends StreamingProvider {
+  readonly name = 'coinbase';
+  protected readonly defaultUrl = 'wss://ws-feed.exchange.coinbase.com';
+
+  protected subscribeMessages(symbols: string[]): string[] {
+    return [JSON.stringify({ type: 'subscribe', product_ids: symbols, channels: ['ticker'] })];
+  }
+
+  protected parseMessage(message: any): StreamQuote[] {
+    if (message.type !== 'ticker') return [];
+    const price = num(message.price);
+    const baseVolume = parseOptionalNumber(message.volume_24h);
+    return [{
+      symbol: message.product_id,
+      price,
+      timestamp: message.time ? Date.parse(message.time) : Date.now(),
+      baseVolume,
+      quoteVolume: baseVolume !== undefined ? baseVolume * price : undefined,
+      bid: parseOptionalNumber(message.best_bid),
+      ask: parseOptionalNumber(message.best_ask)
+    }];
+  }
+}
+
+// Kraken v2 market names by the REST symbol kept in the registry. They follow
+// neither the REST names (XBTUSD) nor always ours (MATIC/USD trades as POL/USD).
+const KRAKEN_WS_SYMBOLS: { [restSymbol: string]: string } = {
+  ETHUSD: 'ETH/USD',
+  XBTUSD: 'BTC/USD',
+  SOLUSD: 'SOL/USD',
+  AVAXUSD: 'AVAX/USD',
+  POLUSD: 'POL/USD',
+  DOTUSD: 'DOT/USD',
+  ATOMUSD: 'ATOM/USD',
+  LINKUSD: 'LINK/USD',
+  UNIUSD: 'UNI/USD',
+  EURUSD: 'EUR/USD',
+  USDTZUSD: 'USDT/USD',
+  USDCUSD: 'USDC/USD'
+};
+
+/**
+ * Kraken WebSocket v2 ticker channel. v2 names markets "BASE/QUOTE" with its own
+ * asset codes, mapped from the registry's REST symbol by KRAKEN_WS_SYMBOLS.
+ */
+export class KrakenStream extends StreamingProvider {
+  readonly name = 'kraken';
+  protected readonly defaultUrl = 'wss://ws.kraken.com/v2';
+
+  protected streamSymbol(pair: string, registrySymbol: string): string {
+    const mapped = KRAKEN_WS_SYMBOLS[registrySymbol];
+    if (mapped) return mapped;
+
+    // Pairs onboarded at runtime: a REST altname is the base followed by the quote
+    const quote = pair.split('/')[1];
+    return registrySymbol.endsWith(quote) && registrySymbol.length > quote.length
+      ? `${registrySymbol.slice(0, -quote.length)}/${quote}`
+      : registrySymbol;
+  }
+
+  protected subscribeMessages(symbols: string[]): string[] {
+    return [JSON.stringify({ method: 'subscribe', params: { channel: 'ticker', symbol: symbols } })];
+  }
+
+  protected parseMessage(message: any): StreamQuote[] {
+    if (message.channel !== 'ticker' || !Array.isArray(message.data)) return [];
+    return message.data.map((t: any) => {
+      const baseVolume = parseOptionalNumber(t.volume);
+      const vwap = parseOptionalNumber(t.vwap);
+      return {
+        symbol: t.symbol,
+        price: num(t.last),
+        timestamp: Date.now(),
+        baseVolume,
+        quoteVolume: baseVolume !== undefined && vwap !== undefined ? baseVolume * vwap : undefined,
+        bid: parseOptionalNumber(t.bid),
+        ask: parseOptionalNumber(t.ask)
+      };
+    });
+  }
+}
+
+/**
+ * OKX v5 public tickers channel. Idle connections are closed after 30s, so a
+ * text 'ping' is sent periodically (answered with 'pong').
+ */
+export class OKXStream extends StreamingProvider {
+  readonly name = 'okex';
+  protected readonly defaultUrl = 'wss://ws.okx.com:8443/ws/v5/public';
+
+  constructor(options: StreamingOptions) {
+    super(options);
+    this.keepAlive = { intervalMs: 20000, message: 'ping' };
+  }
+
+  protected subscribeMessages(symbols: string[]): string[] {
+    return [JSON.stringify({ op: 'subscribe', args: symbols.map(instId => ({ channel: 'tickers', instId })) })];
+  }
+
+  protected parseMessage(message: any): StreamQuote[] {
+    if (message.arg?.channel !== 'tickers' || !Array.isArray(message.data)) return [];
+    return message.data.map((t: any) => ({
+      symbol: t.instId,
+      price: num(t.last),
+      timestamp: parseOptionalNumber(t.ts) ?? Date.now(),
+      baseVolume: parseOptionalNumber(t.vol24h),
+      quoteVolume: parseOptionalNumber(t.volCcy24h),
+      bid: parseOptionalNumber(t.bidPx),
+      ask: parseOptionalNumber(t.askPx)
+    }));
+  }
+}
+
+/**
+ * Bybit v5 spot tickers. Requires an application ping every 20s.
+ */
+export class BybitStream extends StreamingProvider {
+  readonly name = 'bybit';
+  protected readonly defaultUrl = 'wss://stream.bybit.com/v5/public/spot';
+
+  constructor(options: StreamingOptions) {
+    super(options);
+    this.keepAlive = { intervalMs: 20000, message: JSON.stringify({ op: 'ping' }) };
+  }
+
+  protected subscribeMessages(symbols: string[]): string[] {
+    // At most 10 topics per subscribe request
+    const frames: string[] = [];
+    for (let i = 0; i < symbols.length; i += 10) {
+      frames.push(JSON.stringify({ op: 'subscribe', args: symbols.slice(i, i + 10).map(s => `tickers.${s}`) }));
+    }
+    return frames;
+  }
+
+  protected parseMessage(message: any): StreamQuote[] {
+    if (typeof message.topic !== 'string' || !message.topic.startsWith('tickers.') || !message.data) return [];
+    const t = message.data;
+    return [{
+      symbol: t.symbol,
+      price: num(t.lastPrice),
+      timestamp: message.ts || Date.now(),
+      baseVolume: parseOptionalNumber(t.volume24h),
+      quoteVolume: parseOptionalNumber(t.turnover24h)
+    }];
+  }
+}
+
+const STREAMS: { [name: string]: new (options: StreamingOptions) => StreamingProvider } = {
+  binance: BinanceStream,
+  coinbase: CoinbaseStream,
+  kraken: KrakenStream,
+  okex: OKXStream,
+  bybit: BybitStream
+};
+
+/**
+ * Streaming implementation for a provider name, or null if the venue has none
+ */
+export function createStreamingProvider(name: string, options: StreamingOptions): StreamingProvider | null {
+  const Stream = STREAMS[name];
+  return Stream ? new Stream(options) : null;
+}
+
+export function getStreamingVenues(): string[] {
+  return Object.keys(STREAMS);
+}
@@ -0,0 +1,150 @@
+import { Router, Request, Response } from 'express';
+import { pairAdmin, PairOnboardingError, PairJobStatus } from '../services/pairAdmin';
+import { aleoSigner } from '../services/signer';
+import { historyBackfill, BackfillError } from '../services/historyBackfill';
+import { requireRole, getPrincipal } from '../middleware/auth';
+
+const router = Router();
+
+const JOB_STATUSES: PairJobStatus[] = ['pending', 'submitted', 'confirmed', 'failed'];
+
+function handleError(res: Response, context: string, error: unknown) {
+  if (error instanceof PairOnboardingError || error instanceof BackfillError) {
+    return res.status(error.statusCode).json({ error: error.message, ...error.details });
+  }
+  console.error(`Error ${context}:`, error);
+  return res.status(500).json({ error: 'Internal server error' });
+}
+
+// Every admin route needs an admin key
+router.use(requireRole('admin'));
+
+/**
+ * POST /admin/pairs
+ * Onboard a pair: body { base, quote, symbols: { provider: symbol }, pairId?, minSources? }.
+ * Activated only if at least minSources providers return a price; queues an add_pair job.
+ */
+router.post('/pairs', async (req: Request, res: Response) => {
+  try {
+    const result = await pairAdmin.onboardPair(req.body || {});
+    return res.status(201).json(result);
+  } catch (error) {
+    return handleError(res, 'onboarding pair', error);
+  }
+});
+
+/**
+ * POST /admin/pairs/:pair/pause
+ * Stop fetching, signing and serving a pair until resumed
+ */
+router.post('/pairs/:pair/pause', (req: Request, res: Response) => {
+  try {
+    const pair = req.params.pair.toUpperCase().replace('-', '/');
+    return res.json({ success: true, pair: pairAdmin.pausePair(pair) });
+  } catch (error) {
+    return handleError(res, 'pausing pair', error);
+  }
+});
+
+/**
+ * POST /admin/pairs/:pair/resume
+ */
+router.post('/pairs/:pair/resume', (req: Request, res: Response) => {
+  try {
+    const pair = req.params.pair.toUpperCase().replace('-', '/');
+    return res.json({ success: true, pair: pairAdmin.resumePair(pair) });
+  } catch (error) {
+    return handleError(res, 'resuming pair', error);
+  }
+});
+
+/**
+ * POST /admin/pairs/:pair/retire
+ * Permanently remove a pair; its pair id is never reused
+ */
+router.post('/pairs/:pair/retire', (req: Request, res: Response) => {
+  try {
+    const pair = req.params.pair.toUpperCase().replace('-', '/');
+    return res.json({ success: true, pair: pairAdmin.retirePair(pair) });
+  } catch (error) {
+    return handleError(res, 'retiring pair', error);
+  }
+});
+
+/**
+ * GET /admin/jobs?status=pending
+ * On-chain jobs for the relayer
+ */
+router.get('/jobs', (req: Request, res: Response) => {
+  const status = req.query.status as PairJobStatus | undefined;
+  if (status && !JOB_STATUSES.includes(status)) {
+    return res.status(400).json({ error: 'Invalid status', statuses: JOB_STATUSES });
+  }
+
+  return res.json({ jobs: pairAdmin.getJobs(status), timestamp: Date.now() });
+});
+
+/**
+ * POST /admin/jobs/:id
+ * Relayer reports job progress: body { status, txId?, error? }
+ */
+router.post('/jobs/:id', (req: Request, res: Response) => {
+  try {
+    const { status, txId, error } = req.body || {};
+    if (!JOB_STATUSES.includes(status)) {
+      return res.status(400).json({ error: 'Invalid status', statuses: JOB_STATUSES });
+    }
+
+    return res.json({ job: pairAdmin.updateJob(parseInt(req.params.id), { status, txId, error }) });
+  } catch (error) {
+    return handleError(res, 'updating job', error);
+  }
+});
+
+/**
+ * POST /admin/signer/cutover
+ * Start signing with the announced next key (before the scheduled cut-over, if any)
+ */
+router.post('/signer/cutover', (_req: Request, res: Response) => {
+  if (!aleoSigner.getNextOperatorAddress()) {
+    return res.status(409).json({ error: 'No key rotation pending' });
+  }
+
+  try {
+    return res.json({ success: true, rotation: aleoSigner.cutover() });
+  } catch (error) {
+    return handleError(res, 'cutting over signer', error);
+  }
+});
+
+/**
+ * POST /admin/backfill
+ * Seed history from exchange klines: body { pairs? } (default: every active pair).
+ * Runs in the background; poll GET /admin/backfill for the report.
+ */
+router.post('/backfill', (req: Request, res: Response) => {
+  const { pairs } = req.body || {};
+  if (pairs !== undefined && (!Array.isArray(pairs) || pairs.some(p => typeof p !== 'string'))) {
+    return res.status(400).json({ error: 'pairs must be an array of pair names' });
+  }
+
+  try {
+    historyBackfill.start(
+      pairs?.map((p: string) => p.toUpperCase().replace('-', '/')),
+      getPrincipal(res).name
+    );
+    return res.status(202).json({ run: historyBackfill.getStatus() });
+  } catch (error) {
+    return handleError(res, 'starting backfill', error);
+  }
+});
+
+/**
+ * GET /admin/backfill
+ * The backfill in progress, else the last one (null if none ran)
+ */
+router.get('/backfill', (_req: Request, res: Response) => {
+  return res.json({ running: historyBackfill.isRunning(), run: historyBackfill.getStatus() });
+});
+
+export default router;
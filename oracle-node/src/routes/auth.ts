@@ -0,0 +1,19 @@
+import { Router, Request, Response } from 'express';
+import { requireRole, getPrincipal } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * GET /auth/whoami
+ * Name and role of the presented API key (used by the dashboard to sign in)
+ */
+router.get('/whoami', requireRole('reader'), (_req: Request, res: Response) => {
+  const principal = getPrincipal(res);
+  return res.json({
+    name: principal.name,
+    role: principal.role,
+    timestamp: Date.now()
+  });
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
-import { priceAggregator, priceStore, aleoSigner } from '../services';
+import { priceAggregator, priceStore, aleoSigner, rateLimiter } from '../services';
 import { config } from '../config';
+import { requireRole } from '../middleware/auth';
 
 const router = Router();
 
@@ -24,6 +25,7 @@ router.get('/', async (_req: Request, res: Response) => {
     }
 
     const isHealthy = healthySources >= config.minSources;
+    const providerHealth = priceAggregator.getProviderHealth();
 
     return res.status(isHealthy ? 200 : 503).json({
       status: isHealthy ? 'healthy' : 'degraded',
@@ -33,9 +35,16 @@ router.get('/', async (_req: Request, res: Response) => {
         status: sourceStatus,
         healthy: healthySources,
         total: totalSources,
-        required: config.minSources
+        required: config.minSources,
+        quarantined: providerHealth.filter(p => p.status === 'quarantined').map(p => p.name),
+        probation: providerHealth.filter(p => p.status === 'probation').map(p => p.name)
       },
       prices: priceStatus,
+      referenceRates: priceAggregator.getReferenceRates(),
+      history: {
+        backend: priceStore.getBackendName(),
+        entries: priceStore.getHistoryCounts()
+      },
       config: {
         supportedPairs: config.supportedPairs,
         fetchInterval: config.fetchInterval,
@@ -52,13 +61,60 @@ router.get('/', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /health/providers
+ * Per-provider reliability: score, error/outlier/stale rates, latency and quarantine state
+ */
+router.get('/providers', (_req: Request, res: Response) => {
+  try {
+    const providers = priceAggregator.getProviderHealth();
+    return res.json({
+      providers,
+      healthy: providers.filter(p => p.status === 'healthy').length,
+      quarantined: providers.filter(p => p.status === 'quarantined').length,
+      probation: providers.filter(p => p.status === 'probation').length,
+      streams: priceAggregator.getStreamStatus(),
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Error fetching provider health:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * GET /health/rate-limits
+ * Rate limit tiers and usage per caller (requests, throttled, cost), busiest first (operator)
+ */
+router.get('/rate-limits', requireRole('operator'), (_req: Request, res: Response) => {
+  try {
+    const usage = rateLimiter.getUsage();
+    return res.json({
+      enabled: rateLimiter.isEnabled(),
+      tiers: rateLimiter.getConfig().tiers,
+      callers: usage.length,
+      throttled: usage.reduce((sum, u) => sum + u.throttled, 0),
+      usage,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Error fetching rate limit usage:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /operator
  * Get operator information
  */
 router.get('/operator', (_req: Request, res: Response) => {
+  const rotation = aleoSigner.getRotation();
   return res.json({
-    address: aleoSigner.getOperatorAddress(),
+    address: rotation.currentAddress,
+    signerBackend: rotation.backend,
+    // Announced key rotation: prices stay signed by `address` until cut-over
+    nextAddress: rotation.nextAddress,
+    rotationCutoverAt: rotation.cutoverAt,
     supportedPairs: config.supportedPairs,
     timestamp: Date.now()
   });
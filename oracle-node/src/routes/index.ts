@@ -1,2 +1,7 @@
 export { default as pricesRouter } from './prices';
 export { default as healthRouter } from './health';
+export { default as streamRouter } from './stream';
+export { default as pairsRouter } from './pairs';
+export { default as adminRouter } from './admin';
+export { default as verifyRouter } from './verify';
+export { default as authRouter } from './auth';
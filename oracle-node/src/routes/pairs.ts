@@ -0,0 +1,38 @@
+import { Router, Request, Response } from 'express';
+import { pairRegistry } from '../pairRegistry';
+
+const router = Router();
+
+/**
+ * GET /pairs
+ * Pair registry: ids, assets, decimals, per-exchange symbols and min-source rules
+ */
+router.get('/', (_req: Request, res: Response) => {
+  return res.json({
+    version: pairRegistry.getVersion(),
+    pairs: pairRegistry.getPairs(),
+    timestamp: Date.now()
+  });
+});
+
+/**
+ * GET /pairs/:pair
+ * Registry entry for a single pair (accepts ETH-USD or a numeric pair id)
+ */
+router.get('/:pair', (req: Request, res: Response) => {
+  const key = req.params.pair.toUpperCase().replace('-', '/');
+  const def = /^\d+$/.test(key)
+    ? pairRegistry.getPairById(parseInt(key))
+    : pairRegistry.getPair(key);
+
+  if (!def) {
+    return res.status(404).json({
+      error: 'Unknown pair',
+      supportedPairs: pairRegistry.getSupportedPairs()
+    });
+  }
+
+  return res.json({ version: pairRegistry.getVersion(), ...def });
+});
+
+export default router;
@@ -1,9 +1,45 @@
 import { Router, Request, Response } from 'express';
-import { priceStore, priceAggregator, aleoSigner, twapCalculator, circuitBreaker } from '../services';
+import { priceStore, priceAggregator, aleoSigner, twapCalculator, circuitBreaker, validateConfigUpdate, priceMessageLiteral, verifyStoredPrice } from '../services';
 import { config } from '../config';
+import { pairRegistry } from '../pairRegistry';
+import { requireRole, getPrincipal } from '../middleware/auth';
+import { notModified } from '../middleware/cache';
 
 const router = Router();
 
+// 503 for a pair whose prices are withheld by a hard circuit breaker halt
+function sendHalted(res: Response, pair: string) {
+  const cbState = circuitBreaker.getState_public(pair);
+  return res.status(503).json({
+    error: 'Circuit breaker halted',
+    pair,
+    circuitBreaker: {
+      isHalted: true,
+      severity: cbState.severity,
+      haltedAt: cbState.haltedAt,
+      haltUntil: cbState.haltUntil,
+      remainingMs: circuitBreaker.getRemainingHaltTime(pair),
+      reason: cbState.lastTripReason,
+      reasonCode: cbState.lastTripReasonCode,
+      tripCount: cbState.tripCount
+    }
+  });
+}
+
+// Circuit breaker block served with a price; a soft halt flags it
+function circuitBreakerSummary(pair: string) {
+  const cbState = circuitBreaker.getState_public(pair);
+  const isHalted = circuitBreaker.isHalted(pair);
+  return {
+    isHalted,
+    severity: cbState.severity,
+    flagged: isHalted && cbState.severity === 'soft',
+    tripCount: cbState.tripCount,
+    lastTripReason: cbState.lastTripReason,
+    lastTripReasonCode: cbState.lastTripReasonCode
+  };
+}
+
 /**
  * GET /price/:pair
  * Get latest signed price for a trading pair with TWAP data
@@ -19,34 +55,22 @@ router.get('/:pair', async (req: Request, res: Response) => {
       });
     }
 
-    // Check circuit breaker status first
-    const cbState = circuitBreaker.getState_public(pair);
-    if (cbState.isHalted) {
-      const remainingMs = circuitBreaker.getRemainingHaltTime(pair);
-      return res.status(503).json({
-        error: 'Circuit breaker halted',
-        pair,
-        circuitBreaker: {
-          isHalted: true,
-          haltedAt: cbState.haltedAt,
-          haltUntil: cbState.haltUntil,
-          remainingMs,
-          reason: cbState.lastTripReason,
-          tripCount: cbState.tripCount
-        }
-      });
+    // Hard halt: prices are withheld (the contract would reject them)
+    if (circuitBreaker.isWithheld(pair)) {
+      return sendHalted(res, pair);
     }
 
     let price = priceStore.getPrice(pair);
 
     // If no price or stale, fetch fresh
-    let signedData: any = null;
-
     if (!price || priceStore.isStale(pair, config.heartbeatInterval)) {
       const fresh = await priceAggregator.getAggregatedPrice(pair);
+      if (fresh && !fresh.circuitBreakerStatus.allowed) {
+        return sendHalted(res, pair);
+      }
       if (fresh) {
-        signedData = aleoSigner.signPrice(pair, fresh.scaledPrice, fresh.timestamp);
-        priceStore.setPrice(fresh, signedData.signature, signedData.publicKey);
+        const signed = await aleoSigner.signPrice(pair, fresh.scaledPrice, fresh.timestamp, fresh.sourceCount);
+        priceStore.setPrice(fresh, signed.signature, signed.operatorAddress);
         price = priceStore.getPrice(pair);
       }
     }
@@ -58,18 +82,17 @@ router.get('/:pair', async (req: Request, res: Response) => {
       });
     }
 
-    // Get fresh signed data if not already fetched
-    if (!signedData) {
-      signedData = aleoSigner.signPrice(pair, price.scaledPrice, price.timestamp);
+    // Serve the signature stored with this exact price; sign only if it has none
+    let signature = price.signature || '';
+    let operatorAddress = price.operatorAddress || aleoSigner.getOperatorAddress();
+    if (!signature && aleoSigner.isSigningEnabled()) {
+      const signed = await aleoSigner.signPrice(pair, price.scaledPrice, price.timestamp, price.sourceCount);
+      signature = signed.signature;
+      operatorAddress = signed.operatorAddress;
     }
 
-    // Calculate TWAP
-    const history = priceStore.getHistory(pair);
-    const twap = twapCalculator.calculateAllTWAPs(
-      pair,
-      history.map(h => ({ price: h.price, timestamp: h.timestamp })),
-      price.price
-    );
+    // TWAPs come from the rolling aggregates, no history scan
+    const twap = priceStore.getTWAPs(pair, price.price);
 
     return res.json({
       pair: price.pair,
@@ -78,15 +101,17 @@ router.get('/:pair', async (req: Request, res: Response) => {
       timestamp: price.timestamp,
       sources: price.sources,
       sourceCount: price.sourceCount,
-      signature: signedData.signature,
-      operatorAddress: signedData.publicKey,
-      // Extended signature data for on-chain verification
-      signatureR: signedData.signatureR,
-      signatureS: signedData.signatureS,
-      nonce: signedData.nonce,
-      messageHash: signedData.messageHash,
-      signatureVerified: true,
+      volume24h: price.volume24h ?? null,
+      // 0-10000 score and interval; not covered by the signature (PriceMessage is fixed on-chain)
+      confidence: price.confidence ?? null,
+      // Inputs of submit_signed_price: (pairId, scaledPrice, timestamp, sourceCount, signature)
+      pairId: pairRegistry.getPairId(pair),
+      signature: signature || null,
+      operatorAddress,
+      message: priceMessageLiteral(pairRegistry.getPairId(pair), price.scaledPrice, price.timestamp, price.sourceCount),
+      signatureVerified: verifyStoredPrice({ ...price, signature, operatorAddress }),
       twap: {
+        '5m': twap.twap5m,
         '1h': twap.twap1h,
         '24h': twap.twap24h,
         '7d': twap.twap7d,
@@ -94,10 +119,7 @@ router.get('/:pair', async (req: Request, res: Response) => {
         deviation24h: twap.deviation24h,
         dataPoints: twap.dataPoints
       },
-      circuitBreaker: {
-        isHalted: false,
-        tripCount: cbState.tripCount
-      }
+      circuitBreaker: circuitBreakerSummary(pair)
     });
   } catch (error) {
     console.error('Error fetching price:', error);
@@ -117,22 +139,15 @@ router.get('/', async (_req: Request, res: Response) => {
     for (const pair of config.supportedPairs) {
       if (!priceStore.getPrice(pair)) {
         const fresh = await priceAggregator.getAggregatedPrice(pair);
-        if (fresh) {
-          const signed = aleoSigner.signPrice(pair, fresh.scaledPrice, fresh.timestamp);
-          priceStore.setPrice(fresh, signed.signature, signed.publicKey);
+        if (fresh && fresh.circuitBreakerStatus.allowed) {
+          const signed = await aleoSigner.signPrice(pair, fresh.scaledPrice, fresh.timestamp, fresh.sourceCount);
+          priceStore.setPrice(fresh, signed.signature, signed.operatorAddress);
         }
       }
     }
 
     const prices = priceStore.getAllPrices().map(price => {
-      const history = priceStore.getHistory(price.pair);
-      const twap = twapCalculator.calculateAllTWAPs(
-        price.pair,
-        history.map(h => ({ price: h.price, timestamp: h.timestamp })),
-        price.price
-      );
-      const cbState = circuitBreaker.getState_public(price.pair);
-
+      const twap = priceStore.getTWAPs(price.pair, price.price);
       return {
         pair: price.pair,
         price: price.price,
@@ -140,10 +155,14 @@ router.get('/', async (_req: Request, res: Response) => {
         timestamp: price.timestamp,
         sources: price.sources,
         sourceCount: price.sourceCount,
+        confidence: price.confidence ?? null,
+        pairId: pairRegistry.getPairId(price.pair),
         signature: price.signature,
         operatorAddress: price.operatorAddress,
+        signatureVerified: verifyStoredPrice(price),
         age: Date.now() - price.timestamp,
         twap: {
+          '5m': twap.twap5m,
           '1h': twap.twap1h,
           '24h': twap.twap24h,
           '7d': twap.twap7d,
@@ -151,11 +170,7 @@ router.get('/', async (_req: Request, res: Response) => {
           deviation24h: twap.deviation24h,
           dataPoints: twap.dataPoints
         },
-        circuitBreaker: {
-          isHalted: cbState.isHalted,
-          tripCount: cbState.tripCount,
-          lastTripReason: cbState.lastTripReason
-        }
+        circuitBreaker: circuitBreakerSummary(price.pair)
       };
     });
 
@@ -217,6 +232,7 @@ router.get('/:pair/history', (req: Request, res: Response) => {
       })),
       count: history.length,
       twap: twap ? {
+        '5m': twap.twap5m,
         '1h': twap.twap1h,
         '24h': twap.twap24h,
         '7d': twap.twap7d
@@ -251,17 +267,16 @@ router.get('/:pair/twap', (req: Request, res: Response) => {
       });
     }
 
-    const history = priceStore.getHistory(pair);
-    const twap = twapCalculator.calculateAllTWAPs(
-      pair,
-      history.map(h => ({ price: h.price, timestamp: h.timestamp })),
-      currentPrice.price
-    );
+    const twap = priceStore.getTWAPs(pair, currentPrice.price);
 
     return res.json({
       pair,
       currentPrice: currentPrice.price,
       twap: {
+        '5m': {
+          value: twap.twap5m,
+          dataPoints: twap.dataPoints['5m']
+        },
         '1h': {
           value: twap.twap1h,
           deviation: twap.deviation1h,
@@ -305,11 +320,86 @@ router.get('/circuit-breaker/status', (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /circuit-breaker/events?pair=&limit=
+ * Audit log of trips, manual halts and resumes, newest first
+ */
+router.get('/circuit-breaker/events', (req: Request, res: Response) => {
+  try {
+    const pair = req.query.pair ? String(req.query.pair).toUpperCase().replace('-', '/') : undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 1000);
+
+    const events = circuitBreaker.getEvents(pair, limit);
+    return res.json({
+      pair: pair ?? null,
+      count: events.length,
+      events,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Error fetching circuit breaker events:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * PUT /circuit-breaker/config
+ * Change tiers, halt durations or per-pair overrides (admin). Body: any of
+ * { enabled, tiers, softHaltDurationMs, hardHaltDurationMs, pairOverrides }
+ */
+router.put('/circuit-breaker/config', requireRole('admin'), (req: Request, res: Response) => {
+  try {
+    const errors = validateConfigUpdate(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid circuit breaker config', details: errors });
+    }
+
+    circuitBreaker.updateConfig(req.body, getPrincipal(res).name);
+    return res.json({ success: true, config: circuitBreaker.getConfig() });
+  } catch (error) {
+    console.error('Error updating circuit breaker config:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+/**
+ * POST /circuit-breaker/:pair/halt
+ * Manually halt a pair (operator). Body: { reason?, severity?: 'soft' | 'hard' }
+ */
+router.post('/circuit-breaker/:pair/halt', requireRole('operator'), (req: Request, res: Response) => {
+  try {
+    const pair = req.params.pair.toUpperCase().replace('-', '/');
+
+    if (!config.supportedPairs.includes(pair)) {
+      return res.status(400).json({
+        error: 'Unsupported pair',
+        supportedPairs: config.supportedPairs
+      });
+    }
+
+    const severity = req.body?.severity ?? 'hard';
+    if (severity !== 'soft' && severity !== 'hard') {
+      return res.status(400).json({ error: 'severity must be soft or hard' });
+    }
+
+    circuitBreaker.forceHalt(pair, req.body?.reason || 'Manual halt', severity, getPrincipal(res).name);
+
+    return res.json({
+      success: true,
+      pair,
+      state: circuitBreaker.getState_public(pair)
+    });
+  } catch (error) {
+    console.error('Error halting circuit breaker:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * POST /circuit-breaker/:pair/resume
- * Manually resume a halted pair (admin only)
+ * Manually resume a halted pair (operator). Body: { reason? }
  */
-router.post('/circuit-breaker/:pair/resume', (req: Request, res: Response) => {
+router.post('/circuit-breaker/:pair/resume', requireRole('operator'), (req: Request, res: Response) => {
   try {
     const pair = req.params.pair.toUpperCase().replace('-', '/');
 
@@ -320,7 +410,7 @@ router.post('/circuit-breaker/:pair/resume', (req: Request, res: Response) => {
       });
     }
 
-    circuitBreaker.resume(pair);
+    circuitBreaker.resume(pair, getPrincipal(res).name, req.body?.reason ?? null);
 
     return res.json({
       success: true,
@@ -349,17 +439,10 @@ router.get('/:pair/stats', (req: Request, res: Response) => {
       });
     }
 
-    // Parse window to milliseconds
-    const windowMs: { [key: string]: number } = {
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000,
-      '24h': 24 * 60 * 60 * 1000,
-      '7d': 7 * 24 * 60 * 60 * 1000
-    };
-
-    const ms = windowMs[window] || windowMs['1h'];
+    const ms = config.analytics.statsWindows[window] || config.analytics.statsWindows['1h'];
+    if (notModified(req, res, [pair, window, priceStore.getPrice(pair)?.timestamp ?? null])) {
+      return res.status(304).end();
+    }
 
     const stats = priceStore.getStats(pair, ms);
     const trend = priceStore.getTrend(pair);
@@ -385,14 +468,60 @@ router.get('/:pair/stats', (req: Request, res: Response) => {
 });
 
 /**
- * GET /price/:pair/candles
- * Get OHLC candles for charting
+ * GET /price/:pair/metrics
+ * TWAP and EMA per window, and annualized realized, EWMA and Parkinson volatility
+ * (fractions: 0.5 = 50%) from candles
+ */
+router.get('/:pair/metrics', (req: Request, res: Response) => {
+  try {
+    const pair = req.params.pair.toUpperCase().replace('-', '/');
+
+    if (!config.supportedPairs.includes(pair)) {
+      return res.status(400).json({
+        error: 'Unsupported pair',
+        supportedPairs: config.supportedPairs
+      });
+    }
+
+    const currentPrice = priceStore.getPrice(pair);
+    if (!currentPrice) {
+      return res.status(503).json({
+        error: 'Price data not available',
+        pair
+      });
+    }
+
+    if (notModified(req, res, [pair, currentPrice.timestamp])) {
+      return res.status(304).end();
+    }
+
+    return res.json(priceStore.getMetrics(pair, currentPrice.price));
+  } catch (error) {
+    console.error('Error fetching metrics:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Epoch milliseconds or an ISO 8601 date; undefined when absent, NaN when unparseable
+function parseTime(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value);
+  return /^\d+$/.test(text) ? parseInt(text) : Date.parse(text);
+}
+
+/**
+ * GET /price/:pair/candles?interval=1h&from=&to=&limit=
+ * OHLC candles aligned to UTC boundaries, with gaps forward-filled and flagged
+ * synthetic. Without `from`: the latest `limit` candles up to `to` (default now).
+ * With `from`: pages forward; when `truncated`, continue from `to + intervalMs`.
  */
 router.get('/:pair/candles', (req: Request, res: Response) => {
   try {
     const pair = req.params.pair.toUpperCase().replace('-', '/');
     const interval = req.query.interval as string || '1m';
-    const limit = parseInt(req.query.limit as string) || 100;
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, config.analytics.maxCandles);
+    const from = parseTime(req.query.from);
+    const to = parseTime(req.query.to);
 
     if (!config.supportedPairs.includes(pair)) {
       return res.status(400).json({
@@ -401,23 +530,32 @@ router.get('/:pair/candles', (req: Request, res: Response) => {
       });
     }
 
-    // Parse interval to milliseconds
-    const intervalMs: { [key: string]: number } = {
-      '1m': 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000
-    };
+    const ms = config.analytics.candleIntervals[interval];
+    if (!ms) {
+      return res.status(400).json({
+        error: 'Unsupported interval',
+        supportedIntervals: Object.keys(config.analytics.candleIntervals)
+      });
+    }
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return res.status(400).json({ error: 'from and to must be epoch milliseconds or ISO 8601 dates' });
+    }
+
+    if (notModified(req, res, [pair, interval, limit, from ?? null, to ?? null, priceStore.getPrice(pair)?.timestamp ?? null])) {
+      return res.status(304).end();
+    }
 
-    const ms = intervalMs[interval] || intervalMs['1m'];
-    const candles = priceStore.getCandles(pair, ms, Math.min(limit, 500));
+    const page = priceStore.getCandles(pair, ms, { from, to, limit });
 
     return res.json({
       pair,
       interval,
-      candles,
-      count: candles.length,
+      intervalMs: ms,
+      from: page.from,
+      to: page.to,
+      truncated: page.truncated,
+      candles: page.candles,
+      count: page.candles.length,
       timestamp: Date.now()
     });
   } catch (error) {
@@ -426,6 +564,50 @@ router.get('/:pair/candles', (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /price/:pair/sources
+ * Per-exchange quotes behind the current price: raw and converted price, latency,
+ * deviation from the median, and whether each was included or why it was rejected
+ */
+router.get('/:pair/sources', (req: Request, res: Response) => {
+  try {
+    const pair = req.params.pair.toUpperCase().replace('-', '/');
+
+    if (!config.supportedPairs.includes(pair)) {
+      return res.status(400).json({
+        error: 'Unsupported pair',
+        supportedPairs: config.supportedPairs
+      });
+    }
+
+    const currentPrice = priceStore.getPrice(pair);
+    if (!currentPrice) {
+      return res.status(503).json({
+        error: 'Price data not available',
+        pair
+      });
+    }
+
+    const breakdown = currentPrice.sourceBreakdown || [];
+    const quotedBy = new Set(breakdown.map(q => q.source));
+    // Providers listing the pair that returned nothing (down, quarantined or no quote)
+    const missing = Object.keys(pairRegistry.getPair(pair)?.symbols || {}).filter(name => !quotedBy.has(name));
+
+    return res.json({
+      pair,
+      price: currentPrice.price,
+      timestamp: currentPrice.timestamp,
+      strategy: currentPrice.aggregation?.strategy || null,
+      sourceCount: currentPrice.sourceCount,
+      sources: breakdown,
+      missing
+    });
+  } catch (error) {
+    console.error('Error fetching price sources:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * GET /price/:pair/analysis
  * Get comprehensive analysis for a pair
@@ -449,6 +631,13 @@ router.get('/:pair/analysis', (req: Request, res: Response) => {
       });
     }
 
+    // Get circuit breaker state
+    const cbState = circuitBreaker.getState_public(pair);
+
+    if (notModified(req, res, [pair, currentPrice.timestamp, cbState.isHalted, cbState.severity, cbState.tripCount])) {
+      return res.status(304).end();
+    }
+
     // Get all time window stats
     const stats5m = priceStore.getStats(pair, 5 * 60 * 1000);
     const stats1h = priceStore.getStats(pair, 60 * 60 * 1000);
@@ -458,19 +647,11 @@ router.get('/:pair/analysis', (req: Request, res: Response) => {
     const trend = priceStore.getTrend(pair);
 
     // Get TWAP
-    const history = priceStore.getHistory(pair);
-    const twap = twapCalculator.calculateAllTWAPs(
-      pair,
-      history.map(h => ({ price: h.price, timestamp: h.timestamp })),
-      currentPrice.price
-    );
-
-    // Get circuit breaker state
-    const cbState = circuitBreaker.getState_public(pair);
+    const twap = priceStore.getTWAPs(pair, currentPrice.price);
 
     // Get candles for chart
-    const candles1m = priceStore.getCandles(pair, 60 * 1000, 60); // Last 60 minutes
-    const candles5m = priceStore.getCandles(pair, 5 * 60 * 1000, 100); // Last ~8 hours
+    const candles1m = priceStore.getCandles(pair, 60 * 1000, { limit: 60 }).candles; // Last 60 minutes
+    const candles5m = priceStore.getCandles(pair, 5 * 60 * 1000, { limit: 100 }).candles; // Last ~8 hours
 
     return res.json({
       pair,
@@ -481,8 +662,10 @@ router.get('/:pair/analysis', (req: Request, res: Response) => {
         sources: currentPrice.sources,
         sourceCount: currentPrice.sourceCount,
         signature: currentPrice.signature,
-        signatureVerified: !!currentPrice.signature
+        signatureVerified: verifyStoredPrice(currentPrice)
       },
+      // How the current price was derived: strategy, initial median, rejected sources, dispersion
+      aggregation: currentPrice.aggregation || null,
       stats: {
         '5m': stats5m,
         '1h': stats1h,
@@ -490,21 +673,25 @@ router.get('/:pair/analysis', (req: Request, res: Response) => {
       },
       trend,
       twap: {
+        '5m': { value: twap.twap5m },
         '1h': { value: twap.twap1h, deviation: twap.deviation1h },
         '24h': { value: twap.twap24h, deviation: twap.deviation24h },
         '7d': { value: twap.twap7d }
       },
       circuitBreaker: {
         isHalted: cbState.isHalted,
+        severity: cbState.severity,
         tripCount: cbState.tripCount,
         lastTripReason: cbState.lastTripReason,
-        config: circuitBreaker.getConfig()
+        lastTripReasonCode: cbState.lastTripReasonCode,
+        // Tiers and halt durations in effect for this pair
+        config: circuitBreaker.getPairConfig(pair)
       },
       charts: {
         candles1m,
         candles5m
       },
-      historyCount: history.length,
+      historyCount: twap.dataPoints['7d'],
       timestamp: Date.now()
     });
   } catch (error) {
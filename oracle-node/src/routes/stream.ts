@@ -0,0 +1,50 @@
+import { Router, Request, Response } from 'express';
+import { priceStream, priceStore } from '../services';
+import { config } from '../config';
+
+const router = Router();
+
+/**
+ * GET /stream?pairs=ETH-USD,BTC-USD
+ * Server-Sent Events stream of aggregated prices, circuit breaker events and heartbeats.
+ * Omit `pairs` to subscribe to every supported pair.
+ */
+router.get('/', (req: Request, res: Response) => {
+  let pairs: string[] | null = null;
+
+  if (typeof req.query.pairs === 'string' && req.query.pairs.length > 0) {
+    pairs = req.query.pairs
+      .split(',')
+      .map(p => p.trim().toUpperCase().replace('-', '/'))
+      .filter(p => p.length > 0);
+
+    const unsupported = pairs.filter(p => !config.supportedPairs.includes(p));
+    if (unsupported.length > 0) {
+      return res.status(400).json({
+        error: 'Unsupported pair',
+        unsupported,
+        supportedPairs: config.supportedPairs
+      });
+    }
+  }
+
+  priceStream.addClient(res, pairs);
+
+  // Send the latest known prices immediately so clients don't wait a full fetch interval
+  for (const price of priceStore.getAllPrices()) {
+    if (pairs && !pairs.includes(price.pair)) continue;
+    res.write(`event: snapshot\ndata: ${JSON.stringify({
+      pair: price.pair,
+      price: price.price,
+      scaledPrice: price.scaledPrice.toString(),
+      timestamp: price.timestamp,
+      sources: price.sources,
+      sourceCount: price.sourceCount,
+      confidence: price.confidence ?? null,
+      signature: price.signature,
+      operatorAddress: price.operatorAddress
+    })}\n\n`);
+  }
+});
+
+export default router;
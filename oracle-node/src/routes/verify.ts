@@ -0,0 +1,81 @@
+import { Router, Request, Response } from 'express';
+import { priceStore, aleoSigner } from '../services';
+import { verifyPriceSignature, parsePriceMessage, checkPriceMessage, PriceClaim } from '../services/priceVerifier';
+import { pairRegistry } from '../pairRegistry';
+
+const router = Router();
+
+/**
+ * POST /verify
+ * Check that a signature covers a price. Body:
+ *   { pair | pairId, price (scaled u128 string), timestamp, sourceCount, signature, operatorAddress? }
+ * or { message: '<PriceMessage literal>', signature, operatorAddress? }.
+ * operatorAddress defaults to this node's operator. If the signature was issued by
+ * this node, the response names the fields that differ from what was signed.
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const body = req.body || {};
+
+    if (!body.signature || typeof body.signature !== 'string') {
+      return res.status(400).json({ error: 'signature is required' });
+    }
+
+    const parsed = body.message ? parsePriceMessage(String(body.message)) : null;
+    if (body.message && !parsed) {
+      return res.status(400).json({ error: 'message is not a valid PriceMessage literal' });
+    }
+
+    const pair = body.pair ? String(body.pair).toUpperCase().replace('-', '/') : undefined;
+    const pairId = parsed?.pairId ?? (body.pairId !== undefined ? Number(body.pairId) : pairRegistry.getPairId(pair || ''));
+    const rawPrice = parsed?.price.toString() ?? body.price ?? body.scaledPrice;
+
+    if (!pairId || !/^\d+$/.test(String(rawPrice ?? ''))) {
+      return res.status(400).json({ error: 'pair or pairId and an integer scaled price are required' });
+    }
+
+    const claim: PriceClaim = {
+      pairId,
+      price: BigInt(rawPrice),
+      timestamp: parsed?.timestamp ?? Number(body.timestamp),
+      sourceCount: parsed?.sourceCount ?? Number(body.sourceCount),
+      signature: body.signature,
+      operatorAddress: body.operatorAddress || aleoSigner.getOperatorAddress()
+    };
+
+    // Values outside the PriceMessage field types can't be hashed
+    const invalid = checkPriceMessage(claim);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    // The record this node signed with the same signature, if any
+    const pairName = pairRegistry.getPairById(pairId)?.pair || pair;
+    const record = pairName
+      ? priceStore.getHistory(pairName).find(h => h.signature === claim.signature)
+      : undefined;
+    const reference = record && {
+      pairId: pairRegistry.getPairId(record.pair),
+      price: record.scaledPrice,
+      timestamp: record.timestamp,
+      sourceCount: record.sourceCount,
+      operatorAddress: record.operatorAddress || aleoSigner.getOperatorAddress()
+    };
+
+    const result = verifyPriceSignature(claim, reference);
+
+    return res.json({
+      ...result,
+      pair: pairName || null,
+      pairId,
+      operatorAddress: claim.operatorAddress,
+      signedByThisNode: !!record,
+      timestamp: Date.now()
+    });
+  } catch (error) {
+    console.error('Error verifying signature:', error);
+    return res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,13 +1,36 @@
 import express from 'express';
 import cors from 'cors';
 import { config } from './config';
-import { logger, priceAggregator, priceStore, aleoSigner } from './services';
-import { pricesRouter, healthRouter } from './routes';
+import { pairRegistry } from './pairRegistry';
+import { logger, priceAggregator, priceStore, aleoSigner, priceStream, circuitBreaker, CircuitBreakerState, historyBackfill } from './services';
+import { rateLimit } from './middleware/rateLimit';
+import { pricesRouter, healthRouter, streamRouter, pairsRouter, adminRouter, verifyRouter, authRouter } from './routes';
+
+// Refuse to start on an inconsistent pair registry: a wrong pair id or decimals
+// would have us sign prices the contract attributes to a different market
+const registryErrors = pairRegistry.validate(
+  priceAggregator.getProviderNames(),
+  config.priceScale.toString().length - 1
+);
+if (registryErrors.length > 0) {
+  for (const err of registryErrors) {
+    logger.error(`Pair registry: ${err}`);
+  }
+  logger.error('Pair registry is inconsistent, refusing to start');
+  process.exit(1);
+}
 
 const app = express();
 
+// Client IPs for rate limiting come from X-Forwarded-For only behind known proxies
+app.set('trust proxy', config.rateLimit.trustProxy);
+
 // Middleware
-app.use(cors());
+app.use(cors({
+  origin: config.corsOrigins.length > 0 ? config.corsOrigins : '*',
+  exposedHeaders: ['Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining']
+}));
+app.use(rateLimit);
 app.use(express.json());
 
 // Routes
@@ -15,6 +38,11 @@ app.use('/price', pricesRouter);
 app.use('/prices', pricesRouter);
 app.use('/health', healthRouter);
 app.use('/operator', healthRouter);
+app.use('/stream', streamRouter);
+app.use('/pairs', pairsRouter);
+app.use('/admin', adminRouter);
+app.use('/verify', verifyRouter);
+app.use('/auth', authRouter);
 
 // Root endpoint
 app.get('/', (_req, res) => {
@@ -22,17 +50,40 @@ app.get('/', (_req, res) => {
     name: 'Aleo Oracle Node',
     version: '1.0.0',
     operator: aleoSigner.getOperatorAddress(),
+    nextOperator: aleoSigner.getNextOperatorAddress(),
     endpoints: {
       'GET /price/:pair': 'Get latest signed price for a pair',
       'GET /prices': 'Get all supported pairs with latest prices',
       'GET /price/:pair/history': 'Get price history for a pair',
+      'GET /price/:pair/metrics': 'TWAP and EMA per window, realized, EWMA and Parkinson volatility',
+      'GET /price/:pair/sources': 'Per-exchange quotes behind the current price (included or rejected, with reason)',
+      'POST /verify': 'Verify that a signature covers a price (reports mismatched fields)',
+      'GET /pairs': 'Pair registry (ids, decimals, exchange symbols, min sources)',
+      'GET /stream?pairs=': 'Server-Sent Events stream of live prices and circuit breaker events',
+      'POST /admin/pairs': 'Onboard a pair at runtime (admin)',
+      'POST /admin/pairs/:pair/pause|resume|retire': 'Change a pair\'s status (admin)',
+      'GET /admin/jobs': 'On-chain jobs for the relayer (admin)',
+      'POST /admin/signer/cutover': 'Switch signing to the announced next key (admin)',
+      'POST /admin/backfill': 'Seed price history from exchange klines (admin)',
+      'GET /admin/backfill': 'Progress and report of the latest backfill (admin)',
+      'POST /price/circuit-breaker/:pair/halt|resume': 'Manually halt or resume a pair (operator)',
+      'PUT /price/circuit-breaker/config': 'Change circuit breaker tiers, durations and overrides (admin)',
+      'GET /auth/whoami': 'Name and role of the presented API key (Authorization: Bearer <key>)',
+      'GET /price/circuit-breaker/events?pair=': 'Circuit breaker audit log: trips, halts and resumes with actor and reason',
       'GET /health': 'Health check with source status',
+      'GET /health/providers': 'Provider reliability scores and quarantine state',
+      'GET /health/rate-limits': 'Rate limit tiers and per-caller usage counters (operator)',
       'GET /operator': 'Get operator information'
     },
-    supportedPairs: config.supportedPairs
+    supportedPairs: config.supportedPairs,
+    pairRegistryVersion: pairRegistry.getVersion()
   });
 });
 
+// Forward circuit breaker transitions to stream subscribers
+circuitBreaker.on('trip', (state: CircuitBreakerState) => priceStream.publishCircuitBreaker('trip', state));
+circuitBreaker.on('resume', (state: CircuitBreakerState) => priceStream.publishCircuitBreaker('resume', state));
+
 // Background price fetcher
 let fetchInterval: NodeJS.Timeout | null = null;
 
@@ -42,9 +93,15 @@ async function fetchPrices() {
   for (const pair of config.supportedPairs) {
     try {
       const price = await priceAggregator.getAggregatedPrice(pair);
+      // Hard halt: withhold the price, the contract would reject it anyway
+      if (price && !price.circuitBreakerStatus.allowed) {
+        logger.warn(`Withholding ${pair}: ${price.circuitBreakerStatus.reason}`);
+        continue;
+      }
       if (price) {
-        const signed = aleoSigner.signPrice(pair, price.scaledPrice, price.timestamp);
-        priceStore.setPrice(price, signed.signature, signed.publicKey);
+        const signed = await aleoSigner.signPrice(pair, price.scaledPrice, price.timestamp, price.sourceCount);
+        priceStore.setPrice(price, signed.signature, signed.operatorAddress);
+        priceStream.publishPrice(price, signed.signature, signed.operatorAddress);
       }
     } catch (error) {
       logger.error(`Failed to fetch ${pair}: ${error instanceof Error ? error.message : String(error)}`);
@@ -70,19 +127,34 @@ function stopBackgroundFetcher() {
 }
 
 // Start server
-const server = app.listen(config.port, () => {
+const server = app.listen(config.port, async () => {
   logger.info(`Oracle Node running on port ${config.port}`);
+  await aleoSigner.init();
   logger.info(`Operator address: ${aleoSigner.getOperatorAddress()}`);
   logger.info(`Supported pairs: ${config.supportedPairs.join(', ')}`);
 
-  // Start background fetcher
+  // Start exchange feeds, then the background fetcher
+  priceAggregator.startStreams();
   startBackgroundFetcher();
+  priceStream.startHeartbeat(config.stream.heartbeatIntervalMs);
+
+  // Fill the TWAP and stats windows of a fresh node alongside live fetching
+  if (config.backfill.onStartup) {
+    try {
+      historyBackfill.start(undefined, 'startup');
+    } catch (error) {
+      logger.error(`Startup backfill not started: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
 });
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down...');
   stopBackgroundFetcher();
+  priceAggregator.stopStreams();
+  priceStream.stopHeartbeat();
+  priceStream.closeAll();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -92,6 +164,9 @@ process.on('SIGTERM', () => {
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down...');
   stopBackgroundFetcher();
+  priceAggregator.stopStreams();
+  priceStream.stopHeartbeat();
+  priceStream.closeAll();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
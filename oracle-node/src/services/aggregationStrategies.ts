@@ -0,0 +1,328 @@
+import { PriceResult } from '../providers';
+
+export interface RejectedSource {
+  source: string;
+  price: number;
+  reason: string;
+  outlier: boolean;     // Too far from consensus; false when left out routinely (trimmed, depegged quote)
+}
+
+/**
+ * How one source's quote was converted into the pair's quote currency
+ * (e.g. an ETH/USDT venue price into USD via the USDT/USD reference rate)
+ */
+export interface QuoteConversion {
+  source: string;
+  quoteAsset: string;               // Currency the venue actually quotes in
+  rawPrice: number;                 // Venue price in quoteAsset
+  rate: number;                     // quoteAsset -> pair quote
+  price: number;                    // rawPrice * rate
+  rateStatus: 'direct' | 'reference' | 'assumed';  // assumed = no fresh reference rate, 1:1 used
+  depegged: boolean;                // Rate outside the flag threshold
+  excluded: boolean;                // Rate outside the exclude threshold; quote dropped
+}
+
+export interface AggregationDispersion {
+  stdDev: number;          // Standard deviation of all raw quotes
+  mad: number;             // Median absolute deviation of all raw quotes
+  spreadPercent: number;   // (max - min) / median * 100 of the included quotes
+}
+
+// Leg inputs of a derived pair (e.g. ETH/USD and BTC/USD for ETH/BTC)
+export interface DerivationDetails {
+  op: string;
+  legs: { pair: string; price: number; sourceCount: number; timestamp: number }[];
+}
+
+export interface AggregationDetails {
+  strategy: string;
+  price: number;
+  initialMedian: number;
+  included: string[];
+  rejected: RejectedSource[];
+  dispersion: AggregationDispersion;
+  weights?: { [source: string]: number };
+  quoteConversions?: QuoteConversion[];
+  derivation?: DerivationDetails;
+}
+
+export interface AggregationOptions {
+  outlierThreshold: number;                        // Max relative deviation from median
+  trimPercent: number;                             // Fraction trimmed from each end (trimmed mean)
+  madThreshold: number;                            // Scaled-MAD multiples tolerated (MAD filter)
+  sourceReliability: { [source: string]: number }; // Per-source weights (reliability weighting)
+}
+
+export interface AggregationStrategy {
+  name: string;
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails;
+}
+
+// ===== Shared math =====
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+
+  if (sorted.length % 2 === 0) {
+    return (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+  return sorted[mid];
+}
+
+/**
+ * Weighted median: the smallest value whose cumulative weight reaches half the total.
+ * Falls back to the plain median when no weight is positive.
+ */
+export function weightedMedian(values: number[], weights: number[]): number {
+  const pairs = values
+    .map((value, i) => ({ value, weight: Math.max(0, weights[i] || 0) }))
+    .sort((a, b) => a.value - b.value);
+  const total = pairs.reduce((sum, p) => sum + p.weight, 0);
+
+  if (total === 0) return median(values);
+
+  let cumulative = 0;
+  for (const p of pairs) {
+    cumulative += p.weight;
+    if (cumulative >= total / 2) {
+      return p.value;
+    }
+  }
+  return pairs[pairs.length - 1].value;
+}
+
+export function medianAbsoluteDeviation(values: number[], center: number = median(values)): number {
+  return median(values.map(v => Math.abs(v - center)));
+}
+
+function dispersion(all: number[], included: number[]): AggregationDispersion {
+  if (all.length === 0) {
+    return { stdDev: 0, mad: 0, spreadPercent: 0 };
+  }
+
+  const mean = all.reduce((a, b) => a + b, 0) / all.length;
+  const variance = all.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / all.length;
+  const center = median(included.length > 0 ? included : all);
+  const spread = included.length > 0 ? Math.max(...included) - Math.min(...included) : 0;
+
+  return {
+    stdDev: Math.sqrt(variance),
+    mad: medianAbsoluteDeviation(all),
+    spreadPercent: center > 0 ? (spread / center) * 100 : 0
+  };
+}
+
+function rejectByDeviation(results: PriceResult[], center: number, threshold: number): { kept: PriceResult[]; rejected: RejectedSource[] } {
+  const kept: PriceResult[] = [];
+  const rejected: RejectedSource[] = [];
+
+  for (const r of results) {
+    const deviation = center > 0 ? Math.abs(r.price - center) / center : 0;
+    if (deviation <= threshold) {
+      kept.push(r);
+    } else {
+      rejected.push({
+        source: r.source,
+        price: r.price,
+        reason: `Deviation ${(deviation * 100).toFixed(2)}% exceeds ${(threshold * 100).toFixed(2)}%`,
+        outlier: true
+      });
+    }
+  }
+
+  return { kept, rejected };
+}
+
+/**
+ * Weight each quote by its 24h quote volume. Quotes without volume get the
+ * smallest reported volume so a venue that omits it still counts, but can't dominate.
+ */
+function volumeWeights(results: PriceResult[]): { [source: string]: number } {
+  const reported = results.map(r => r.quoteVolume).filter((v): v is number => v !== undefined && v > 0);
+  const fallback = reported.length > 0 ? Math.min(...reported) : 1;
+
+  const weights: { [source: string]: number } = {};
+  for (const r of results) {
+    weights[r.source] = r.quoteVolume && r.quoteVolume > 0 ? r.quoteVolume : fallback;
+  }
+  return weights;
+}
+
+function buildDetails(
+  strategy: string,
+  results: PriceResult[],
+  kept: PriceResult[],
+  rejected: RejectedSource[],
+  price: number,
+  weights?: { [source: string]: number }
+): AggregationDetails {
+  const all = results.map(r => r.price);
+  return {
+    strategy,
+    price,
+    initialMedian: median(all),
+    included: kept.map(r => r.source),
+    rejected,
+    dispersion: dispersion(all, kept.map(r => r.price)),
+    weights
+  };
+}
+
+// ===== Strategies =====
+
+/**
+ * Plain median of every quote, no filtering
+ */
+export class MedianStrategy implements AggregationStrategy {
+  name = 'median';
+
+  aggregate(results: PriceResult[]): AggregationDetails {
+    return buildDetails(this.name, results, results, [], median(results.map(r => r.price)));
+  }
+}
+
+/**
+ * Median, drop quotes beyond the outlier threshold, median again (original behaviour)
+ */
+export class FilteredMedianStrategy implements AggregationStrategy {
+  name = 'filtered-median';
+
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails {
+    const initial = median(results.map(r => r.price));
+    const { kept, rejected } = rejectByDeviation(results, initial, options.outlierThreshold);
+    return buildDetails(this.name, results, kept, rejected, median(kept.map(r => r.price)));
+  }
+}
+
+/**
+ * Mean after discarding the lowest and highest `trimPercent` of quotes
+ */
+export class TrimmedMeanStrategy implements AggregationStrategy {
+  name = 'trimmed-mean';
+
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails {
+    const sorted = [...results].sort((a, b) => a.price - b.price);
+    const trim = Math.min(Math.floor(sorted.length * options.trimPercent), Math.floor((sorted.length - 1) / 2));
+    const kept = sorted.slice(trim, sorted.length - trim);
+    const rejected = [...sorted.slice(0, trim), ...sorted.slice(sorted.length - trim)].map(r => ({
+      source: r.source,
+      price: r.price,
+      reason: `Trimmed (${(options.trimPercent * 100).toFixed(0)}% from each end)`,
+      outlier: false
+    }));
+
+    const mean = kept.length > 0 ? kept.reduce((sum, r) => sum + r.price, 0) / kept.length : 0;
+    return buildDetails(this.name, results, kept, rejected, mean);
+  }
+}
+
+/**
+ * Drop outliers, then take the median weighted by each venue's 24h quote volume
+ */
+export class VolumeWeightedMedianStrategy implements AggregationStrategy {
+  name = 'volume-weighted-median';
+
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails {
+    const initial = median(results.map(r => r.price));
+    const { kept, rejected } = rejectByDeviation(results, initial, options.outlierThreshold);
+    const weights = volumeWeights(kept);
+
+    const price = weightedMedian(kept.map(r => r.price), kept.map(r => weights[r.source]));
+    return buildDetails(this.name, results, kept, rejected, price, weights);
+  }
+}
+
+/**
+ * Drop outliers, then take the volume-weighted mean of the remaining quotes (VWAP-style).
+ * A thinly traded venue moves the result in proportion to its share of volume.
+ */
+export class VwapStrategy implements AggregationStrategy {
+  name = 'vwap';
+
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails {
+    const initial = median(results.map(r => r.price));
+    const { kept, rejected } = rejectByDeviation(results, initial, options.outlierThreshold);
+    const weights = volumeWeights(kept);
+
+    const totalWeight = kept.reduce((sum, r) => sum + weights[r.source], 0);
+    const price = totalWeight > 0
+      ? kept.reduce((sum, r) => sum + r.price * weights[r.source], 0) / totalWeight
+      : median(kept.map(r => r.price));
+
+    return buildDetails(this.name, results, kept, rejected, price, weights);
+  }
+}
+
+/**
+ * Reject quotes more than `madThreshold` scaled MADs from the median, then median.
+ * More robust than a fixed percentage band when volatility changes.
+ */
+export class MadFilterStrategy implements AggregationStrategy {
+  name = 'mad';
+
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails {
+    const prices = results.map(r => r.price);
+    const center = median(prices);
+    // 1.4826 scales MAD to a standard-deviation estimate for normal data
+    const scaledMad = 1.4826 * medianAbsoluteDeviation(prices, center);
+
+    const kept: PriceResult[] = [];
+    const rejected: RejectedSource[] = [];
+    for (const r of results) {
+      const distance = Math.abs(r.price - center);
+      if (scaledMad === 0 || distance <= options.madThreshold * scaledMad) {
+        kept.push(r);
+      } else {
+        rejected.push({
+          source: r.source,
+          price: r.price,
+          reason: `${(distance / scaledMad).toFixed(2)} MADs from median exceeds ${options.madThreshold}`,
+          outlier: true
+        });
+      }
+    }
+
+    return buildDetails(this.name, results, kept, rejected, median(kept.map(r => r.price)));
+  }
+}
+
+/**
+ * Drop outliers, then take the median weighted by configured per-source reliability
+ */
+export class ReliabilityWeightedStrategy implements AggregationStrategy {
+  name = 'reliability-weighted';
+
+  aggregate(results: PriceResult[], options: AggregationOptions): AggregationDetails {
+    const initial = median(results.map(r => r.price));
+    const { kept, rejected } = rejectByDeviation(results, initial, options.outlierThreshold);
+
+    const weights: { [source: string]: number } = {};
+    for (const r of kept) {
+      weights[r.source] = options.sourceReliability[r.source] ?? 1;
+    }
+
+    const price = weightedMedian(kept.map(r => r.price), kept.map(r => weights[r.source]));
+    return buildDetails(this.name, results, kept, rejected, price, weights);
+  }
+}
+
+const STRATEGIES: AggregationStrategy[] = [
+  new MedianStrategy(),
+  new FilteredMedianStrategy(),
+  new TrimmedMeanStrategy(),
+  new VolumeWeightedMedianStrategy(),
+  new VwapStrategy(),
+  new MadFilterStrategy(),
+  new ReliabilityWeightedStrategy()
+];
+
+export function getAggregationStrategy(name: string): AggregationStrategy | undefined {
+  return STRATEGIES.find(s => s.name === name);
+}
+
+export function getAggregationStrategyNames(): string[] {
+  return STRATEGIES.map(s => s.name);
+}
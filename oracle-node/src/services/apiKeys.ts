@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { config } from '../config';
+import { logger } from './logger';
+
+// Each role can do everything the roles before it can
+export type Role = 'reader' | 'operator' | 'admin';
+export const ROLES: Role[] = ['reader', 'operator', 'admin'];
+
+export interface ApiKeyEntry {
+  name: string;                    // Recorded as the actor of audited actions
+  role: Role;
+  key: string;
+}
+
+export interface Principal {
+  name: string;
+  role: Role;
+}
+
+/**
+ * Parse API_KEYS: comma-separated name:role:key entries, e.g.
+ * "dashboard:operator:3f9a...,ops-alice:admin:77c1..."
+ */
+export function parseApiKeys(spec: string): ApiKeyEntry[] {
+  const entries: ApiKeyEntry[] = [];
+  for (const item of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const [name, role, ...rest] = item.split(':');
+    const key = rest.join(':');
+    if (!name || !key || !ROLES.includes(role as Role)) {
+      logger.warn(`Ignoring malformed API key entry "${name || item.slice(0, 8)}" (expected name:role:key, role one of ${ROLES.join('|')})`);
+      continue;
+    }
+    entries.push({ name, role: role as Role, key });
+  }
+  return entries;
+}
+
+const digest = (key: string) => crypto.createHash('sha256').update(key).digest();
+
+export class ApiKeyStore {
+  // Keys are only kept as digests, compared in constant time
+  private entries: { name: string; role: Role; digest: Buffer }[];
+
+  constructor(entries: ApiKeyEntry[]) {
+    this.entries = entries.map(e => ({ name: e.name, role: e.role, digest: digest(e.key) }));
+    if (this.entries.length > 0) {
+      logger.info(`API keys loaded: ${this.entries.map(e => `${e.name} (${e.role})`).join(', ')}`);
+    }
+  }
+
+  /**
+   * Whoever holds this key, or null for an unknown key
+   */
+  authenticate(key: string): Principal | null {
+    if (!key) return null;
+    const provided = digest(key);
+    let match: Principal | null = null;
+    // Check every entry so timing does not reveal which one matched
+    for (const entry of this.entries) {
+      if (crypto.timingSafeEqual(provided, entry.digest) && !match) {
+        match = { name: entry.name, role: entry.role };
+      }
+    }
+    return match;
+  }
+
+  hasRole(principal: Principal, required: Role): boolean {
+    return ROLES.indexOf(principal.role) >= ROLES.indexOf(required);
+  }
+
+  /**
+   * False when no keys are configured: protected routes are then disabled
+   */
+  isEnabled(): boolean {
+    return this.entries.length > 0;
+  }
+}
+
+// Singleton: API_KEYS, plus ADMIN_API_KEY as an admin key named "admin"
+export const apiKeys = new ApiKeyStore([
+  ...parseApiKeys(config.auth.apiKeys),
+  ...(config.admin.apiKey ? [{ name: 'admin', role: 'admin' as Role, key: config.admin.apiKey }] : [])
+]);
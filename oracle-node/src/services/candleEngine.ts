@@ -0,0 +1,200 @@
+export interface Candle {
+  timestamp: number;          // Bucket start, aligned to a UTC interval boundary
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;             // Estimated quote volume traded during the candle: the average 24h volume, pro-rated
+  volume24h: number | null;   // Sources' rolling 24h quote volume at the candle's close (null if none reported)
+  samples: number;            // Prices that landed in the bucket, 0 when synthetic
+  synthetic: boolean;         // No price landed: forward-filled from the previous close
+}
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+// Per bucket: sample times for placing late prices, and the 24h volumes behind `volume`
+interface BucketSamples {
+  first: number;
+  last: number;
+  volumeSum: number;
+  volumeCount: number;
+}
+
+export interface CandleQuery {
+  from?: number;              // First bucket: the one containing `from`
+  to?: number;                // Last bucket: the one containing `to` (default and cap: now)
+  limit?: number;
+}
+
+export interface CandlePage {
+  candles: Candle[];
+  from: number;               // Bounds of the buckets covered by this page
+  to: number;
+  truncated: boolean;         // The range held more than `limit` buckets; continue from `to + intervalMs`
+}
+
+/**
+ * Bucket start for a timestamp. Epoch milliseconds count from UTC midnight,
+ * so 1h, 4h and 1d buckets start on UTC hour and day boundaries.
+ */
+export function alignToInterval(timestamp: number, intervalMs: number): number {
+  return Math.floor(timestamp / intervalMs) * intervalMs;
+}
+
+/**
+ * OHLC buckets for one interval. Keeps the newest `retention` buckets and
+ * remembers from when its data is complete. Prices normally arrive in
+ * timestamp order; a late one is merged into its bucket.
+ */
+export class CandleSeries {
+  private buckets: Candle[] = [];
+  private samples: BucketSamples[] = [];
+
+  constructor(
+    readonly intervalMs: number,
+    private retention: number = Infinity,
+    private coveredFrom: number = -Infinity    // Buckets before this were never fed in
+  ) {}
+
+  add(timestamp: number, price: number, volume24h?: number): void {
+    const bucketTime = alignToInterval(timestamp, this.intervalMs);
+    const index = this.buckets.length - 1;
+    const last = this.buckets[index];
+
+    if (last && bucketTime < last.timestamp) {
+      this.addLate(bucketTime, timestamp, price, volume24h);
+      return;
+    }
+
+    if (last && last.timestamp === bucketTime) {
+      this.merge(index, timestamp, price, volume24h);
+      return;
+    }
+
+    this.insertBucket(this.buckets.length, bucketTime, timestamp, price, volume24h);
+  }
+
+  /**
+   * Whether every price since `timestamp` went into this series
+   */
+  covers(timestamp: number): boolean {
+    return alignToInterval(timestamp, this.intervalMs) >= this.coveredFrom;
+  }
+
+  /**
+   * Real candles with start in [from, to], plus the close before `from` to fill leading gaps
+   */
+  range(from: number, to: number): { candles: Candle[]; previousClose: number | null } {
+    const start = lowerBound(this.buckets, from);
+    const end = lowerBound(this.buckets, to + 1);
+    return {
+      candles: this.buckets.slice(start, end).map(c => ({ ...c })),
+      previousClose: start > 0 ? this.buckets[start - 1].close : null
+    };
+  }
+
+  // A price older than the newest bucket: merge it, or open a bucket between existing ones
+  private addLate(bucketTime: number, timestamp: number, price: number, volume24h?: number): void {
+    if (bucketTime < this.coveredFrom) return;
+    const index = lowerBound(this.buckets, bucketTime);
+    if (this.buckets[index]?.timestamp === bucketTime) {
+      this.merge(index, timestamp, price, volume24h);
+    } else {
+      this.insertBucket(index, bucketTime, timestamp, price, volume24h);
+    }
+  }
+
+  private merge(index: number, timestamp: number, price: number, volume24h?: number): void {
+    const candle = this.buckets[index];
+    const samples = this.samples[index];
+    candle.high = Math.max(candle.high, price);
+    candle.low = Math.min(candle.low, price);
+    if (timestamp < samples.first) {
+      candle.open = price;
+      samples.first = timestamp;
+    }
+    if (timestamp >= samples.last) {
+      candle.close = price;
+      candle.volume24h = volume24h ?? candle.volume24h;
+      samples.last = timestamp;
+    }
+    if (volume24h !== undefined) {
+      samples.volumeSum += volume24h;
+      samples.volumeCount++;
+      candle.volume = (samples.volumeSum / samples.volumeCount) * (this.intervalMs / ONE_DAY_MS);
+    }
+    candle.samples++;
+  }
+
+  private insertBucket(index: number, bucketTime: number, timestamp: number, price: number, volume24h?: number): void {
+    this.buckets.splice(index, 0, {
+      timestamp: bucketTime, open: price, high: price, low: price, close: price,
+      volume: (volume24h ?? 0) * (this.intervalMs / ONE_DAY_MS), volume24h: volume24h ?? null, samples: 1, synthetic: false
+    });
+    this.samples.splice(index, 0, {
+      first: timestamp, last: timestamp, volumeSum: volume24h ?? 0, volumeCount: volume24h === undefined ? 0 : 1
+    });
+    if (this.buckets.length > this.retention) {
+      const dropped = this.buckets.shift()!;
+      this.samples.shift();
+      this.coveredFrom = dropped.timestamp + this.intervalMs;
+    }
+  }
+}
+
+// Index of the first bucket starting at or after `timestamp`
+function lowerBound(buckets: Candle[], timestamp: number): number {
+  let lo = 0;
+  let hi = buckets.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (buckets[mid].timestamp < timestamp) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Candles from raw prices (sorted by timestamp), for ranges older than the in-memory series
+ */
+export function buildCandles(
+  prices: { timestamp: number; price: number; volume24h?: number }[],
+  intervalMs: number
+): Candle[] {
+  const series = new CandleSeries(intervalMs);
+  for (const p of prices) {
+    series.add(p.timestamp, p.price, p.volume24h);
+  }
+  return series.range(-Infinity, Infinity).candles;
+}
+
+/**
+ * One candle per bucket from `from` to `to` (both bucket starts). Empty buckets
+ * repeat the previous close as a flat synthetic candle; leading ones are only
+ * filled when a close before the range is known.
+ */
+export function fillGaps(
+  candles: Candle[],
+  intervalMs: number,
+  from: number,
+  to: number,
+  previousClose: number | null = null
+): Candle[] {
+  const filled: Candle[] = [];
+  let next = 0;
+  let close = previousClose;
+  let volume24h: number | null = null;
+
+  for (let t = from; t <= to; t += intervalMs) {
+    if (next < candles.length && candles[next].timestamp === t) {
+      const candle = candles[next++];
+      filled.push(candle);
+      close = candle.close;
+      volume24h = candle.volume24h;
+    } else if (close !== null) {
+      filled.push({ timestamp: t, open: close, high: close, low: close, close, volume: 0, volume24h, samples: 0, synthetic: true });
+    }
+  }
+
+  return filled;
+}
@@ -1,44 +1,155 @@
+import { EventEmitter } from 'events';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
 import { logger } from './logger';
 
+// soft: prices are still published but flagged; hard: prices are withheld
+export type HaltSeverity = 'soft' | 'hard';
+
+/**
+ * Trip reason codes, as stored in the contract's CircuitBreakerState.last_trip_reason.
+ * The contract raises 1 (1m move, hard halt) and 2 (1h move, soft halt); 3 and 4
+ * are only raised off-chain.
+ */
+export const TRIP_REASON_NONE = 0;
+export const TRIP_REASON_CHANGE_1M = 1;
+export const TRIP_REASON_CHANGE_1H = 2;
+export const TRIP_REASON_CHANGE_24H = 3;
+export const TRIP_REASON_MANUAL = 4;
+
+/**
+ * What a new price is compared against, as the contract does:
+ * - last: the last published price, if published within the window
+ *   (contract 1m check: last_price when last_timestamp is within 60s)
+ * - window-start: the price published at the start of the window, or the oldest
+ *   since if there is none that old. The contract's price_1h_ago instead shifts
+ *   once per on-chain update, so it only approximates this between rounds.
+ */
+export type TierReference = 'last' | 'window-start';
+
+// Maximum move allowed within a window, and the halt it triggers
+export interface CircuitBreakerTier {
+  name: string;                    // e.g. '1m'; used to key per-pair overrides
+  windowMs: number;
+  maxChangePercent: number;        // Fraction, e.g. 0.05 = 5% (contract: basis points)
+  severity: HaltSeverity;
+  reasonCode: number;
+  reference?: TierReference;       // Default window-start
+}
+
+export interface CircuitBreakerPairOverride {
+  enabled?: boolean;
+  softHaltDurationMs?: number;
+  hardHaltDurationMs?: number;
+  maxChangePercent?: { [tier: string]: number };  // Threshold per tier name
+}
+
 export interface CircuitBreakerConfig {
-  maxPriceChangePercent: number;   // Maximum allowed price change (e.g., 0.10 = 10%)
-  checkWindowMs: number;           // Time window to check for rapid changes (e.g., 60000 = 1 min)
-  haltDurationMs: number;          // How long to halt after breaker trips (e.g., 300000 = 5 min)
   enabled: boolean;
+  tiers: CircuitBreakerTier[];
+  softHaltDurationMs: number;
+  hardHaltDurationMs: number;
+  pairOverrides: { [pair: string]: CircuitBreakerPairOverride };
 }
 
+// Effective settings for one pair (global config with its override applied)
+export type PairCircuitBreakerConfig = Omit<CircuitBreakerConfig, 'pairOverrides'>;
+
 export interface CircuitBreakerState {
   pair: string;
-  isHalted: boolean;
+  isHalted: boolean;               // Any halt in effect
+  severity: HaltSeverity | null;   // Of the halt in effect
   haltedAt: number | null;
   haltUntil: number | null;
   lastPrice: number | null;
   lastPriceTimestamp: number | null;
-  tripCount: number;               // Number of times circuit has tripped
+  tripCount: number;               // Number of times circuit has tripped (soft + hard)
+  tripCountSoft: number;
+  tripCountHard: number;
   lastTripReason: string | null;
+  lastTripReasonCode: number;      // TRIP_REASON_* (contract last_trip_reason)
+}
+
+export type CircuitBreakerEventType = 'trip' | 'manual-halt' | 'auto-resume' | 'resume' | 'config-update';
+
+// Entry of the append-only audit log
+export interface CircuitBreakerEvent {
+  id: number;
+  timestamp: number;
+  pair: string;                    // '*' for config updates
+  type: CircuitBreakerEventType;
+  actor: string;                   // 'system' for automatic trips and resumes
+  reason: string | null;
+  severity: HaltSeverity | null;   // Of the halt started or ended
+  reasonCode: number;
+  haltUntil: number | null;
+}
+
+interface PriceSample {
+  price: number;
+  timestamp: number;
 }
 
+// Persisted across restarts: breaker states (with the last published price per
+// pair), the published prices the tier checks measure from, and config changes
+// made at runtime
+interface PersistedCircuitBreaker {
+  states: CircuitBreakerState[];
+  samples?: { [pair: string]: PriceSample[] };
+  configUpdates?: Partial<CircuitBreakerConfig>;
+}
+
+// Most recent events kept in memory for queries (the log file keeps everything)
+const MAX_CACHED_EVENTS = 1000;
+
+// Published prices are saved at most this often (halts and config changes are saved at once)
+const SAMPLE_PERSIST_INTERVAL_MS = 10000;
+// Saved samples are thinned to one per this interval; the latest is always kept
+const SAMPLE_PERSIST_SPACING_MS = 60000;
+
 export interface PriceCheckResult {
-  allowed: boolean;
+  allowed: boolean;                // False while hard halted: the price must not be published
+  flagged: boolean;                // Published under a soft halt
   reason?: string;
-  priceChange?: number;
+  reasonCode?: number;
+  priceChange?: number;            // Largest move from a tier's reference price
   state: CircuitBreakerState;
 }
 
+// Defaults mirror the contract's initial CircuitBreakerConfig
 const DEFAULT_CONFIG: CircuitBreakerConfig = {
-  maxPriceChangePercent: 0.10,     // 10% max change
-  checkWindowMs: 60000,            // 1 minute window
-  haltDurationMs: 300000,          // 5 minute halt
-  enabled: true
+  enabled: true,
+  tiers: [
+    { name: '1m', windowMs: 60000, maxChangePercent: 0.05, severity: 'hard', reasonCode: TRIP_REASON_CHANGE_1M, reference: 'last' },
+    { name: '1h', windowMs: 3600000, maxChangePercent: 0.15, severity: 'soft', reasonCode: TRIP_REASON_CHANGE_1H },
+    { name: '24h', windowMs: 86400000, maxChangePercent: 0.30, severity: 'soft', reasonCode: TRIP_REASON_CHANGE_24H }
+  ],
+  softHaltDurationMs: 300000,      // 5 minutes
+  hardHaltDurationMs: 900000,      // 15 minutes
+  pairOverrides: {}
 };
 
-export class CircuitBreaker {
+export class CircuitBreaker extends EventEmitter {
   private config: CircuitBreakerConfig;
   private states: Map<string, CircuitBreakerState> = new Map();
+  // Published prices per pair over the longest tier window, plus the last one before it
+  private samples: Map<string, PriceSample[]> = new Map();
+  private lastPersistAt = -Infinity;
+  private events: CircuitBreakerEvent[] = [];
+  private nextEventId = 1;
+  private configUpdates: Partial<CircuitBreakerConfig> = {};
 
-  constructor(config: Partial<CircuitBreakerConfig> = {}) {
+  constructor(
+    config: Partial<CircuitBreakerConfig> = {},
+    private stateFile: string | null = null,
+    private eventLogFile: string | null = null
+  ) {
+    super();
     this.config = { ...DEFAULT_CONFIG, ...config };
-    logger.info(`Circuit breaker initialized: ${this.config.maxPriceChangePercent * 100}% threshold, ${this.config.haltDurationMs / 1000}s halt duration`);
+    this.load();
+    const tiers = this.config.tiers.map(t => `${t.name} ${t.maxChangePercent * 100}% (${t.severity})`).join(', ');
+    logger.info(`Circuit breaker initialized: ${tiers}; halts ${this.config.softHaltDurationMs / 1000}s soft, ${this.config.hardHaltDurationMs / 1000}s hard`);
   }
 
   private getState(pair: string): CircuitBreakerState {
@@ -46,25 +157,31 @@ export class CircuitBreaker {
       this.states.set(pair, {
         pair,
         isHalted: false,
+        severity: null,
         haltedAt: null,
         haltUntil: null,
         lastPrice: null,
         lastPriceTimestamp: null,
         tripCount: 0,
-        lastTripReason: null
+        tripCountSoft: 0,
+        tripCountHard: 0,
+        lastTripReason: null,
+        lastTripReasonCode: TRIP_REASON_NONE
       });
     }
     return this.states.get(pair)!;
   }
 
   /**
-   * Check if a new price submission is allowed
-   * Returns whether the price update should proceed
+   * Check a new price against every tier. A hard breach halts the pair and the
+   * price is withheld; a soft breach halts it but the price is published, flagged.
    */
   checkPrice(pair: string, newPrice: number): PriceCheckResult {
-    if (!this.config.enabled) {
+    const settings = this.getPairConfig(pair);
+    if (!settings.enabled) {
       return {
         allowed: true,
+        flagged: false,
         reason: 'Circuit breaker disabled',
         state: this.getState(pair)
       };
@@ -73,109 +190,184 @@ export class CircuitBreaker {
     const state = this.getState(pair);
     const now = Date.now();
 
-    // Check if currently halted
-    if (state.isHalted && state.haltUntil) {
-      if (now < state.haltUntil) {
-        const remainingMs = state.haltUntil - now;
-        return {
-          allowed: false,
-          reason: `Circuit breaker halted. Resumes in ${Math.ceil(remainingMs / 1000)}s`,
-          state
-        };
-      } else {
-        // Halt period expired, resume
-        this.resume(pair);
-        logger.info(`Circuit breaker auto-resumed for ${pair}`);
-      }
+    // Halt period expired, resume
+    if (state.isHalted && state.haltUntil && now >= state.haltUntil) {
+      this.autoResume(pair);
     }
 
-    // If no previous price, allow this one
-    if (state.lastPrice === null || state.lastPriceTimestamp === null) {
-      this.updateLastPrice(pair, newPrice);
+    if (state.isHalted && state.severity === 'hard') {
+      const remainingMs = state.haltUntil! - now;
       return {
-        allowed: true,
-        reason: 'First price recorded',
-        state: this.getState(pair)
+        allowed: false,
+        flagged: false,
+        reason: `Circuit breaker halted. Resumes in ${Math.ceil(remainingMs / 1000)}s`,
+        reasonCode: state.lastTripReasonCode,
+        state
       };
     }
 
-    // Check if last price is within the check window
-    const timeSinceLastPrice = now - state.lastPriceTimestamp;
-    if (timeSinceLastPrice > this.config.checkWindowMs) {
-      // Last price is too old, reset and allow
-      this.updateLastPrice(pair, newPrice);
-      return {
-        allowed: true,
-        reason: 'Previous price outside check window',
-        state: this.getState(pair)
-      };
+    // Move from each tier's reference price; a hard breach outranks a soft one
+    let breach: { tier: CircuitBreakerTier; change: number } | null = null;
+    let priceChange: number | undefined;
+    for (const tier of settings.tiers) {
+      const change = this.changeFromReference(pair, newPrice, tier, now);
+      if (change === null) continue;
+      priceChange = Math.max(priceChange ?? 0, change);
+
+      if (change > tier.maxChangePercent && (!breach || (breach.tier.severity === 'soft' && tier.severity === 'hard'))) {
+        breach = { tier, change };
+      }
+    }
+
+    if (breach) {
+      const { tier, change } = breach;
+      const reason = `Price change of ${(change * 100).toFixed(2)}% within ${tier.name} exceeds ${(tier.maxChangePercent * 100).toFixed(2)}% threshold`;
+
+      if (tier.severity === 'hard') {
+        this.trip(pair, 'hard', tier.reasonCode, reason);
+        return {
+          allowed: false,
+          flagged: false,
+          reason: `Circuit breaker tripped: ${reason}`,
+          reasonCode: tier.reasonCode,
+          priceChange,
+          state: this.getState(pair)
+        };
+      }
+
+      // Already soft halted: keep the running halt rather than re-tripping every update
+      if (!state.isHalted) {
+        this.trip(pair, 'soft', tier.reasonCode, reason);
+      }
     }
 
-    // Calculate price change
-    const priceChange = Math.abs(newPrice - state.lastPrice) / state.lastPrice;
+    this.recordPrice(pair, newPrice, now);
 
-    // Check if price change exceeds threshold
-    if (priceChange > this.config.maxPriceChangePercent) {
-      // Trip the circuit breaker
-      this.trip(pair, `Price change of ${(priceChange * 100).toFixed(2)}% exceeds ${this.config.maxPriceChangePercent * 100}% threshold`);
+    if (state.isHalted) {
       return {
-        allowed: false,
-        reason: `Circuit breaker tripped: ${(priceChange * 100).toFixed(2)}% change exceeds threshold`,
+        allowed: true,
+        flagged: true,
+        reason: `Soft halt: ${state.lastTripReason}`,
+        reasonCode: state.lastTripReasonCode,
         priceChange,
         state: this.getState(pair)
       };
     }
 
-    // Price change is within acceptable range
-    this.updateLastPrice(pair, newPrice);
     return {
       allowed: true,
+      flagged: false,
+      reason: priceChange === undefined ? 'First price recorded' : undefined,
       priceChange,
       state: this.getState(pair)
     };
   }
 
+  // Relative move from the tier's reference price (see TierReference); null if there is none
+  private changeFromReference(pair: string, price: number, tier: CircuitBreakerTier, now: number): number | null {
+    const samples = this.samples.get(pair) || [];
+    const since = now - tier.windowMs;
+    let reference: PriceSample | undefined;
+
+    if (tier.reference === 'last') {
+      reference = samples[samples.length - 1];
+      if (reference && reference.timestamp < since) return null;
+    } else {
+      // Newest sample at or before the window start, else the oldest inside it
+      reference = samples[0];
+      for (const sample of samples) {
+        if (sample.timestamp > since) break;
+        reference = sample;
+      }
+    }
+
+    return reference ? Math.abs(price - reference.price) / reference.price : null;
+  }
+
   /**
    * Trip the circuit breaker for a pair
    */
-  private trip(pair: string, reason: string): void {
+  private trip(
+    pair: string,
+    severity: HaltSeverity,
+    reasonCode: number,
+    reason: string,
+    type: CircuitBreakerEventType = 'trip',
+    actor: string = 'system'
+  ): void {
     const state = this.getState(pair);
+    const settings = this.getPairConfig(pair);
     const now = Date.now();
 
     state.isHalted = true;
+    state.severity = severity;
     state.haltedAt = now;
-    state.haltUntil = now + this.config.haltDurationMs;
+    state.haltUntil = now + (severity === 'hard' ? settings.hardHaltDurationMs : settings.softHaltDurationMs);
     state.tripCount++;
+    if (severity === 'hard') state.tripCountHard++;
+    else state.tripCountSoft++;
     state.lastTripReason = reason;
+    state.lastTripReasonCode = reasonCode;
 
-    logger.warn(`CIRCUIT BREAKER TRIPPED for ${pair}: ${reason}. Halted until ${new Date(state.haltUntil).toISOString()}`);
+    logger.warn(`CIRCUIT BREAKER TRIPPED (${severity}) for ${pair}: ${reason}. Halted until ${new Date(state.haltUntil).toISOString()}`);
+    this.record(pair, type, actor, reason);
+    this.persist();
+    this.emit('trip', { ...state });
   }
 
   /**
    * Manually resume a halted pair
    */
-  resume(pair: string): void {
+  resume(pair: string, actor: string = 'system', reason: string | null = null): void {
+    this.record(pair, 'resume', actor, reason);
+    this.clearHalt(pair);
+    logger.info(`Circuit breaker resumed for ${pair} by ${actor}`);
+  }
+
+  // Halt period over
+  private autoResume(pair: string): void {
+    this.record(pair, 'auto-resume', 'system', 'Halt period expired');
+    this.clearHalt(pair);
+    logger.info(`Circuit breaker auto-resumed for ${pair}`);
+  }
+
+  private clearHalt(pair: string): void {
     const state = this.getState(pair);
     state.isHalted = false;
+    state.severity = null;
     state.haltedAt = null;
     state.haltUntil = null;
-    logger.info(`Circuit breaker resumed for ${pair}`);
+    this.persist();
+    this.emit('resume', { ...state });
   }
 
   /**
-   * Update the last known price for a pair
+   * Record a published price for later window checks
    */
-  private updateLastPrice(pair: string, price: number): void {
+  private recordPrice(pair: string, price: number, now: number): void {
     const state = this.getState(pair);
     state.lastPrice = price;
-    state.lastPriceTimestamp = Date.now();
+    state.lastPriceTimestamp = now;
+
+    // Keep the newest sample at or before the longest window's start: it is that tier's reference
+    const cutoff = now - Math.max(0, ...this.getPairConfig(pair).tiers.map(t => t.windowMs));
+    const samples = this.samples.get(pair) || [];
+    let first = 0;
+    while (first + 1 < samples.length && samples[first + 1].timestamp <= cutoff) first++;
+    const kept = samples.slice(first);
+    kept.push({ price, timestamp: now });
+    this.samples.set(pair, kept);
+
+    if (now - this.lastPersistAt >= SAMPLE_PERSIST_INTERVAL_MS) {
+      this.persist();
+    }
   }
 
   /**
    * Force halt a pair (admin action)
    */
-  forceHalt(pair: string, reason: string = 'Manual halt'): void {
-    this.trip(pair, reason);
+  forceHalt(pair: string, reason: string = 'Manual halt', severity: HaltSeverity = 'hard', actor: string = 'system'): void {
+    this.trip(pair, severity, TRIP_REASON_MANUAL, reason, 'manual-halt', actor);
   }
 
   /**
@@ -193,7 +385,7 @@ export class CircuitBreaker {
   }
 
   /**
-   * Check if a specific pair is halted
+   * Check if a specific pair is halted (soft or hard)
    */
   isHalted(pair: string): boolean {
     const state = this.getState(pair);
@@ -201,7 +393,7 @@ export class CircuitBreaker {
 
     if (state.isHalted && state.haltUntil) {
       if (now >= state.haltUntil) {
-        this.resume(pair);
+        this.autoResume(pair);
         return false;
       }
       return true;
@@ -209,6 +401,23 @@ export class CircuitBreaker {
     return false;
   }
 
+  /**
+   * Check if prices for a pair are being withheld (hard halt)
+   */
+  isWithheld(pair: string): boolean {
+    return this.isHalted(pair) && this.getState(pair).severity === 'hard';
+  }
+
+  /**
+   * Audit log entries, newest first, optionally for one pair
+   */
+  getEvents(pair?: string, limit: number = 100): CircuitBreakerEvent[] {
+    return this.events
+      .filter(event => !pair || event.pair === pair)
+      .slice(-limit)
+      .reverse();
+  }
+
   /**
    * Get remaining halt time in milliseconds
    */
@@ -221,11 +430,15 @@ export class CircuitBreaker {
   }
 
   /**
-   * Update configuration
+   * Update configuration (top-level keys are replaced). Kept across restarts
+   * and recorded in the event log.
    */
-  updateConfig(config: Partial<CircuitBreakerConfig>): void {
+  updateConfig(config: Partial<CircuitBreakerConfig>, actor: string = 'system'): void {
     this.config = { ...this.config, ...config };
-    logger.info(`Circuit breaker config updated: ${JSON.stringify(this.config)}`);
+    this.configUpdates = { ...this.configUpdates, ...config };
+    this.record('*', 'config-update', actor, `Updated ${Object.keys(config).join(', ')}`);
+    this.persist();
+    logger.info(`Circuit breaker config updated by ${actor}: ${JSON.stringify(this.config)}`);
   }
 
   /**
@@ -234,7 +447,195 @@ export class CircuitBreaker {
   getConfig(): CircuitBreakerConfig {
     return { ...this.config };
   }
+
+  // Append a state transition to the audit log (snapshot of the state at that point)
+  private record(pair: string, type: CircuitBreakerEventType, actor: string, reason: string | null): void {
+    const state = pair === '*' ? null : this.getState(pair);
+    const event: CircuitBreakerEvent = {
+      id: this.nextEventId++,
+      timestamp: Date.now(),
+      pair,
+      type,
+      actor,
+      reason,
+      severity: state?.severity ?? null,
+      reasonCode: state?.isHalted ? state.lastTripReasonCode : TRIP_REASON_NONE,
+      haltUntil: state?.haltUntil ?? null
+    };
+
+    this.events.push(event);
+    if (this.events.length > MAX_CACHED_EVENTS) {
+      this.events.splice(0, this.events.length - MAX_CACHED_EVENTS);
+    }
+
+    if (this.eventLogFile) {
+      fs.mkdirSync(path.dirname(this.eventLogFile), { recursive: true });
+      fs.appendFileSync(this.eventLogFile, JSON.stringify(event) + '\n');
+    }
+  }
+
+  private persist(): void {
+    if (!this.stateFile) return;
+    this.lastPersistAt = Date.now();
+    const samples: { [pair: string]: PriceSample[] } = {};
+    for (const [pair, pairSamples] of this.samples) {
+      samples[pair] = thinSamples(pairSamples, SAMPLE_PERSIST_SPACING_MS);
+    }
+    const data: PersistedCircuitBreaker = { states: this.getAllStates(), samples, configUpdates: this.configUpdates };
+    fs.mkdirSync(path.dirname(this.stateFile), { recursive: true });
+    // Write then rename, so a crash mid-write never leaves a truncated state file
+    const tmpFile = `${this.stateFile}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tmpFile, this.stateFile);
+  }
+
+  // Restore halts and trip counts, and the tail of the event log. Unreadable
+  // files are skipped with a warning rather than keeping the node from starting.
+  private load(): void {
+    const data = this.readStateFile();
+    if (data) {
+      if (data.configUpdates && Object.keys(data.configUpdates).length > 0) {
+        this.configUpdates = data.configUpdates;
+        this.config = { ...this.config, ...data.configUpdates };
+        logger.info(`Circuit breaker config changes restored: ${Object.keys(data.configUpdates).join(', ')}`);
+      }
+      for (const state of data.states) {
+        this.states.set(state.pair, state);
+        // Seed the tier checks with the saved samples, or at least the last published price
+        const samples = data.samples?.[state.pair];
+        if (samples && samples.length > 0) {
+          this.samples.set(state.pair, samples);
+        } else if (state.lastPrice !== null && state.lastPriceTimestamp !== null) {
+          this.samples.set(state.pair, [{ price: state.lastPrice, timestamp: state.lastPriceTimestamp }]);
+        }
+      }
+      const halted = data.states.filter(s => s.isHalted).map(s => `${s.pair} (${s.severity})`);
+      logger.info(`Circuit breaker state restored for ${data.states.length} pairs${halted.length > 0 ? `; halted: ${halted.join(', ')}` : ''}`);
+    }
+
+    if (this.eventLogFile && fs.existsSync(this.eventLogFile)) {
+      for (const line of fs.readFileSync(this.eventLogFile, 'utf8').split('\n')) {
+        if (!line.trim()) continue;
+        let event: CircuitBreakerEvent;
+        try {
+          event = JSON.parse(line);
+        } catch {
+          logger.warn(`Circuit breaker: skipping corrupt line in ${this.eventLogFile}`);
+          continue;
+        }
+        this.events.push(event);
+        this.nextEventId = Math.max(this.nextEventId, event.id + 1);
+      }
+      this.events = this.events.slice(-MAX_CACHED_EVENTS);
+    }
+  }
+
+  private readStateFile(): PersistedCircuitBreaker | null {
+    if (!this.stateFile || !fs.existsSync(this.stateFile)) return null;
+    try {
+      const data: PersistedCircuitBreaker = JSON.parse(fs.readFileSync(this.stateFile, 'utf8'));
+      return Array.isArray(data?.states) ? data : null;
+    } catch (error) {
+      logger.warn(`Circuit breaker: ignoring unreadable state file ${this.stateFile}: ${error instanceof Error ? error.message : error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Settings in effect for a pair, with its override applied
+   */
+  getPairConfig(pair: string): PairCircuitBreakerConfig {
+    const override = this.config.pairOverrides[pair] || {};
+    return {
+      enabled: override.enabled ?? this.config.enabled,
+      softHaltDurationMs: override.softHaltDurationMs ?? this.config.softHaltDurationMs,
+      hardHaltDurationMs: override.hardHaltDurationMs ?? this.config.hardHaltDurationMs,
+      tiers: this.config.tiers.map(tier => ({
+        ...tier,
+        maxChangePercent: override.maxChangePercent?.[tier.name] ?? tier.maxChangePercent
+      }))
+    };
+  }
+}
+
+// At most one sample per `spacingMs`, starting from the oldest, plus the latest
+function thinSamples(samples: PriceSample[], spacingMs: number): PriceSample[] {
+  const thinned: PriceSample[] = [];
+  for (const sample of samples) {
+    const previous = thinned[thinned.length - 1];
+    if (!previous || sample.timestamp - previous.timestamp >= spacingMs) thinned.push(sample);
+  }
+  const latest = samples[samples.length - 1];
+  if (latest && thinned[thinned.length - 1] !== latest) thinned.push(latest);
+  return thinned;
+}
+
+/**
+ * Problems with a config update (an empty list means it is valid)
+ */
+export function validateConfigUpdate(update: unknown): string[] {
+  if (!update || typeof update !== 'object' || Array.isArray(update)) {
+    return ['config update must be an object'];
+  }
+
+  const errors: string[] = [];
+  const known = ['enabled', 'tiers', 'softHaltDurationMs', 'hardHaltDurationMs', 'pairOverrides'];
+  const isDuration = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+  const isThreshold = (v: unknown) => typeof v === 'number' && v > 0 && v < 1;
+  const u = update as { [key: string]: unknown };
+
+  for (const key of Object.keys(u)) {
+    if (!known.includes(key)) errors.push(`unknown field ${key}`);
+  }
+  if ('enabled' in u && typeof u.enabled !== 'boolean') {
+    errors.push('enabled must be a boolean');
+  }
+  for (const key of ['softHaltDurationMs', 'hardHaltDurationMs']) {
+    if (key in u && !isDuration(u[key])) errors.push(`${key} must be a positive number`);
+  }
+
+  if ('tiers' in u) {
+    if (!Array.isArray(u.tiers) || u.tiers.length === 0) {
+      errors.push('tiers must be a non-empty array');
+    } else {
+      u.tiers.forEach((tier: Partial<CircuitBreakerTier>, i: number) => {
+        if (!tier || typeof tier.name !== 'string' || !tier.name) errors.push(`tiers[${i}]: name required`);
+        if (!isDuration(tier?.windowMs)) errors.push(`tiers[${i}]: windowMs must be a positive number`);
+        if (!isThreshold(tier?.maxChangePercent)) errors.push(`tiers[${i}]: maxChangePercent must be a fraction between 0 and 1`);
+        if (tier?.severity !== 'soft' && tier?.severity !== 'hard') errors.push(`tiers[${i}]: severity must be soft or hard`);
+        if (!Number.isInteger(tier?.reasonCode) || tier.reasonCode! < 1 || tier.reasonCode! > 255) {
+          errors.push(`tiers[${i}]: reasonCode must be a u8 above 0`);
+        }
+        if (tier?.reference !== undefined && tier.reference !== 'last' && tier.reference !== 'window-start') {
+          errors.push(`tiers[${i}]: reference must be last or window-start`);
+        }
+      });
+    }
+  }
+
+  if ('pairOverrides' in u) {
+    if (!u.pairOverrides || typeof u.pairOverrides !== 'object') {
+      errors.push('pairOverrides must be an object');
+    } else {
+      for (const [pair, override] of Object.entries(u.pairOverrides as { [pair: string]: CircuitBreakerPairOverride })) {
+        if (!override || typeof override !== 'object') {
+          errors.push(`${pair}: override must be an object`);
+          continue;
+        }
+        if ('enabled' in override && typeof override.enabled !== 'boolean') errors.push(`${pair}: enabled must be a boolean`);
+        for (const key of ['softHaltDurationMs', 'hardHaltDurationMs'] as const) {
+          if (key in override && !isDuration(override[key])) errors.push(`${pair}: ${key} must be a positive number`);
+        }
+        for (const [tier, threshold] of Object.entries(override.maxChangePercent || {})) {
+          if (!isThreshold(threshold)) errors.push(`${pair}: maxChangePercent.${tier} must be a fraction between 0 and 1`);
+        }
+      }
+    }
+  }
+
+  return errors;
 }
 
-// Singleton instance with default config
-export const circuitBreaker = new CircuitBreaker();
+// Singleton instance configured from config.circuitBreaker
+const { stateFile, eventLogFile, ...breakerConfig } = config.circuitBreaker;
+export const circuitBreaker = new CircuitBreaker(breakerConfig, stateFile, eventLogFile);
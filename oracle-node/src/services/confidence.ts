@@ -0,0 +1,78 @@
+import { PriceResult } from '../providers';
+
+// Same scale as ConsensusPrice.confidence_score on-chain
+export const MAX_CONFIDENCE = 10000;
+
+export interface ConfidenceConfig {
+  targetSources: number;       // Sources needed for full marks on coverage
+  maxSpreadPercent: number;    // Spread of included quotes at which agreement scores zero
+  freshMs: number;             // Quotes up to this old are fully fresh
+  staleMs: number;             // Quotes this old score zero on freshness
+  intervalZ: number;           // Standard errors either side of the price in the interval
+}
+
+export interface PriceConfidence {
+  score: number;               // 0-10000, higher = more confident
+  low: number;                 // Confidence interval around the price
+  high: number;
+  factors: {
+    sources: number;           // 0-1 each; the score is their product
+    dispersion: number;
+    freshness: number;
+  };
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Confidence in an aggregated price from the quotes it was built from: how many
+ * sources agreed, how tightly, and how recent their quotes were. The interval
+ * is the price ± intervalZ standard errors of the included quotes.
+ */
+export function scoreConfidence(price: number, included: PriceResult[], config: ConfidenceConfig, now = Date.now()): PriceConfidence {
+  const prices = included.map(r => r.price);
+  const n = prices.length;
+
+  const spreadPercent = n > 0 && price > 0 ? ((Math.max(...prices) - Math.min(...prices)) / price) * 100 : 0;
+  const meanAge = n > 0 ? included.reduce((sum, r) => sum + Math.max(0, now - r.timestamp), 0) / n : Infinity;
+
+  const factors = {
+    sources: clamp(n / config.targetSources),
+    dispersion: clamp(1 - spreadPercent / config.maxSpreadPercent),
+    freshness: clamp(1 - (meanAge - config.freshMs) / (config.staleMs - config.freshMs))
+  };
+
+  const mean = n > 0 ? prices.reduce((a, b) => a + b, 0) / n : price;
+  const sampleStdDev = n > 1 ? Math.sqrt(prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / (n - 1)) : 0;
+  const halfWidth = n > 0 ? config.intervalZ * sampleStdDev / Math.sqrt(n) : 0;
+
+  return {
+    score: Math.round(MAX_CONFIDENCE * factors.sources * factors.dispersion * factors.freshness),
+    low: price - halfWidth,
+    high: price + halfWidth,
+    factors
+  };
+}
+
+/**
+ * Confidence of a price derived from other pairs: factors multiply across legs,
+ * and the legs' relative interval widths add in quadrature.
+ */
+export function combineConfidence(price: number, legs: { price: number; confidence: PriceConfidence }[]): PriceConfidence {
+  const product = (key: keyof PriceConfidence['factors']) =>
+    legs.reduce((acc, leg) => acc * leg.confidence.factors[key], 1);
+
+  const relativeHalfWidth = Math.sqrt(legs.reduce((sum, leg) =>
+    sum + Math.pow((leg.confidence.high - leg.confidence.low) / 2 / leg.price, 2), 0));
+
+  return {
+    score: Math.round(legs.reduce((acc, leg) => acc * leg.confidence.score / MAX_CONFIDENCE, MAX_CONFIDENCE)),
+    low: price * (1 - relativeHalfWidth),
+    high: price * (1 + relativeHalfWidth),
+    factors: {
+      sources: product('sources'),
+      dispersion: product('dispersion'),
+      freshness: product('freshness')
+    }
+  };
+}
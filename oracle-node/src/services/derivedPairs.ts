@@ -0,0 +1,86 @@
+import { DerivationOp, PairDerivation } from '../pairRegistry';
+import { AggregationDetails, AggregationDispersion, RejectedSource } from './aggregationStrategies';
+import { PriceConfidence, combineConfidence } from './confidence';
+
+// Aggregated price of one leg of a derived pair
+export interface DerivedLeg {
+  pair: string;
+  price: number;
+  timestamp: number;
+  sources: string[];
+  sourceCount: number;
+  dispersion?: AggregationDispersion;
+  rejected?: RejectedSource[];
+  confidence?: PriceConfidence;
+}
+
+export interface DerivedPrice {
+  price: number;
+  timestamp: number;            // Oldest leg: the derived price is no fresher than its inputs
+  sources: string[];            // Every source that contributed to any leg
+  sourceCount: number;          // Fewest sources behind any leg
+  aggregation: AggregationDetails;
+  confidence?: PriceConfidence; // When every leg has one
+}
+
+/**
+ * Apply a derivation formula to leg prices (in leg order)
+ */
+export function applyDerivation(op: DerivationOp, prices: number[]): number {
+  switch (op) {
+    case 'ratio':
+      return prices[0] / prices[1];
+    case 'product':
+      return prices[0] * prices[1];
+    case 'inverse':
+      return 1 / prices[0];
+  }
+}
+
+/**
+ * Combine leg aggregates into a derived price. Ratios, products and inverses
+ * compound relative errors, so relative deviations are added in quadrature and
+ * spreads add up; a derived pair is only as well sourced as its thinnest leg.
+ */
+export function derivePrice(derivation: PairDerivation, legs: DerivedLeg[]): DerivedPrice {
+  const price = applyDerivation(derivation.op, legs.map(leg => leg.price));
+
+  const relative = (key: 'stdDev' | 'mad') =>
+    Math.sqrt(legs.reduce((sum, leg) => sum + Math.pow((leg.dispersion?.[key] ?? 0) / leg.price, 2), 0));
+
+  const sources = [...new Set(legs.flatMap(leg => leg.sources))];
+  const rejected = legs.flatMap(leg => (leg.rejected || []).map(r => ({ ...r, reason: `${leg.pair}: ${r.reason}` })));
+
+  const confidence = legs.every(leg => leg.confidence)
+    ? combineConfidence(price, legs.map(leg => ({ price: leg.price, confidence: leg.confidence! })))
+    : undefined;
+
+  return {
+    price,
+    confidence,
+    timestamp: Math.min(...legs.map(leg => leg.timestamp)),
+    sources,
+    sourceCount: Math.min(...legs.map(leg => leg.sourceCount)),
+    aggregation: {
+      strategy: `derived:${derivation.op}`,
+      price,
+      initialMedian: price,
+      included: sources,
+      rejected,
+      dispersion: {
+        stdDev: relative('stdDev') * price,
+        mad: relative('mad') * price,
+        spreadPercent: legs.reduce((sum, leg) => sum + (leg.dispersion?.spreadPercent ?? 0), 0)
+      },
+      derivation: {
+        op: derivation.op,
+        legs: legs.map(leg => ({
+          pair: leg.pair,
+          price: leg.price,
+          sourceCount: leg.sourceCount,
+          timestamp: leg.timestamp
+        }))
+      }
+    }
+  };
+}
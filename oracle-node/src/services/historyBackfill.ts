@@ -0,0 +1,308 @@
+import { PriceResult, RestProviderConfig, fetchKlines, supportsKlines } from '../providers';
+import { config } from '../config';
+import { pairRegistry } from '../pairRegistry';
+import { PriceStore, StoredPrice, priceStore } from './priceStore';
+import { priceAggregator } from './priceAggregator';
+import { StablecoinNormalizer } from './stablecoinNormalizer';
+import { derivePrice } from './derivedPairs';
+import { AggregationDetails, median } from './aggregationStrategies';
+import { alignToInterval } from './candleEngine';
+import { logger } from './logger';
+
+export interface BackfillConfig {
+  lookbackMs: number;              // How far back to seed history
+  interval: string;                // Kline interval, a config.analytics.candleIntervals key
+}
+
+export interface BackfillPairReport {
+  pair: string;
+  sources: string[];               // Venues that returned candles
+  failed: { source: string; error: string }[];
+  buckets: number;                 // Buckets aggregated from enough sources
+  skipped: number;                 // Buckets with too few sources
+  stored: number;                  // Older than the pair's existing history, so stored
+  error?: string;
+}
+
+export interface BackfillRun {
+  id: number;
+  status: 'running' | 'completed' | 'failed';
+  actor: string;
+  interval: string;
+  from: number;                    // First and last candle open time fetched
+  to: number;
+  startedAt: number;
+  finishedAt: number | null;
+  pairs: BackfillPairReport[];
+  error: string | null;
+}
+
+export class BackfillError extends Error {
+  constructor(message: string, public statusCode: number, public details?: object) {
+    super(message);
+    this.name = 'BackfillError';
+  }
+}
+
+// Aggregated price per candle open time
+type BucketSeries = Map<number, { price: number; sources: string[]; aggregation: AggregationDetails }>;
+
+/**
+ * Seeds PriceStore after a fresh deploy: pulls historical klines from every venue
+ * with a kline spec (venues.json), converts stablecoin-quoted closes with reference
+ * rates backfilled the same way, and aggregates each bucket with the pair's live
+ * strategy and minimum sources. Derived pairs are computed from their legs.
+ * Stored prices are marked `backfilled` and carry no signature.
+ */
+export class HistoryBackfill {
+  private current: BackfillRun | null = null;
+  private lastRun: BackfillRun | null = null;
+  private nextRunId = 1;
+
+  constructor(
+    private store: PriceStore,
+    private venues: RestProviderConfig[],
+    private options: BackfillConfig
+  ) {}
+
+  isRunning(): boolean {
+    return this.current !== null;
+  }
+
+  /**
+   * The run in progress, else the last finished one
+   */
+  getStatus(): BackfillRun | null {
+    return this.current ?? this.lastRun;
+  }
+
+  /**
+   * Start a run over `pairs` (default: every active pair). Throws a BackfillError
+   * if a run is in progress or a pair is not active; the returned promise
+   * resolves with the finished run and never rejects.
+   */
+  start(pairs: string[] | undefined, actor: string): Promise<BackfillRun> {
+    if (this.current) {
+      throw new BackfillError('Backfill already running', 409, { run: this.current });
+    }
+
+    const intervalMs = config.analytics.candleIntervals[this.options.interval];
+    if (!intervalMs) {
+      throw new BackfillError(`Unknown backfill interval ${this.options.interval}`, 500);
+    }
+
+    const supported = config.supportedPairs;
+    const targets = pairs ?? supported;
+    const unknown = targets.filter(pair => !supported.includes(pair));
+    if (unknown.length > 0) {
+      throw new BackfillError('Unsupported pairs', 400, { pairs: unknown, supportedPairs: supported });
+    }
+
+    // Completed candles only: the current bucket is still moving
+    const now = Date.now();
+    const run: BackfillRun = {
+      id: this.nextRunId++,
+      status: 'running',
+      actor,
+      interval: this.options.interval,
+      from: alignToInterval(now - this.options.lookbackMs, intervalMs),
+      to: alignToInterval(now, intervalMs) - intervalMs,
+      startedAt: now,
+      finishedAt: null,
+      pairs: [],
+      error: null
+    };
+    this.current = run;
+    logger.info(`Backfill #${run.id} started by ${actor}: ${targets.join(', ')} (${run.interval} since ${new Date(run.from).toISOString()})`);
+
+    return this.execute(run, targets, intervalMs).then(() => {
+      run.status = 'completed';
+    }, error => {
+      run.status = 'failed';
+      run.error = error instanceof Error ? error.message : String(error);
+      logger.error(`Backfill #${run.id} failed: ${run.error}`);
+    }).then(() => {
+      run.finishedAt = Date.now();
+      this.lastRun = run;
+      this.current = null;
+      logger.info(`Backfill #${run.id} ${run.status}: ${run.pairs.map(p => `${p.pair} ${p.stored}`).join(', ')}`);
+      return run;
+    });
+  }
+
+  private async execute(run: BackfillRun, pairs: string[], intervalMs: number): Promise<void> {
+    const rates = await this.backfillReferenceRates(run, intervalMs);
+
+    // Direct pairs first, including legs of requested derived pairs
+    const direct = new Map<string, BucketSeries>();
+    const reports = new Map<string, BackfillPairReport>();
+    const legs = pairs.flatMap(pair => pairRegistry.getDerivation(pair)?.legs ?? []);
+    for (const pair of new Set([...pairs, ...legs])) {
+      if (pairRegistry.getDerivation(pair)) continue;
+
+      const report = this.newReport(pair);
+      reports.set(pair, report);
+      try {
+        direct.set(pair, await this.aggregatePair(pair, run, intervalMs, rates, report));
+      } catch (error) {
+        report.error = error instanceof Error ? error.message : String(error);
+      }
+      if (pairs.includes(pair)) {
+        report.stored = this.storeSeries(pair, direct.get(pair), intervalMs);
+        run.pairs.push(report);
+      }
+    }
+
+    for (const pair of pairs) {
+      const derivation = pairRegistry.getDerivation(pair);
+      if (!derivation) continue;
+
+      const report = this.newReport(pair);
+      const series: BucketSeries = new Map();
+      const legSeries = derivation.legs.map(leg => direct.get(leg) ?? new Map() as BucketSeries);
+      const minNeeded = pairRegistry.getMinSources(pair) ?? config.minSources;
+
+      for (const [bucket] of legSeries[0]) {
+        const points = legSeries.map(s => s.get(bucket));
+        if (points.some(p => !p)) continue;
+
+        const derived = derivePrice(derivation, points.map((p, i) => ({
+          pair: derivation.legs[i],
+          price: p!.price,
+          timestamp: bucket,
+          sources: p!.sources,
+          sourceCount: p!.sources.length,
+          dispersion: p!.aggregation.dispersion
+        })));
+        if (derived.sourceCount < minNeeded) {
+          report.skipped++;
+          continue;
+        }
+        series.set(bucket, { price: derived.price, sources: derived.sources, aggregation: derived.aggregation });
+      }
+
+      report.sources = [...new Set(derivation.legs.flatMap(leg => reports.get(leg)?.sources ?? []))].sort();
+      report.buckets = series.size;
+      report.stored = this.storeSeries(pair, series, intervalMs);
+      run.pairs.push(report);
+    }
+  }
+
+  /**
+   * Median close per bucket for each reference pair (USDT/USD, ...), keyed by stablecoin
+   */
+  private async backfillReferenceRates(run: BackfillRun, intervalMs: number): Promise<Map<string, Map<number, number>>> {
+    const rates = new Map<string, Map<number, number>>();
+
+    for (const ref of pairRegistry.getReferencePairs()) {
+      const { closes } = await this.fetchAll(ref.pair, run, intervalMs);
+      const byBucket = new Map<number, number>();
+      for (const [bucket, quotes] of closes) {
+        if (quotes.length >= ref.minSources) {
+          byBucket.set(bucket, median(quotes.map(q => q.price)));
+        }
+      }
+      rates.set(ref.base, byBucket);
+    }
+
+    return rates;
+  }
+
+  /**
+   * Aggregate one direct pair's closes per bucket, as getAggregatedPrice would have
+   */
+  private async aggregatePair(
+    pair: string,
+    run: BackfillRun,
+    intervalMs: number,
+    rates: Map<string, Map<number, number>>,
+    report: BackfillPairReport
+  ): Promise<BucketSeries> {
+    const { closes, sources, failed } = await this.fetchAll(pair, run, intervalMs);
+    report.sources = sources;
+    report.failed = failed;
+
+    const strategy = priceAggregator.getStrategy(pair);
+    const options = priceAggregator.getAggregationOptions();
+    const minNeeded = pairRegistry.getMinSources(pair) ?? config.minSources;
+    const series: BucketSeries = new Map();
+
+    for (const [bucket, quotes] of [...closes].sort((a, b) => a[0] - b[0])) {
+      // Reference rates as they were for this bucket; unknown ones fall back to 1:1
+      const normalizer = new StablecoinNormalizer(config.stablecoins);
+      for (const ref of pairRegistry.getReferencePairs()) {
+        const rate = rates.get(ref.base)?.get(bucket);
+        if (rate !== undefined) normalizer.setRate(ref.base, ref.pair, rate, []);
+      }
+      const { results } = normalizer.normalize(pair, quotes);
+
+      const aggregation = results.length >= minNeeded ? strategy.aggregate(results, options) : null;
+      if (!aggregation || aggregation.included.length < minNeeded) {
+        report.skipped++;
+        continue;
+      }
+      series.set(bucket, { price: aggregation.price, sources: aggregation.included, aggregation });
+    }
+
+    report.buckets = series.size;
+    return series;
+  }
+
+  // Every venue's closes for a pair, grouped by candle open time
+  private async fetchAll(pair: string, run: BackfillRun, intervalMs: number) {
+    const venues = this.venues.filter(venue => supportsKlines(venue, pair, run.interval));
+    const closes = new Map<number, PriceResult[]>();
+    const sources: string[] = [];
+    const failed: { source: string; error: string }[] = [];
+
+    await Promise.all(venues.map(async venue => {
+      try {
+        const klines = await fetchKlines(venue, pair, run.interval, intervalMs, run.from, run.to);
+        if (klines.length > 0) sources.push(venue.name);
+        for (const kline of klines) {
+          if (!closes.has(kline.openTime)) closes.set(kline.openTime, []);
+          closes.get(kline.openTime)!.push({
+            pair,
+            price: kline.close,
+            timestamp: kline.openTime + intervalMs,
+            source: venue.name
+          });
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.warn(`Backfill: ${venue.label} klines for ${pair} failed: ${message}`);
+        failed.push({ source: venue.name, error: message });
+      }
+    }));
+
+    return { closes, sources: sources.sort(), failed };
+  }
+
+  private storeSeries(pair: string, series: BucketSeries | undefined, intervalMs: number): number {
+    if (!series || series.size === 0) return 0;
+
+    // A close is the bucket's last trade: stamped at its last millisecond so
+    // candles rebuilt from history keep it in the same bucket
+    const prices: StoredPrice[] = [...series.entries()]
+      .sort((a, b) => a[0] - b[0])
+      .map(([bucket, point]) => ({
+        pair,
+        price: point.price,
+        scaledPrice: BigInt(Math.round(point.price * Number(config.priceScale))),
+        timestamp: bucket + intervalMs - 1,
+        sources: point.sources,
+        sourceCount: point.sources.length,
+        aggregation: point.aggregation,
+        backfilled: true
+      }));
+
+    return this.store.backfill(pair, prices);
+  }
+
+  private newReport(pair: string): BackfillPairReport {
+    return { pair, sources: [], failed: [], buckets: 0, skipped: 0, stored: 0 };
+  }
+}
+
+// Singleton instance seeding the shared price store
+export const historyBackfill = new HistoryBackfill(priceStore, config.restVenues, config.backfill);
@@ -0,0 +1,361 @@
+import fs from 'fs';
+import path from 'path';
+import { StoredPrice } from './priceStore';
+import { logger } from './logger';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Storage backend for signed price history.
+ * Implementations must return entries sorted by ascending timestamp.
+ */
+export interface HistoryStorage {
+  readonly name: string;
+  // Prices older than the latest stored one are inserted in timestamp order
+  append(price: StoredPrice): void;
+  getRecent(pair: string, limit?: number): StoredPrice[];
+  getRange(pair: string, startTime: number, endTime: number): StoredPrice[];
+  getLatest(pair: string): StoredPrice | null;
+  getEarliest(pair: string): StoredPrice | null;
+  // Insert entries (sorted) that are all older than the earliest stored one
+  prepend(pair: string, prices: StoredPrice[]): void;
+  getPairs(): string[];
+  count(pair: string): number;
+}
+
+export interface FileHistoryStorageOptions {
+  dataDir: string;
+  retentionDays: number;      // Segments older than this are deleted
+  maxCachedEntries: number;   // Recent entries kept in memory per pair
+}
+
+// Index of the first entry with timestamp >= target (history is sorted ascending)
+function lowerBound(history: StoredPrice[], target: number): number {
+  let lo = 0;
+  let hi = history.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (history[mid].timestamp < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+function sliceRange(history: StoredPrice[], startTime: number, endTime: number): StoredPrice[] {
+  return history.slice(lowerBound(history, startTime), lowerBound(history, endTime + 1));
+}
+
+export function serializePrice(price: StoredPrice): string {
+  return JSON.stringify(price, (key, value) => (typeof value === 'bigint' ? value.toString() : value));
+}
+
+export function deserializePrice(line: string): StoredPrice {
+  const parsed = JSON.parse(line);
+  return { ...parsed, scaledPrice: BigInt(parsed.scaledPrice) };
+}
+
+/**
+ * In-memory history (default). Keeps the most recent `maxEntries` per pair
+ * and loses everything on restart.
+ */
+export class MemoryHistoryStorage implements HistoryStorage {
+  readonly name = 'memory';
+  private history: Map<string, StoredPrice[]> = new Map();
+
+  constructor(private maxEntries: number = 10000) {}
+
+  append(price: StoredPrice): void {
+    if (!this.history.has(price.pair)) {
+      this.history.set(price.pair, []);
+    }
+
+    const history = this.history.get(price.pair)!;
+    if (history.length > 0 && price.timestamp < history[history.length - 1].timestamp) {
+      // Late price: insert after any entries with the same or an earlier timestamp
+      history.splice(lowerBound(history, price.timestamp + 1), 0, price);
+    } else {
+      history.push(price);
+    }
+
+    if (history.length > this.maxEntries) {
+      history.shift();
+    }
+  }
+
+  getRecent(pair: string, limit?: number): StoredPrice[] {
+    const history = this.history.get(pair) || [];
+    return limit ? history.slice(-limit) : history;
+  }
+
+  getRange(pair: string, startTime: number, endTime: number): StoredPrice[] {
+    return sliceRange(this.history.get(pair) || [], startTime, endTime);
+  }
+
+  getLatest(pair: string): StoredPrice | null {
+    const history = this.history.get(pair);
+    return history && history.length > 0 ? history[history.length - 1] : null;
+  }
+
+  getEarliest(pair: string): StoredPrice | null {
+    return this.history.get(pair)?.[0] || null;
+  }
+
+  prepend(pair: string, prices: StoredPrice[]): void {
+    // Still capped at maxEntries: the newest entries win
+    const history = [...prices, ...(this.history.get(pair) || [])];
+    this.history.set(pair, history.slice(-this.maxEntries));
+  }
+
+  getPairs(): string[] {
+    return Array.from(this.history.keys());
+  }
+
+  count(pair: string): number {
+    return this.history.get(pair)?.length || 0;
+  }
+}
+
+/**
+ * File-backed history. Each pair gets a directory of daily JSON-lines segments
+ * (`<dataDir>/ETH_USD/2024-01-31.jsonl`), so a time-range query only opens the
+ * segments overlapping the range. Recent entries are also cached in memory.
+ */
+export class FileHistoryStorage implements HistoryStorage {
+  readonly name = 'file';
+  private cache: MemoryHistoryStorage;
+  private segments: Map<string, string[]> = new Map();  // pair -> sorted day keys
+  private counts: Map<string, number> = new Map();
+
+  constructor(private options: FileHistoryStorageOptions) {
+    this.cache = new MemoryHistoryStorage(options.maxCachedEntries);
+    fs.mkdirSync(options.dataDir, { recursive: true });
+    this.restore();
+  }
+
+  append(price: StoredPrice): void {
+    const latest = this.cache.getLatest(price.pair);
+    if (latest && price.timestamp < latest.timestamp) {
+      this.insertLate(price);
+      return;
+    }
+
+    const dayKey = this.dayKey(price.timestamp);
+    const dir = this.pairDir(price.pair);
+    const segments = this.segments.get(price.pair) || [];
+
+    if (segments[segments.length - 1] !== dayKey) {
+      fs.mkdirSync(dir, { recursive: true });
+      segments.push(dayKey);
+      this.segments.set(price.pair, segments);
+      this.pruneSegments(price.pair, price.timestamp);
+    }
+
+    fs.appendFileSync(path.join(dir, `${dayKey}.jsonl`), serializePrice(price) + '\n');
+    this.cache.append(price);
+    this.counts.set(price.pair, (this.counts.get(price.pair) || 0) + 1);
+  }
+
+  getRecent(pair: string, limit?: number): StoredPrice[] {
+    return this.cache.getRecent(pair, limit);
+  }
+
+  getRange(pair: string, startTime: number, endTime: number): StoredPrice[] {
+    // Serve from the in-memory tail when it covers the whole range
+    const cached = this.cache.getRecent(pair);
+    if (cached.length > 0 && (cached[0].timestamp <= startTime || cached.length >= this.count(pair))) {
+      return sliceRange(cached, startTime, endTime);
+    }
+
+    const firstDay = this.dayKey(startTime);
+    const lastDay = this.dayKey(endTime);
+    const result: StoredPrice[] = [];
+
+    for (const day of this.segments.get(pair) || []) {
+      if (day < firstDay || day > lastDay) continue;
+      for (const entry of this.readSegment(pair, day)) {
+        if (entry.timestamp >= startTime && entry.timestamp <= endTime) {
+          result.push(entry);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  getLatest(pair: string): StoredPrice | null {
+    return this.cache.getLatest(pair);
+  }
+
+  getEarliest(pair: string): StoredPrice | null {
+    for (const day of this.segments.get(pair) || []) {
+      const segment = this.readSegment(pair, day);
+      if (segment.length > 0) return segment[0];
+    }
+    return null;
+  }
+
+  /**
+   * Write older entries into their daily segments: new segment files for days
+   * before the first one, the first segment rewritten with them in front.
+   * Entries past the retention period are dropped.
+   */
+  prepend(pair: string, prices: StoredPrice[]): void {
+    const cutoff = this.dayKey(Date.now() - this.options.retentionDays * ONE_DAY_MS);
+    const byDay: Map<string, StoredPrice[]> = new Map();
+    for (const price of prices) {
+      const day = this.dayKey(price.timestamp);
+      if (day < cutoff) continue;
+      if (!byDay.has(day)) byDay.set(day, []);
+      byDay.get(day)!.push(price);
+    }
+    if (byDay.size === 0) return;
+
+    const dir = this.pairDir(pair);
+    fs.mkdirSync(dir, { recursive: true });
+    const segments = this.segments.get(pair) || [];
+    let added = 0;
+
+    for (const [day, entries] of byDay) {
+      const file = path.join(dir, `${day}.jsonl`);
+      const existing = segments.includes(day) && fs.existsSync(file) ? fs.readFileSync(file, 'utf8') : '';
+      fs.writeFileSync(file, entries.map(serializePrice).join('\n') + '\n' + existing);
+      if (!segments.includes(day)) segments.push(day);
+      added += entries.length;
+    }
+
+    // The cache is a contiguous tail: only extend it if it already reaches the oldest entry
+    if (this.cache.count(pair) >= this.count(pair)) {
+      this.cache.prepend(pair, Array.from(byDay.values()).flat());
+    }
+    this.segments.set(pair, segments.sort());
+    this.counts.set(pair, this.count(pair) + added);
+  }
+
+  getPairs(): string[] {
+    return Array.from(this.segments.keys());
+  }
+
+  count(pair: string): number {
+    return this.counts.get(pair) || 0;
+  }
+
+  /**
+   * Rebuild the segment index and warm the in-memory cache from disk
+   */
+  private restore(): void {
+    let restored = 0;
+
+    for (const entry of fs.readdirSync(this.options.dataDir, { withFileTypes: true })) {
+      if (!entry.isDirectory()) continue;
+
+      const pair = entry.name.replace('_', '/');
+      const days = fs.readdirSync(path.join(this.options.dataDir, entry.name))
+        .filter(f => f.endsWith('.jsonl'))
+        .map(f => f.replace('.jsonl', ''))
+        .sort();
+
+      if (days.length === 0) continue;
+      this.segments.set(pair, days);
+
+      // Count everything, but only cache the newest maxCachedEntries
+      const recent: StoredPrice[][] = [];
+      let cachedCount = 0;
+      let total = 0;
+      for (let i = days.length - 1; i >= 0; i--) {
+        const segment = this.readSegment(pair, days[i]);
+        total += segment.length;
+        if (cachedCount < this.options.maxCachedEntries) {
+          recent.unshift(segment);
+          cachedCount += segment.length;
+        }
+      }
+
+      for (const price of recent.flat().slice(-this.options.maxCachedEntries)) {
+        this.cache.append(price);
+      }
+      this.counts.set(pair, total);
+      restored += total;
+    }
+
+    logger.info(`History storage restored ${restored} entries from ${this.options.dataDir}`);
+  }
+
+  /**
+   * Write a price older than the latest stored one into its daily segment,
+   * rewriting the segment so it stays sorted. Prices past retention are dropped.
+   */
+  private insertLate(price: StoredPrice): void {
+    const day = this.dayKey(price.timestamp);
+    if (day < this.dayKey(Date.now() - this.options.retentionDays * ONE_DAY_MS)) return;
+
+    const dir = this.pairDir(price.pair);
+    const segments = this.segments.get(price.pair) || [];
+    const entries = segments.includes(day) ? this.readSegment(price.pair, day) : [];
+    entries.splice(lowerBound(entries, price.timestamp + 1), 0, price);
+
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(path.join(dir, `${day}.jsonl`), entries.map(serializePrice).join('\n') + '\n');
+    if (!segments.includes(day)) {
+      segments.push(day);
+      this.segments.set(price.pair, segments.sort());
+    }
+
+    // The cache is a contiguous tail: skip prices older than it unless it holds everything
+    const earliestCached = this.cache.getEarliest(price.pair);
+    if (this.cache.count(price.pair) >= this.count(price.pair) || (earliestCached && price.timestamp >= earliestCached.timestamp)) {
+      this.cache.append(price);
+    }
+    this.counts.set(price.pair, this.count(price.pair) + 1);
+  }
+
+  private readSegment(pair: string, day: string): StoredPrice[] {
+    const file = path.join(this.pairDir(pair), `${day}.jsonl`);
+    if (!fs.existsSync(file)) return [];
+
+    const entries: StoredPrice[] = [];
+    for (const line of fs.readFileSync(file, 'utf8').split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(deserializePrice(line));
+      } catch {
+        logger.warn(`History storage: skipping corrupt line in ${file}`);
+      }
+    }
+    return entries;
+  }
+
+  private pruneSegments(pair: string, now: number): void {
+    const cutoff = this.dayKey(now - this.options.retentionDays * ONE_DAY_MS);
+    const segments = this.segments.get(pair) || [];
+
+    while (segments.length > 0 && segments[0] < cutoff) {
+      const day = segments.shift()!;
+      const file = path.join(this.pairDir(pair), `${day}.jsonl`);
+      const removed = this.readSegment(pair, day).length;
+      fs.rmSync(file, { force: true });
+      this.counts.set(pair, Math.max(0, (this.counts.get(pair) || 0) - removed));
+      logger.info(`History storage: pruned ${pair} segment ${day}`);
+    }
+  }
+
+  private pairDir(pair: string): string {
+    return path.join(this.options.dataDir, pair.replace('/', '_'));
+  }
+
+  private dayKey(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+  }
+}
+
+/**
+ * Build the storage backend selected in config
+ */
+export function createHistoryStorage(options: { backend: string } & FileHistoryStorageOptions): HistoryStorage {
+  if (options.backend === 'file') {
+    return new FileHistoryStorage(options);
+  }
+  if (options.backend !== 'memory') {
+    logger.warn(`Unknown history backend "${options.backend}", falling back to memory`);
+  }
+  return new MemoryHistoryStorage(options.maxCachedEntries);
+}
@@ -1,7 +1,19 @@
 export { logger } from './logger';
-export { priceAggregator, PriceAggregator, AggregatedPrice, AggregatedPriceWithCircuitBreaker } from './priceAggregator';
+export { priceAggregator, PriceAggregator, AggregatedPrice, AggregatedPriceWithCircuitBreaker, SourceQuote } from './priceAggregator';
 export { priceStore, PriceStore } from './priceStore';
-export { aleoSigner, AleoSigner, SignedMessage, SignedPriceData } from './signer';
-export { twapCalculator, TWAPCalculator, TWAPResult } from './twapCalculator';
-export { circuitBreaker, CircuitBreaker, CircuitBreakerState, CircuitBreakerConfig } from './circuitBreaker';
+export { aleoSigner, AleoSigner, SignedPriceData, SignerRotation, priceMessageLiteral, hashPriceMessage } from './signer';
+export { createSignerBackend, serveSigner, SignerBackend, SignerBackendOptions, KeystoreSignerBackend, RemoteSignerBackend } from './signerBackends';
+export { verifyPriceSignature, verifyStoredPrice, parsePriceMessage, PriceClaim, VerificationResult, FieldMismatch } from './priceVerifier';
+export { twapCalculator, TWAPCalculator, TWAPResult, PriceMetrics, VolatilityMetrics } from './twapCalculator';
+export { historyBackfill, HistoryBackfill, BackfillConfig, BackfillRun, BackfillPairReport, BackfillError } from './historyBackfill';
+export { CandleSeries, Candle, CandleQuery, CandlePage, alignToInterval, buildCandles, fillGaps } from './candleEngine';
+export { priceStream, PriceStream, StreamPricePayload, StreamCircuitBreakerPayload } from './priceStream';
+export { pairAdmin, PairAdmin, PairJob, PairJobStatus, OnboardPairRequest, PairOnboardingError } from './pairAdmin';
+export { providerHealth, ProviderHealthTracker, ProviderHealthConfig, ProviderHealthReport, ProviderStatus } from './providerHealth';
+export { stablecoinNormalizer, StablecoinNormalizer, StablecoinConfig, ReferenceRate, quoteAssetOf } from './stablecoinNormalizer';
+export { scoreConfidence, combineConfidence, PriceConfidence, ConfidenceConfig, MAX_CONFIDENCE } from './confidence';
+export { derivePrice, applyDerivation, DerivedLeg, DerivedPrice } from './derivedPairs';
+export { circuitBreaker, CircuitBreaker, CircuitBreakerState, CircuitBreakerConfig, CircuitBreakerTier, CircuitBreakerEvent, HaltSeverity, validateConfigUpdate } from './circuitBreaker';
+export { rateLimiter, RateLimiter, RateLimitConfig, RateLimitTier, RateLimitDecision, RateLimitUsage } from './rateLimiter';
+export { apiKeys, ApiKeyStore, ApiKeyEntry, Principal, Role, ROLES, parseApiKeys } from './apiKeys';
 export { stakingIntegration, StakingIntegration, OperatorInfo, SlashingReport, SlashReason } from './stakingIntegration';
@@ -0,0 +1,237 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { pairRegistry, PairDefinition } from '../pairRegistry';
+import { priceAggregator } from './priceAggregator';
+import { logger } from './logger';
+
+export type PairJobStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+/**
+ * On-chain work the relayer must perform for a registry change.
+ * `inputs` are ready-to-use Leo literals for the add_pair transition.
+ */
+export interface PairJob {
+  id: number;
+  type: 'add_pair';
+  pair: string;
+  pairId: number;
+  inputs: string[];
+  status: PairJobStatus;
+  txId: string | null;
+  error: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface OnboardPairRequest {
+  base: string;
+  quote: string;
+  symbols: { [provider: string]: string };
+  pairId?: number;
+  minSources?: number;
+}
+
+export interface OnboardPairResult {
+  pair: PairDefinition;
+  quotedBy: string[];
+  job: PairJob;
+}
+
+export class PairOnboardingError extends Error {
+  constructor(message: string, public statusCode: number, public details?: object) {
+    super(message);
+    this.name = 'PairOnboardingError';
+  }
+}
+
+/**
+ * Encode an asset symbol as a field element: its ASCII bytes read as a big-endian integer.
+ * Symbols are at most 31 bytes, so the value always fits in the field.
+ */
+export function assetHash(symbol: string): string {
+  const hex = Buffer.from(symbol.toUpperCase(), 'ascii').toString('hex');
+  return `${BigInt('0x' + hex)}field`;
+}
+
+/**
+ * Runtime pair lifecycle: onboard (probe providers, activate, queue add_pair),
+ * pause, resume and retire. Jobs are persisted so a restart does not lose work
+ * the relayer has not picked up yet.
+ */
+export class PairAdmin {
+  private jobs: PairJob[] = [];
+  private nextJobId = 1;
+
+  constructor(private jobsFile: string | null = null) {
+    if (jobsFile && fs.existsSync(jobsFile)) {
+      this.jobs = JSON.parse(fs.readFileSync(jobsFile, 'utf8'));
+      this.nextJobId = this.jobs.reduce((max, job) => Math.max(max, job.id), 0) + 1;
+    }
+  }
+
+  /**
+   * Add a pair, check that enough providers quote it, then activate it and queue
+   * the on-chain add_pair. A pair that fails the probe is removed again.
+   */
+  async onboardPair(request: OnboardPairRequest): Promise<OnboardPairResult> {
+    const base = request.base?.toUpperCase();
+    const quote = request.quote?.toUpperCase();
+    if (!base || !quote || !/^[A-Z0-9]{1,31}$/.test(base) || !/^[A-Z0-9]{1,31}$/.test(quote)) {
+      throw new PairOnboardingError('base and quote must be 1-31 alphanumeric characters', 400);
+    }
+
+    // The id keys the registry and becomes the add_pair u64 input as-is
+    if (request.pairId !== undefined && !Number.isInteger(request.pairId)) {
+      throw new PairOnboardingError('pairId must be an integer', 400);
+    }
+
+    const providerNames = priceAggregator.getProviderNames();
+    const symbols = request.symbols || {};
+    const unknown = Object.keys(symbols).filter(name => !providerNames.includes(name));
+    if (unknown.length > 0) {
+      throw new PairOnboardingError(`Unknown providers: ${unknown.join(', ')}`, 400, { providers: providerNames });
+    }
+
+    const emptySymbols = Object.keys(symbols).filter(name => typeof symbols[name] !== 'string' || !symbols[name].trim());
+    if (emptySymbols.length > 0) {
+      throw new PairOnboardingError(`Symbols must be non-empty strings: ${emptySymbols.join(', ')}`, 400);
+    }
+
+    const minSources = request.minSources ?? config.minSources;
+    const symbolCount = Object.keys(symbols).length;
+    if (!Number.isInteger(minSources) || minSources < 1 || minSources > symbolCount) {
+      throw new PairOnboardingError(
+        `minSources must be an integer from 1 to the number of provider symbols given (${symbolCount})`, 400
+      );
+    }
+
+    const def: PairDefinition = {
+      pair: `${base}/${quote}`,
+      pairId: request.pairId ?? pairRegistry.getNextPairId(),
+      base,
+      quote,
+      decimals: config.priceScale.toString().length - 1,
+      minSources,
+      symbols,
+      status: 'paused'
+    };
+
+    try {
+      pairRegistry.addPair(def);
+    } catch (error) {
+      throw new PairOnboardingError(error instanceof Error ? error.message : String(error), 409);
+    }
+
+    const quotes = await priceAggregator.fetchAllPrices(def.pair);
+    const quotedBy = quotes.map(q => q.source);
+
+    if (quotedBy.length < minSources) {
+      pairRegistry.removePendingPair(def.pair);
+      logger.warn(`Onboarding ${def.pair} rejected: only ${quotedBy.length}/${minSources} providers quoted it`);
+      throw new PairOnboardingError(
+        `Only ${quotedBy.length} providers returned a price, ${minSources} required`, 422,
+        { quotedBy, missing: Object.keys(symbols).filter(name => !quotedBy.includes(name)) }
+      );
+    }
+
+    pairRegistry.setStatus(def.pair, 'active');
+    const job = this.createJob(def);
+
+    logger.info(`Onboarded ${def.pair} (pair id ${def.pairId}, quoted by ${quotedBy.join(', ')}); queued add_pair job ${job.id}`);
+    return { pair: pairRegistry.getPair(def.pair)!, quotedBy, job };
+  }
+
+  pausePair(pair: string): PairDefinition {
+    this.requireStatus(pair, ['active']);
+    pairRegistry.setStatus(pair, 'paused');
+    logger.info(`Paused ${pair}`);
+    return pairRegistry.getPair(pair)!;
+  }
+
+  resumePair(pair: string): PairDefinition {
+    this.requireStatus(pair, ['paused']);
+    pairRegistry.setStatus(pair, 'active');
+    logger.info(`Resumed ${pair}`);
+    return pairRegistry.getPair(pair)!;
+  }
+
+  /**
+   * Permanently stop serving a pair. Its pair id stays reserved.
+   */
+  retirePair(pair: string): PairDefinition {
+    this.requireStatus(pair, ['active', 'paused']);
+    pairRegistry.setStatus(pair, 'retired');
+    logger.info(`Retired ${pair}`);
+    return pairRegistry.getPair(pair)!;
+  }
+
+  getJobs(status?: PairJobStatus): PairJob[] {
+    return status ? this.jobs.filter(job => job.status === status) : [...this.jobs];
+  }
+
+  /**
+   * Record relayer progress on a job (submitted with a tx id, confirmed or failed)
+   */
+  updateJob(id: number, update: { status: PairJobStatus; txId?: string; error?: string }): PairJob {
+    const job = this.jobs.find(j => j.id === id);
+    if (!job) {
+      throw new PairOnboardingError(`Unknown job ${id}`, 404);
+    }
+
+    job.status = update.status;
+    job.txId = update.txId ?? job.txId;
+    job.error = update.error ?? null;
+    job.updatedAt = Date.now();
+    this.persist();
+
+    logger.info(`Pair job ${id} (${job.type} ${job.pair}) -> ${job.status}${job.txId ? ` tx ${job.txId}` : ''}`);
+    return job;
+  }
+
+  private createJob(def: PairDefinition): PairJob {
+    const now = Date.now();
+    const job: PairJob = {
+      id: this.nextJobId++,
+      type: 'add_pair',
+      pair: def.pair,
+      pairId: def.pairId,
+      inputs: [
+        `${def.pairId}u64`,
+        assetHash(def.base),
+        assetHash(def.quote),
+        `${def.decimals}u8`,
+        `${config.admin.minUpdateInterval}u64`,
+        `${now}u64`
+      ],
+      status: 'pending',
+      txId: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.jobs.push(job);
+    this.persist();
+    return job;
+  }
+
+  private requireStatus(pair: string, allowed: string[]): void {
+    const status = pairRegistry.getStatus(pair);
+    if (!status) {
+      throw new PairOnboardingError(`Unknown pair ${pair}`, 404);
+    }
+    if (!allowed.includes(status)) {
+      throw new PairOnboardingError(`Pair ${pair} is ${status}`, 409);
+    }
+  }
+
+  private persist(): void {
+    if (!this.jobsFile) return;
+    fs.mkdirSync(path.dirname(this.jobsFile), { recursive: true });
+    fs.writeFileSync(this.jobsFile, JSON.stringify(this.jobs, null, 2));
+  }
+}
+
+// Singleton instance
+export const pairAdmin = new PairAdmin(config.admin.jobsFile);
@@ -1,20 +1,45 @@
 import {
   PriceProvider,
   PriceResult,
-  BinanceProvider,
-  CoinbaseProvider,
-  KrakenProvider,
-  HuobiProvider,
-  OKExProvider,
-  GateIOProvider,
-  BybitProvider,
+  RestProvider,
   CoinGeckoProvider,
-  KuCoinProvider,
-  CryptoCompareProvider
+  StreamingProvider,
+  StreamStatus,
+  createStreamingProvider,
+  isStreamingProvider
 } from '../providers';
 import { config } from '../config';
+import { pairRegistry, PairDerivation } from '../pairRegistry';
 import { logger } from './logger';
-import { circuitBreaker } from './circuitBreaker';
+import { circuitBreaker, HaltSeverity, PriceCheckResult } from './circuitBreaker';
+import { providerHealth, ProviderHealthReport } from './providerHealth';
+import { stablecoinNormalizer, ReferenceRate } from './stablecoinNormalizer';
+import { derivePrice } from './derivedPairs';
+import { scoreConfidence, PriceConfidence } from './confidence';
+import {
+  AggregationDetails,
+  AggregationOptions,
+  AggregationStrategy,
+  FilteredMedianStrategy,
+  getAggregationStrategy,
+  median
+} from './aggregationStrategies';
+
+/**
+ * One provider's quote for an aggregation and what became of it
+ */
+export interface SourceQuote {
+  source: string;
+  rawPrice: number;                  // As quoted by the venue
+  quoteAsset: string;                // Currency of rawPrice (USDT for ETHUSDT)
+  price: number;                     // In the pair's quote currency
+  timestamp: number;                 // Quote time
+  latencyMs?: number;
+  deviationPercent: number;          // Signed, from the median of all quotes
+  status: 'included' | 'rejected';
+  reason?: string;                   // Why a rejected quote was left out
+  leg?: string;                      // Derived pairs: the leg the quote was for
+}
 
 export interface AggregatedPrice {
   pair: string;
@@ -23,56 +48,84 @@ export interface AggregatedPrice {
   timestamp: number;
   sources: string[];
   sourceCount: number;
+  aggregation?: AggregationDetails;  // How the price was derived (strategy, rejections, dispersion)
+  volume24h?: number;                // Summed 24h quote volume of included sources that report it
+  sourceBreakdown?: SourceQuote[];   // Every quote received, included or not
+  confidence?: PriceConfidence;      // 0-10000 score and interval (absent on prices stored before it existed)
 }
 
 export interface AggregatedPriceWithCircuitBreaker extends AggregatedPrice {
   circuitBreakerStatus: {
-    allowed: boolean;
+    allowed: boolean;                // False under a hard halt: the price must be withheld
     isHalted: boolean;
+    flagged: boolean;                // Published under a soft halt
+    severity: HaltSeverity | null;
     reason?: string;
+    reasonCode: number;              // Contract last_trip_reason (0 = none)
     tripCount: number;
   };
 }
 
 export class PriceAggregator {
   private providers: PriceProvider[];
+  // Latest aggregate per direct pair, reused as legs of derived pairs
+  private lastAggregated: Map<string, AggregatedPriceWithCircuitBreaker> = new Map();
+  private pendingLegs: Map<string, Promise<AggregatedPriceWithCircuitBreaker | null>> = new Map();
 
   constructor() {
-    // Initialize all providers (Phase 1: 10 providers)
+    // REST venues from venues.json (WebSocket feeds where enabled), plus providers
+    // that need bespoke handling
     this.providers = [
-      // Original providers (Phase 0)
-      new BinanceProvider(),
-      new CoinbaseProvider(),
-      new KrakenProvider(),
-      // New providers (Phase 1)
-      new HuobiProvider(),
-      new OKExProvider(),
-      new GateIOProvider(),
-      new BybitProvider(),
-      new CoinGeckoProvider(),
-      new KuCoinProvider(),
-      new CryptoCompareProvider()
+      ...config.restVenues.map(venue =>
+        (config.streaming.providers.includes(venue.name) && createStreamingProvider(venue.name, config.streaming)) ||
+        new RestProvider(venue)
+      ),
+      new CoinGeckoProvider()
     ];
 
     logger.info(`Price aggregator initialized with ${this.providers.length} providers`);
   }
 
+  /**
+   * Open the WebSocket feeds. Until a feed has quotes its venue reads as missing.
+   */
+  startStreams(): void {
+    this.getStreams().forEach(stream => stream.start());
+  }
+
+  stopStreams(): void {
+    this.getStreams().forEach(stream => stream.stop());
+  }
+
+  getStreamStatus(): StreamStatus[] {
+    return this.getStreams().map(stream => stream.getStatus());
+  }
+
+  private getStreams(): StreamingProvider[] {
+    return this.providers.filter(isStreamingProvider);
+  }
+
+  /**
+   * Fetch a pair from every provider that lists it and is not quarantined,
+   * recording latency and failures with the provider health tracker.
+   * Streaming providers answer synchronously from their last-trade cache.
+   */
   async fetchAllPrices(pair: string): Promise<PriceResult[]> {
-    const promises = this.providers.map(provider => provider.fetchPrice(pair));
-    const results = await Promise.all(promises);
+    const symbols = (pairRegistry.getPair(pair) || pairRegistry.getReferencePair(pair))?.symbols || {};
+    const providers = this.providers.filter(p => symbols[p.name] && providerHealth.shouldFetch(p.name));
+
+    const results = await Promise.all(providers.map(async (provider): Promise<PriceResult | null> => {
+      const started = Date.now();
+      const result = isStreamingProvider(provider) ? provider.getCachedPrice(pair) : await provider.fetchPrice(pair);
+      const latencyMs = Date.now() - started;
+      providerHealth.recordFetch(provider.name, pair, latencyMs, result !== null, result?.timestamp);
+      return result && { ...result, latencyMs };
+    }));
     return results.filter((r): r is PriceResult => r !== null);
   }
 
   calculateMedian(prices: number[]): number {
-    if (prices.length === 0) return 0;
-
-    const sorted = [...prices].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-
-    if (sorted.length % 2 === 0) {
-      return (sorted[mid - 1] + sorted[mid]) / 2;
-    }
-    return sorted[mid];
+    return median(prices);
   }
 
   removeOutliers(prices: number[], median: number): number[] {
@@ -85,57 +138,236 @@ export class PriceAggregator {
   }
 
   async getAggregatedPrice(pair: string): Promise<AggregatedPriceWithCircuitBreaker | null> {
-    const results = await this.fetchAllPrices(pair);
+    const derivation = pairRegistry.getDerivation(pair);
+    if (derivation) {
+      return this.getDerivedPrice(pair, derivation);
+    }
+
+    const fetched = await this.fetchAllPrices(pair);
+
+    // Convert stablecoin-quoted venues into the pair's quote currency
+    await stablecoinNormalizer.refresh(reference => this.fetchAllPrices(reference));
+    const normalized = stablecoinNormalizer.normalize(pair, fetched);
+
+    // Providers on probation are fetched but only compared against the aggregate
+    const results = normalized.results.filter(r => providerHealth.isAdmitted(r.source));
+    const probation = normalized.results.filter(r => !providerHealth.isAdmitted(r.source));
 
-    // Dynamic minimum sources (ALEO is on fewer exchanges in Phase 1)
-    const minNeeded = pair === 'ALEO/USD' ? 2 : config.minSources;
+    // Per-pair minimum sources from the registry (ALEO is listed on fewer exchanges)
+    const minNeeded = pairRegistry.getMinSources(pair) ?? config.minSources;
 
     if (results.length < minNeeded) {
       logger.warn(`Insufficient sources for ${pair}: got ${results.length}, need ${minNeeded}`);
       return null;
     }
 
-    const prices = results.map(r => r.price);
+    // Aggregate with the strategy configured for this pair
+    const strategy = this.getStrategy(pair);
+    const aggregation = strategy.aggregate(results, this.getAggregationOptions());
 
-    // Calculate initial median
-    const initialMedian = this.calculateMedian(prices);
-
-    // Remove outliers
-    const filteredPrices = this.removeOutliers(prices, initialMedian);
-
-    if (filteredPrices.length < config.minSources) {
-      logger.warn(`Too many outliers for ${pair}: ${prices.length - filteredPrices.length} removed`);
+    // The filtered set must still meet the global minimum: submit_signed_price and the
+    // relayer reject a source_count below 3, whatever the pair's fetch minimum
+    if (aggregation.included.length < config.minSources) {
+      logger.warn(`Too many outliers for ${pair}: ${aggregation.rejected.length} removed by ${strategy.name}`);
       return null;
     }
 
-    // Calculate final median from filtered prices
-    const finalPrice = this.calculateMedian(filteredPrices);
+    const finalPrice = aggregation.price;
+
+    // Feed agreement with the aggregate back into provider health. Only quotes
+    // rejected for being off consensus count against a provider, not trimmed ones.
+    for (const source of aggregation.included) {
+      providerHealth.recordConsensus(source, pair, false);
+    }
+    for (const rejected of aggregation.rejected) {
+      providerHealth.recordConsensus(rejected.source, pair, rejected.outlier);
+    }
+    for (const result of probation) {
+      const deviation = Math.abs(result.price - finalPrice) / finalPrice;
+      const outlier = deviation > config.outlierThreshold;
+      providerHealth.recordConsensus(result.source, pair, outlier);
+      aggregation.rejected.push({
+        source: result.source,
+        price: result.price,
+        reason: `Provider on probation (${(deviation * 100).toFixed(2)}% from aggregate)`,
+        outlier
+      });
+    }
+    aggregation.rejected.push(...normalized.rejected);
+    aggregation.quoteConversions = normalized.conversions;
 
     // Check circuit breaker
-    const cbResult = circuitBreaker.checkPrice(pair, finalPrice);
+    const cbStatus = this.circuitBreakerStatus(circuitBreaker.checkPrice(pair, finalPrice));
 
     // Scale price for on-chain (multiply by 10^8)
     const scaledPrice = BigInt(Math.round(finalPrice * Number(config.priceScale)));
 
-    const sources = results
-      .filter(r => filteredPrices.includes(r.price))
-      .map(r => r.source);
+    const sources = aggregation.included;
 
-    logger.info(`Aggregated ${pair}: $${finalPrice.toFixed(2)} from ${sources.join(', ')} [CB: ${cbResult.allowed ? 'OK' : 'HALTED'}]`);
+    const includedResults = results.filter(r => sources.includes(r.source));
+    const volumes = includedResults
+      .filter(r => r.quoteVolume !== undefined)
+      .map(r => r.quoteVolume as number);
+    const volume24h = volumes.length > 0 ? volumes.reduce((a, b) => a + b, 0) : undefined;
 
-    return {
+    const confidence = scoreConfidence(finalPrice, includedResults, config.confidence);
+
+    logger.info(`Aggregated ${pair}: $${finalPrice.toFixed(2)} from ${sources.join(', ')} via ${strategy.name} (confidence ${confidence.score}) [CB: ${this.describeCircuitBreaker(cbStatus)}]`);
+
+    const aggregated: AggregatedPriceWithCircuitBreaker = {
       pair,
       price: finalPrice,
       scaledPrice,
       timestamp: Date.now(),
       sources,
       sourceCount: sources.length,
-      circuitBreakerStatus: {
-        allowed: cbResult.allowed,
-        isHalted: cbResult.state.isHalted,
-        reason: cbResult.reason,
-        tripCount: cbResult.state.tripCount
-      }
+      aggregation,
+      volume24h,
+      sourceBreakdown: this.buildSourceBreakdown(fetched, aggregation),
+      confidence,
+      circuitBreakerStatus: cbStatus
+    };
+    this.lastAggregated.set(pair, aggregated);
+    return aggregated;
+  }
+
+  /**
+   * Price of a derived pair from its legs' aggregates. Legs aggregated within
+   * config.derived.maxLegAgeMs are reused; a missing or hard-halted leg means no
+   * price, and a soft-halted leg flags the derived price.
+   */
+  private async getDerivedPrice(pair: string, derivation: PairDerivation): Promise<AggregatedPriceWithCircuitBreaker | null> {
+    const legs = await Promise.all(derivation.legs.map(leg => this.getLegPrice(leg)));
+
+    const missing = derivation.legs.filter((_, i) => !legs[i]);
+    if (missing.length > 0) {
+      logger.warn(`Cannot derive ${pair}: no price for ${missing.join(', ')}`);
+      return null;
+    }
+    const withheld = derivation.legs.filter(leg => circuitBreaker.isWithheld(leg));
+    if (withheld.length > 0) {
+      logger.warn(`Cannot derive ${pair}: circuit breaker halted for ${withheld.join(', ')}`);
+      return null;
+    }
+    const softHalted = derivation.legs.filter(leg => circuitBreaker.isHalted(leg));
+
+    const derived = derivePrice(derivation, legs.map(leg => ({
+      pair: leg!.pair,
+      price: leg!.price,
+      timestamp: leg!.timestamp,
+      sources: leg!.sources,
+      sourceCount: leg!.sourceCount,
+      dispersion: leg!.aggregation?.dispersion,
+      rejected: leg!.aggregation?.rejected,
+      confidence: leg!.confidence
+    })));
+
+    const minNeeded = pairRegistry.getMinSources(pair) ?? config.minSources;
+    if (derived.sourceCount < minNeeded) {
+      logger.warn(`Insufficient sources for ${pair}: thinnest leg has ${derived.sourceCount}, need ${minNeeded}`);
+      return null;
+    }
+
+    const cbStatus = this.circuitBreakerStatus(circuitBreaker.checkPrice(pair, derived.price));
+    if (cbStatus.allowed && softHalted.length > 0) {
+      cbStatus.flagged = true;
+      cbStatus.reason = cbStatus.reason ?? `Soft halt on leg ${softHalted.join(', ')}`;
+    }
+
+    logger.info(`Derived ${pair}: ${derived.price.toPrecision(8)} as ${derivation.op} of ${derivation.legs.join(', ')} [CB: ${this.describeCircuitBreaker(cbStatus)}]`);
+
+    return {
+      pair,
+      price: derived.price,
+      scaledPrice: BigInt(Math.round(derived.price * Number(config.priceScale))),
+      timestamp: derived.timestamp,
+      sources: derived.sources,
+      sourceCount: derived.sourceCount,
+      aggregation: derived.aggregation,
+      sourceBreakdown: legs.flatMap(leg => (leg!.sourceBreakdown || []).map(quote => ({ ...quote, leg: leg!.pair }))),
+      confidence: derived.confidence,
+      circuitBreakerStatus: cbStatus
+    };
+  }
+
+  private circuitBreakerStatus(cbResult: PriceCheckResult): AggregatedPriceWithCircuitBreaker['circuitBreakerStatus'] {
+    return {
+      allowed: cbResult.allowed,
+      isHalted: cbResult.state.isHalted,
+      flagged: cbResult.flagged,
+      severity: cbResult.state.severity,
+      reason: cbResult.reason,
+      reasonCode: cbResult.reasonCode ?? 0,
+      tripCount: cbResult.state.tripCount
+    };
+  }
+
+  private describeCircuitBreaker(status: AggregatedPriceWithCircuitBreaker['circuitBreakerStatus']): string {
+    if (!status.allowed) return 'HALTED';
+    return status.flagged ? 'FLAGGED' : 'OK';
+  }
+
+  // Per-source table: raw and converted price, latency, deviation and fate of each quote
+  private buildSourceBreakdown(fetched: PriceResult[], aggregation: AggregationDetails): SourceQuote[] {
+    const center = aggregation.initialMedian;
+    const conversions = new Map((aggregation.quoteConversions || []).map(c => [c.source, c]));
+    const reasons = new Map(aggregation.rejected.map(r => [r.source, r.reason]));
+
+    return fetched.map(quote => {
+      const conversion = conversions.get(quote.source);
+      const price = conversion?.price ?? quote.price;
+      const included = aggregation.included.includes(quote.source);
+      return {
+        source: quote.source,
+        rawPrice: quote.price,
+        quoteAsset: conversion?.quoteAsset ?? quote.pair.split('/')[1],
+        price,
+        timestamp: quote.timestamp,
+        latencyMs: quote.latencyMs,
+        deviationPercent: center > 0 ? ((price - center) / center) * 100 : 0,
+        status: included ? 'included' : 'rejected',
+        reason: included ? undefined : reasons.get(quote.source)
+      };
+    });
+  }
+
+  // Recent aggregate for a leg, fetching it (once, for concurrent callers) if stale
+  private getLegPrice(pair: string): Promise<AggregatedPriceWithCircuitBreaker | null> {
+    const cached = this.lastAggregated.get(pair);
+    if (cached && Date.now() - cached.timestamp <= config.derived.maxLegAgeMs) {
+      return Promise.resolve(cached);
+    }
+
+    let pending = this.pendingLegs.get(pair);
+    if (!pending) {
+      pending = this.getAggregatedPrice(pair).finally(() => this.pendingLegs.delete(pair));
+      this.pendingLegs.set(pair, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Resolve the aggregation strategy configured for a pair
+   */
+  getStrategy(pair: string): AggregationStrategy {
+    const name = config.aggregation.pairStrategies[pair] || config.aggregation.defaultStrategy;
+    const strategy = getAggregationStrategy(name);
+    if (!strategy) {
+      logger.warn(`Unknown aggregation strategy "${name}" for ${pair}, using filtered-median`);
+      return new FilteredMedianStrategy();
+    }
+    return strategy;
+  }
+
+  /**
+   * Options passed to every strategy: configured thresholds and current source weights
+   */
+  getAggregationOptions(): AggregationOptions {
+    return {
+      outlierThreshold: config.outlierThreshold,
+      trimPercent: config.aggregation.trimPercent,
+      madThreshold: config.aggregation.madThreshold,
+      sourceReliability: this.getSourceWeights()
     };
   }
 
@@ -177,6 +409,26 @@ export class PriceAggregator {
     return status;
   }
 
+  /**
+   * Configured source reliability scaled by each provider's health score
+   */
+  getSourceWeights(): { [source: string]: number } {
+    const weights: { [source: string]: number } = {};
+    for (const provider of this.providers) {
+      const reliability = config.aggregation.sourceReliability[provider.name] ?? 1;
+      weights[provider.name] = reliability * providerHealth.getScore(provider.name);
+    }
+    return weights;
+  }
+
+  getReferenceRates(): ReferenceRate[] {
+    return stablecoinNormalizer.getRates();
+  }
+
+  getProviderHealth(): ProviderHealthReport[] {
+    return providerHealth.getAllReports(this.getProviderNames());
+  }
+
   getProviderCount(): number {
     return this.providers.length;
   }
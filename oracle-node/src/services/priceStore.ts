@@ -1,36 +1,45 @@
 import { AggregatedPrice } from './priceAggregator';
+import { HistoryStorage, MemoryHistoryStorage, createHistoryStorage } from './historyStorage';
+import { RollingAggregates, AnalyticsConfig, PriceStats } from './rollingAggregates';
+import { CandlePage, CandleQuery, alignToInterval, buildCandles, fillGaps } from './candleEngine';
+import { twapCalculator, TWAPResult, PriceMetrics } from './twapCalculator';
+import { config } from '../config';
 import { logger } from './logger';
 
-interface StoredPrice extends AggregatedPrice {
+export interface StoredPrice extends AggregatedPrice {
   signature?: string;
   operatorAddress?: string;
-}
-
-interface PriceStats {
-  high: number;
-  low: number;
-  open: number;
-  close: number;
-  average: number;
-  volatility: number;
-  change: number;
-  changePercent: number;
-  dataPoints: number;
-}
-
-interface PriceCandle {
-  timestamp: number;
-  open: number;
-  high: number;
-  low: number;
-  close: number;
-  volume: number;
+  backfilled?: boolean;     // Seeded from exchange klines (see services/historyBackfill.ts), never signed
 }
 
 export class PriceStore {
   private prices: Map<string, StoredPrice> = new Map();
-  private priceHistory: Map<string, StoredPrice[]> = new Map();
-  private maxHistoryLength = 10000; // Extended to ~27 hours at 10s intervals
+  private storage: HistoryStorage;
+  // Running stats, TWAPs and candles per pair, updated on every setPrice
+  private aggregates: Map<string, RollingAggregates> = new Map();
+  private analytics: AnalyticsConfig;
+  private windowsMs: number[];
+  private intervalsMs: number[];
+
+  constructor(storage: HistoryStorage = new MemoryHistoryStorage(), analytics: AnalyticsConfig = config.analytics) {
+    this.storage = storage;
+    this.analytics = analytics;
+    // TWAP windows are always tracked: every price response carries them
+    this.windowsMs = Array.from(new Set([...Object.values(analytics.statsWindows), ...Object.values(config.twap.windows)]));
+    this.intervalsMs = Object.values(analytics.candleIntervals);
+
+    // Restore latest prices and rolling aggregates from persisted history.
+    // Backfilled history fills the windows but is never served as the current price.
+    for (const pair of storage.getPairs()) {
+      const latest = storage.getLatest(pair);
+      if (latest) {
+        if (!latest.backfilled) this.prices.set(pair, latest);
+        this.rebuildAggregates(pair);
+      }
+    }
+
+    logger.info(`Price store using ${storage.name} history backend (${this.prices.size} pairs restored)`);
+  }
 
   setPrice(price: AggregatedPrice, signature?: string, operatorAddress?: string): void {
     const stored: StoredPrice = {
@@ -39,24 +48,35 @@ export class PriceStore {
       operatorAddress
     };
 
-    this.prices.set(price.pair, stored);
-
-    // Add to history
-    if (!this.priceHistory.has(price.pair)) {
-      this.priceHistory.set(price.pair, []);
+    // A late price goes into history but is never served as the latest
+    const latest = this.prices.get(price.pair);
+    if (!latest || price.timestamp >= latest.timestamp) {
+      this.prices.set(price.pair, stored);
     }
+    this.storage.append(stored);
 
-    const history = this.priceHistory.get(price.pair)!;
-    history.push(stored);
-
-    // Trim history if too long
-    if (history.length > this.maxHistoryLength) {
-      history.shift();
-    }
+    // Late prices are merged in memory (see RollingAggregates.add), history is not re-read
+    (this.aggregates.get(price.pair) || this.createAggregates(price.pair)).add(price.timestamp, price.price, price.volume24h);
 
     logger.debug(`Stored price for ${price.pair}: $${price.price}`);
   }
 
+  /**
+   * Seed history older than anything stored (see services/historyBackfill.ts).
+   * Prices must be sorted; those not older than the earliest stored price are
+   * skipped. Returns how many were stored.
+   */
+  backfill(pair: string, prices: StoredPrice[]): number {
+    const earliest = this.storage.getEarliest(pair);
+    const older = earliest ? prices.filter(p => p.timestamp < earliest.timestamp) : prices;
+    if (older.length === 0) return 0;
+
+    this.storage.prepend(pair, older);
+    this.rebuildAggregates(pair);
+    logger.info(`Backfilled ${older.length} prices for ${pair}`);
+    return older.length;
+  }
+
   getPrice(pair: string): StoredPrice | null {
     return this.prices.get(pair) || null;
   }
@@ -65,22 +85,45 @@ export class PriceStore {
     return Array.from(this.prices.values());
   }
 
+  // Get the most recent history (served from memory)
   getHistory(pair: string, limit?: number): StoredPrice[] {
-    const history = this.priceHistory.get(pair) || [];
-    if (limit) {
-      return history.slice(-limit);
-    }
-    return history;
+    return this.storage.getRecent(pair, limit);
   }
 
-  // Get history within a time range
+  // Get history within a time range (may read from the persistent backend)
   getHistoryByTimeRange(pair: string, startTime: number, endTime: number): StoredPrice[] {
-    const history = this.priceHistory.get(pair) || [];
-    return history.filter(p => p.timestamp >= startTime && p.timestamp <= endTime);
+    return this.storage.getRange(pair, startTime, endTime);
+  }
+
+  // Get all history within the trailing window, e.g. for the 7d TWAP
+  getHistorySince(pair: string, windowMs: number): StoredPrice[] {
+    const now = Date.now();
+    return this.getHistoryByTimeRange(pair, now - windowMs, now);
+  }
+
+  private createAggregates(pair: string, since?: number): RollingAggregates {
+    const aggregates = new RollingAggregates(this.windowsMs, this.intervalsMs, this.analytics.candleRetention, since);
+    this.aggregates.set(pair, aggregates);
+    return aggregates;
+  }
+
+  // Replay stored history over the longest window. Candle series start from there
+  // too; older buckets are built from history when queried (see getCandles).
+  private rebuildAggregates(pair: string): void {
+    const spanMs = Math.max(0, ...this.windowsMs);
+    const now = Date.now();
+    const aggregates = this.createAggregates(pair, now - spanMs);
+    for (const price of this.storage.getRange(pair, now - spanMs, now)) {
+      aggregates.add(price.timestamp, price.price, price.volume24h);
+    }
   }
 
-  // Get price statistics for a time window
+  // Get price statistics for a time window (rolling for configured windows, else a scan)
   getStats(pair: string, windowMs: number): PriceStats | null {
+    if (this.windowsMs.includes(windowMs)) {
+      return this.aggregates.get(pair)?.getStats(windowMs, Date.now()) ?? null;
+    }
+
     const now = Date.now();
     const history = this.getHistoryByTimeRange(pair, now - windowMs, now);
 
@@ -114,43 +157,84 @@ export class PriceStore {
     };
   }
 
-  // Get OHLC candles for charting
-  getCandles(pair: string, intervalMs: number, limit: number = 100): PriceCandle[] {
-    const history = this.priceHistory.get(pair) || [];
-    if (history.length === 0) return [];
+  /**
+   * OHLC candles aligned to UTC interval boundaries, one per bucket: gaps are
+   * forward-filled as synthetic candles. Without `from` this is the latest
+   * `limit` buckets up to `to`; with it, up to `limit` buckets starting at `from`.
+   */
+  getCandles(pair: string, intervalMs: number, query: CandleQuery = {}): CandlePage {
+    const limit = Math.max(1, Math.min(query.limit ?? 100, this.analytics.maxCandles));
+    const last = alignToInterval(Math.min(query.to ?? Infinity, Date.now()), intervalMs);
+    const first = query.from !== undefined
+      ? alignToInterval(query.from, intervalMs)
+      : last - (limit - 1) * intervalMs;
+    const to = Math.min(last, first + (limit - 1) * intervalMs);
+    if (to < first) return { candles: [], from: first, to: first, truncated: false };
+
+    // Served from the in-memory series when it holds the whole range, else built from history
+    const series = this.aggregates.get(pair)?.getCandleSeries(intervalMs);
+    let range;
+    if (series?.covers(first)) {
+      range = series.range(first, to);
+    } else {
+      range = { candles: buildCandles(this.getHistoryByTimeRange(pair, first, to + intervalMs - 1), intervalMs), previousClose: null };
+    }
+
+    return {
+      candles: fillGaps(range.candles, intervalMs, first, to, range.previousClose),
+      from: first,
+      to,
+      truncated: to < last
+    };
+  }
 
-    const candles: PriceCandle[] = [];
+  // 5m, 1h, 24h and 7d TWAPs from the rolling windows, without reading history
+  getTWAPs(pair: string, currentPrice: number): TWAPResult {
+    const aggregates = this.aggregates.get(pair);
     const now = Date.now();
-    const startTime = now - (intervalMs * limit);
+    const windows = config.twap.windows;
+    const twap = (windowMs: number) => aggregates?.getTWAP(windowMs, now) ?? 0;
+    const count = (windowMs: number) => aggregates?.countSince(windowMs, now) ?? 0;
+
+    return twapCalculator.summarize(
+      pair,
+      { twap5m: twap(windows['5m']), twap1h: twap(windows['1h']), twap24h: twap(windows['24h']), twap7d: twap(windows['7d']) },
+      { '5m': count(windows['5m']), '1h': count(windows['1h']), '24h': count(windows['24h']), '7d': count(windows['7d']) },
+      currentPrice
+    );
+  }
 
-    // Group prices by candle interval
-    const candleMap = new Map<number, StoredPrice[]>();
+  /**
+   * TWAP and EMA for every config.twap.windows entry, and realized, EWMA and
+   * Parkinson volatility for every config.metrics.volatility entry
+   */
+  getMetrics(pair: string, currentPrice: number): PriceMetrics {
+    const aggregates = this.aggregates.get(pair);
+    const now = Date.now();
 
-    for (const price of history) {
-      if (price.timestamp < startTime) continue;
-      const candleTime = Math.floor(price.timestamp / intervalMs) * intervalMs;
-      if (!candleMap.has(candleTime)) {
-        candleMap.set(candleTime, []);
-      }
-      candleMap.get(candleTime)!.push(price);
+    const windows: PriceMetrics['windows'] = {};
+    for (const [name, windowMs] of Object.entries(config.twap.windows)) {
+      const twap = aggregates?.getTWAP(windowMs, now) ?? 0;
+      windows[name] = {
+        twap,
+        ema: aggregates?.getEMA(windowMs) ?? null,
+        deviation: twap > 0 ? ((currentPrice - twap) / twap) * 100 : 0,
+        dataPoints: aggregates?.countSince(windowMs, now) ?? 0
+      };
     }
 
-    // Convert to candles
-    const sortedTimes = Array.from(candleMap.keys()).sort((a, b) => a - b);
-    for (const time of sortedTimes) {
-      const prices = candleMap.get(time)!;
-      const priceValues = prices.map(p => p.price);
-      candles.push({
-        timestamp: time,
-        open: priceValues[0],
-        high: Math.max(...priceValues),
-        low: Math.min(...priceValues),
-        close: priceValues[priceValues.length - 1],
-        volume: prices.length
-      });
+    const volatility: PriceMetrics['volatility'] = {};
+    for (const [name, { windowMs, interval }] of Object.entries(config.metrics.volatility)) {
+      const intervalMs = this.analytics.candleIntervals[interval];
+      if (!intervalMs) continue;
+      const { candles } = this.getCandles(pair, intervalMs, { limit: Math.ceil(windowMs / intervalMs) });
+      volatility[name] = {
+        interval,
+        ...twapCalculator.calculateVolatility(candles, intervalMs, config.metrics.ewmaLambda)
+      };
     }
 
-    return candles.slice(-limit);
+    return { pair, currentPrice, windows, volatility, timestamp: now };
   }
 
   // Get trend analysis
@@ -203,12 +287,16 @@ export class PriceStore {
   // Get all history counts for debugging
   getHistoryCounts(): { [pair: string]: number } {
     const counts: { [pair: string]: number } = {};
-    for (const [pair, history] of this.priceHistory) {
-      counts[pair] = history.length;
+    for (const pair of this.storage.getPairs()) {
+      counts[pair] = this.storage.count(pair);
     }
     return counts;
   }
+
+  getBackendName(): string {
+    return this.storage.name;
+  }
 }
 
-// Singleton instance
-export const priceStore = new PriceStore();
+// Singleton instance backed by the configured history storage
+export const priceStore = new PriceStore(createHistoryStorage(config.history));
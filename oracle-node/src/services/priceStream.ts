@@ -0,0 +1,165 @@
+import { Response } from 'express';
+import { AggregatedPriceWithCircuitBreaker } from './priceAggregator';
+import { CircuitBreakerState, HaltSeverity } from './circuitBreaker';
+import { PriceConfidence } from './confidence';
+import { logger } from './logger';
+import { pairRegistry } from '../pairRegistry';
+
+export type StreamEventType = 'snapshot' | 'price' | 'circuit-breaker' | 'heartbeat';
+
+export interface StreamPricePayload {
+  pair: string;
+  pairId: number;
+  price: number;
+  scaledPrice: string;
+  timestamp: number;
+  sources: string[];
+  sourceCount: number;
+  confidence: PriceConfidence | null;
+  signature?: string;
+  operatorAddress?: string;
+  circuitBreakerStatus: AggregatedPriceWithCircuitBreaker['circuitBreakerStatus'];
+}
+
+export interface StreamCircuitBreakerPayload {
+  pair: string;
+  event: 'trip' | 'resume';
+  isHalted: boolean;
+  severity: HaltSeverity | null;
+  haltedAt: number | null;
+  haltUntil: number | null;
+  reason: string | null;
+  reasonCode: number;
+  tripCount: number;
+  timestamp: number;
+}
+
+interface StreamClient {
+  id: number;
+  res: Response;
+  pairs: Set<string> | null;  // null = subscribed to every pair
+}
+
+export class PriceStream {
+  private clients: Map<number, StreamClient> = new Map();
+  private nextClientId = 1;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private eventId = 0;
+
+  /**
+   * Register an SSE client. Pass null pairs to receive updates for every pair.
+   * Returns the client id; the client is dropped automatically when the connection closes.
+   */
+  addClient(res: Response, pairs: string[] | null): number {
+    const id = this.nextClientId++;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.write('retry: 5000\n\n');
+
+    this.clients.set(id, {
+      id,
+      res,
+      pairs: pairs ? new Set(pairs) : null
+    });
+
+    res.on('close', () => this.removeClient(id));
+
+    logger.debug(`Stream client ${id} connected (pairs: ${pairs ? pairs.join(', ') : 'all'})`);
+    return id;
+  }
+
+  removeClient(id: number): void {
+    if (this.clients.delete(id)) {
+      logger.debug(`Stream client ${id} disconnected`);
+    }
+  }
+
+  /**
+   * Push a freshly stored aggregated price to all clients subscribed to its pair
+   */
+  publishPrice(price: AggregatedPriceWithCircuitBreaker, signature?: string, operatorAddress?: string): void {
+    const payload: StreamPricePayload = {
+      pair: price.pair,
+      pairId: pairRegistry.getPairId(price.pair),
+      price: price.price,
+      scaledPrice: price.scaledPrice.toString(),
+      timestamp: price.timestamp,
+      sources: price.sources,
+      sourceCount: price.sourceCount,
+      confidence: price.confidence ?? null,
+      signature,
+      operatorAddress,
+      circuitBreakerStatus: price.circuitBreakerStatus
+    };
+
+    this.broadcast('price', payload, price.pair);
+  }
+
+  /**
+   * Push a circuit breaker trip or resume to all clients subscribed to the pair
+   */
+  publishCircuitBreaker(event: 'trip' | 'resume', state: CircuitBreakerState): void {
+    const payload: StreamCircuitBreakerPayload = {
+      pair: state.pair,
+      event,
+      isHalted: state.isHalted,
+      severity: state.severity,
+      haltedAt: state.haltedAt,
+      haltUntil: state.haltUntil,
+      reason: state.lastTripReason,
+      reasonCode: state.lastTripReasonCode,
+      tripCount: state.tripCount,
+      timestamp: Date.now()
+    };
+
+    this.broadcast('circuit-breaker', payload, state.pair);
+  }
+
+  /**
+   * Start sending heartbeat frames so clients can detect a dead connection
+   */
+  startHeartbeat(intervalMs: number): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => {
+      this.broadcast('heartbeat', { timestamp: Date.now(), clients: this.clients.size }, null);
+    }, intervalMs);
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Close every open stream (used on shutdown)
+   */
+  closeAll(): void {
+    for (const client of this.clients.values()) {
+      client.res.end();
+    }
+    this.clients.clear();
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private broadcast(event: StreamEventType, data: object, pair: string | null): void {
+    const frame = `id: ${++this.eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    for (const client of this.clients.values()) {
+      if (pair !== null && client.pairs && !client.pairs.has(pair)) continue;
+      client.res.write(frame);
+    }
+  }
+}
+
+// Singleton instance
+export const priceStream = new PriceStream();
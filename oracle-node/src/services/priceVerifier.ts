@@ -0,0 +1,53 @@
+import {
+  PriceClaim,
+  VerificationResult,
+  verifyPriceSignature as verifyWithSdk
+} from '../shared/priceMessage';
+import { aleoSdk } from './signer';
+import { StoredPrice } from './priceStore';
+import { pairRegistry } from '../pairRegistry';
+
+export {
+  PriceClaim,
+  PriceMessageField,
+  FieldMismatch,
+  VerificationResult,
+  checkPriceMessage,
+  parsePriceMessage
+} from '../shared/priceMessage';
+
+/**
+ * Verify a claim with the node's SDK (see shared/priceMessage.ts)
+ */
+export function verifyPriceSignature(claim: PriceClaim, reference?: Omit<PriceClaim, 'signature'>): VerificationResult {
+  return verifyWithSdk(aleoSdk, claim, reference);
+}
+
+// Verification results by signature; a stored price's signature never changes
+const storedResults: Map<string, boolean> = new Map();
+const MAX_CACHED_RESULTS = 1000;
+
+/**
+ * Verify the signature stored alongside a price, as served by the price routes
+ */
+export function verifyStoredPrice(price: StoredPrice): boolean {
+  if (!price.signature || !price.operatorAddress) return false;
+
+  const cached = storedResults.get(price.signature);
+  if (cached !== undefined) return cached;
+
+  const { valid } = verifyPriceSignature({
+    pairId: pairRegistry.getPairId(price.pair),
+    price: price.scaledPrice,
+    timestamp: price.timestamp,
+    sourceCount: price.sourceCount,
+    signature: price.signature,
+    operatorAddress: price.operatorAddress
+  });
+
+  if (storedResults.size >= MAX_CACHED_RESULTS) {
+    storedResults.delete(storedResults.keys().next().value as string);
+  }
+  storedResults.set(price.signature, valid);
+  return valid;
+}
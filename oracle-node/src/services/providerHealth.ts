@@ -0,0 +1,287 @@
+import { config } from '../config';
+import { logger } from './logger';
+
+export interface ProviderHealthConfig {
+  windowSize: number;              // Recent fetches kept per provider
+  minSamples: number;              // Fetches needed before a provider can be scored into quarantine
+  quarantineScore: number;         // Quarantine when the score drops below this (0-1)
+  maxConsecutiveFailures: number;  // Quarantine immediately after this many failures in a row
+  baseQuarantineMs: number;        // First quarantine; doubles on each repeat
+  maxQuarantineMs: number;         // Back-off cap
+  probationSuccesses: number;      // Clean fetches required to be re-admitted
+  staleAfterMs: number;            // A quote older than this at fetch time counts as stale
+  targetLatencyMs: number;         // Latency above this lowers the score
+  forgiveAfterMs: number;          // Healthy this long resets the back-off
+}
+
+export type ProviderStatus = 'healthy' | 'quarantined' | 'probation';
+
+interface FetchSample {
+  pair: string;
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+  stale: boolean;
+  outlier: boolean;
+}
+
+interface ProviderState {
+  status: ProviderStatus;
+  samples: FetchSample[];
+  consecutiveFailures: number;
+  quarantineCount: number;         // Drives the exponential back-off
+  quarantinedAt: number | null;
+  quarantineUntil: number | null;
+  lastReason: string | null;
+  probationPassed: number;
+  healthySince: number;
+}
+
+export interface ProviderHealthReport {
+  name: string;
+  status: ProviderStatus;
+  score: number;                   // 0-1, used as a weight by the aggregator
+  samples: number;
+  errorRate: number;
+  outlierRate: number;
+  staleRate: number;
+  avgLatencyMs: number | null;
+  consecutiveFailures: number;
+  quarantineCount: number;
+  quarantinedAt: number | null;
+  quarantineUntil: number | null;
+  reason: string | null;
+  probationRemaining: number | null;
+}
+
+const DEFAULT_CONFIG: ProviderHealthConfig = {
+  windowSize: 50,
+  minSamples: 10,
+  quarantineScore: 0.5,
+  maxConsecutiveFailures: 5,
+  baseQuarantineMs: 60000,          // 1 minute
+  maxQuarantineMs: 3600000,         // 1 hour
+  probationSuccesses: 3,
+  staleAfterMs: 30000,
+  targetLatencyMs: 1000,
+  forgiveAfterMs: 3600000
+};
+
+/**
+ * Tracks each provider's latency, error rate, outlier frequency and staleness.
+ * Bad providers are quarantined (not called) with exponential back-off, then
+ * put on probation: they are called again but their prices are not used until
+ * they deliver `probationSuccesses` clean quotes in a row.
+ */
+export class ProviderHealthTracker {
+  private config: ProviderHealthConfig;
+  private states: Map<string, ProviderState> = new Map();
+
+  constructor(config: Partial<ProviderHealthConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  private getState(name: string): ProviderState {
+    if (!this.states.has(name)) {
+      this.states.set(name, {
+        status: 'healthy',
+        samples: [],
+        consecutiveFailures: 0,
+        quarantineCount: 0,
+        quarantinedAt: null,
+        quarantineUntil: null,
+        lastReason: null,
+        probationPassed: 0,
+        healthySince: Date.now()
+      });
+    }
+    return this.states.get(name)!;
+  }
+
+  /**
+   * Current status; a quarantine whose back-off has elapsed moves to probation
+   */
+  getStatus(name: string): ProviderStatus {
+    const state = this.getState(name);
+    if (state.status === 'quarantined' && state.quarantineUntil !== null && Date.now() >= state.quarantineUntil) {
+      state.status = 'probation';
+      state.probationPassed = 0;
+      logger.info(`Provider ${name} on probation after ${state.quarantineCount} quarantine(s)`);
+    }
+    return state.status;
+  }
+
+  /**
+   * Whether the provider should be called at all
+   */
+  shouldFetch(name: string): boolean {
+    return this.getStatus(name) !== 'quarantined';
+  }
+
+  /**
+   * Whether the provider's prices may be used in aggregation
+   */
+  isAdmitted(name: string): boolean {
+    return this.getStatus(name) === 'healthy';
+  }
+
+  /**
+   * Record the outcome of one fetch. `quoteTimestamp` is the time the quote
+   * was produced (older than staleAfterMs = stale); null price = failure.
+   */
+  recordFetch(name: string, pair: string, latencyMs: number, ok: boolean, quoteTimestamp?: number): void {
+    const state = this.getState(name);
+    const now = Date.now();
+    const stale = ok && quoteTimestamp !== undefined && now - quoteTimestamp > this.config.staleAfterMs;
+
+    state.samples.push({ pair, at: now, ok, latencyMs, stale, outlier: false });
+    if (state.samples.length > this.config.windowSize) {
+      state.samples.shift();
+    }
+
+    state.consecutiveFailures = ok ? 0 : state.consecutiveFailures + 1;
+    const status = this.getStatus(name);
+
+    if (status === 'probation') {
+      if (!ok || stale) {
+        this.quarantine(name, ok ? 'Stale quote during probation' : 'Fetch failed during probation');
+      }
+      return;
+    }
+
+    if (status === 'healthy') {
+      if (state.consecutiveFailures >= this.config.maxConsecutiveFailures) {
+        this.quarantine(name, `${state.consecutiveFailures} consecutive failures`);
+      } else {
+        this.checkScore(name);
+      }
+    }
+  }
+
+  /**
+   * Record whether the provider's latest quote for a pair agreed with the
+   * aggregate. During probation an agreeing quote counts towards re-admission.
+   */
+  recordConsensus(name: string, pair: string, outlier: boolean): void {
+    const state = this.getState(name);
+    const sample = [...state.samples].reverse().find(s => s.pair === pair && s.ok);
+    if (!sample) return;
+
+    sample.outlier = outlier;
+    const status = this.getStatus(name);
+
+    if (status === 'probation') {
+      if (outlier) {
+        this.quarantine(name, `Outlier on ${pair} during probation`);
+      } else if (!sample.stale && ++state.probationPassed >= this.config.probationSuccesses) {
+        state.status = 'healthy';
+        state.healthySince = Date.now();
+        state.samples = [];
+        state.quarantineUntil = null;
+        logger.info(`Provider ${name} re-admitted after probation`);
+      }
+      return;
+    }
+
+    if (status === 'healthy') {
+      this.checkScore(name);
+    }
+  }
+
+  /**
+   * Score in [0, 1]: success rate, penalised for outliers, stale quotes and slow responses
+   */
+  getScore(name: string): number {
+    const samples = this.getState(name).samples;
+    if (samples.length === 0) return 1;
+
+    const { errorRate, outlierRate, staleRate, avgLatencyMs } = this.rates(samples);
+    const latencyFactor = avgLatencyMs !== null && avgLatencyMs > this.config.targetLatencyMs
+      ? this.config.targetLatencyMs / avgLatencyMs
+      : 1;
+
+    return (1 - errorRate) * (1 - outlierRate) * (1 - staleRate / 2) * latencyFactor;
+  }
+
+  private rates(samples: FetchSample[]) {
+    const ok = samples.filter(s => s.ok);
+    const latencies = ok.map(s => s.latencyMs);
+    return {
+      errorRate: samples.length > 0 ? (samples.length - ok.length) / samples.length : 0,
+      outlierRate: ok.length > 0 ? ok.filter(s => s.outlier).length / ok.length : 0,
+      staleRate: ok.length > 0 ? ok.filter(s => s.stale).length / ok.length : 0,
+      avgLatencyMs: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : null
+    };
+  }
+
+  private checkScore(name: string): void {
+    const state = this.getState(name);
+
+    // A provider that has behaved for a while starts its back-off from scratch
+    if (state.quarantineCount > 0 && Date.now() - state.healthySince >= this.config.forgiveAfterMs) {
+      state.quarantineCount = 0;
+    }
+
+    if (state.samples.length < this.config.minSamples) return;
+
+    const score = this.getScore(name);
+    if (score < this.config.quarantineScore) {
+      this.quarantine(name, `Score ${score.toFixed(2)} below ${this.config.quarantineScore}`);
+    }
+  }
+
+  private quarantine(name: string, reason: string): void {
+    const state = this.getState(name);
+    const now = Date.now();
+    const duration = Math.min(
+      this.config.baseQuarantineMs * Math.pow(2, state.quarantineCount),
+      this.config.maxQuarantineMs
+    );
+
+    state.status = 'quarantined';
+    state.quarantineCount++;
+    state.quarantinedAt = now;
+    state.quarantineUntil = now + duration;
+    state.lastReason = reason;
+    state.probationPassed = 0;
+
+    logger.warn(`Provider ${name} quarantined for ${duration / 1000}s: ${reason}`);
+  }
+
+  /**
+   * Manually re-admit a provider and clear its history
+   */
+  reset(name: string): void {
+    this.states.delete(name);
+  }
+
+  getReport(name: string): ProviderHealthReport {
+    const status = this.getStatus(name);
+    const state = this.getState(name);
+    const rates = this.rates(state.samples);
+
+    return {
+      name,
+      status,
+      score: Number(this.getScore(name).toFixed(4)),
+      samples: state.samples.length,
+      errorRate: Number(rates.errorRate.toFixed(4)),
+      outlierRate: Number(rates.outlierRate.toFixed(4)),
+      staleRate: Number(rates.staleRate.toFixed(4)),
+      avgLatencyMs: rates.avgLatencyMs !== null ? Math.round(rates.avgLatencyMs) : null,
+      consecutiveFailures: state.consecutiveFailures,
+      quarantineCount: state.quarantineCount,
+      quarantinedAt: state.quarantinedAt,
+      quarantineUntil: status === 'quarantined' ? state.quarantineUntil : null,
+      reason: state.lastReason,
+      probationRemaining: status === 'probation' ? this.config.probationSuccesses - state.probationPassed : null
+    };
+  }
+
+  getAllReports(names: string[]): ProviderHealthReport[] {
+    return names.map(name => this.getReport(name));
+  }
+}
+
+// Singleton instance
+export const providerHealth = new ProviderHealthTracker(config.providerHealth);
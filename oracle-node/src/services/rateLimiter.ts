@@ -0,0 +1,176 @@
+import { config } from '../config';
+import { logger } from './logger';
+
+export interface RateLimitTier {
+  requestsPerMinute: number;       // Sustained rate (bucket refill)
+  burst: number;                   // Bucket size: requests allowed back to back
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  // Anonymous callers are limited per IP under "anonymous"; API keys per key
+  // under their role's tier, or the tier named in keyTiers. A null tier is unlimited.
+  tiers: { [tier: string]: RateLimitTier | null };
+  keyTiers: { [keyName: string]: string };
+  // Request cost by path pattern (first match wins, default 1)
+  pathCosts: { pattern: string; cost: number }[];
+  idleEvictMs: number;             // Forget callers idle this long
+  maxTracked: number;              // Evict idle callers once this many are tracked
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;                   // Bucket size
+  remaining: number;               // Whole requests left right now
+  retryAfterMs: number;            // 0 when allowed
+}
+
+export interface RateLimitUsage {
+  identity: string;                // "ip:<address>" or "key:<name>"
+  tier: string;
+  requests: number;
+  throttled: number;
+  cost: number;                    // Total cost consumed
+  tokens: number;                  // Left in the bucket at lastSeen
+  firstSeen: number;
+  lastSeen: number;
+}
+
+interface Bucket extends RateLimitUsage {
+  updatedAt: number;               // Last refill
+}
+
+/**
+ * Token buckets per caller: each request takes its path's cost from the
+ * caller's bucket, which refills at the tier's sustained rate.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  // Least recently seen first: a bucket is moved to the end on every request
+  private buckets: Map<string, Bucket> = new Map();
+  private costs: { pattern: RegExp; cost: number }[];
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+    this.costs = config.pathCosts.map(c => ({ pattern: new RegExp(c.pattern), cost: c.cost }));
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Tier for a caller: anonymous, or an API key's override or role
+   */
+  tierFor(keyName: string | null, role: string | null): string {
+    if (!keyName) return 'anonymous';
+    return this.config.keyTiers[keyName] ?? role ?? 'anonymous';
+  }
+
+  costOf(path: string): number {
+    return this.costs.find(c => c.pattern.test(path))?.cost ?? 1;
+  }
+
+  /**
+   * Take `cost` tokens from the caller's bucket if it has them
+   */
+  consume(identity: string, tierName: string, cost: number, now: number = Date.now()): RateLimitDecision {
+    const tier = this.config.tiers[tierName];
+    const bucket = this.getBucket(identity, tierName, tier, now);
+    bucket.requests++;
+    bucket.lastSeen = now;
+
+    if (tier === null || tier === undefined) {
+      bucket.cost += cost;
+      return { allowed: true, limit: Infinity, remaining: Infinity, retryAfterMs: 0 };
+    }
+
+    const perMs = tier.requestsPerMinute / 60000;
+    bucket.tokens = Math.min(tier.burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+
+    // A request costing more than the bucket holds needs a full bucket
+    const take = Math.min(cost, tier.burst);
+    if (bucket.tokens >= take) {
+      bucket.tokens -= take;
+      bucket.cost += take;
+      return { allowed: true, limit: tier.burst, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+    }
+
+    bucket.throttled++;
+    return {
+      allowed: false,
+      limit: tier.burst,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: Math.ceil((take - bucket.tokens) / perMs)
+    };
+  }
+
+  private getBucket(identity: string, tierName: string, tier: RateLimitTier | null | undefined, now: number): Bucket {
+    let bucket = this.buckets.get(identity);
+    if (bucket) {
+      this.buckets.delete(identity);
+      this.buckets.set(identity, bucket);
+    }
+    if (!bucket || bucket.tier !== tierName) {
+      if (!bucket && this.buckets.size >= this.config.maxTracked) {
+        this.evict(now);
+      }
+      bucket = {
+        identity,
+        tier: tierName,
+        requests: bucket?.requests ?? 0,
+        throttled: bucket?.throttled ?? 0,
+        cost: bucket?.cost ?? 0,
+        tokens: tier ? tier.burst : 0,
+        firstSeen: bucket?.firstSeen ?? now,
+        lastSeen: now,
+        updatedAt: now
+      };
+      this.buckets.set(identity, bucket);
+    }
+    return bucket;
+  }
+
+  // Forget idle callers; when none are idle (many active callers, e.g. spoofed
+  // X-Forwarded-For addresses), forget the least recently seen one so the map stays bounded
+  private evict(now: number): void {
+    let evicted = 0;
+    for (const [identity, bucket] of this.buckets) {
+      if (now - bucket.lastSeen <= this.config.idleEvictMs) break;
+      this.buckets.delete(identity);
+      evicted++;
+    }
+    if (evicted === 0) {
+      const oldest = this.buckets.keys().next().value as string;
+      this.buckets.delete(oldest);
+      evicted++;
+    }
+    logger.debug(`Rate limiter evicted ${evicted} callers`);
+  }
+
+  /**
+   * Usage counters per tracked caller, busiest first
+   */
+  getUsage(): RateLimitUsage[] {
+    return Array.from(this.buckets.values())
+      .map(bucket => ({
+        identity: bucket.identity,
+        tier: bucket.tier,
+        requests: bucket.requests,
+        throttled: bucket.throttled,
+        cost: bucket.cost,
+        tokens: Math.floor(bucket.tokens),
+        firstSeen: bucket.firstSeen,
+        lastSeen: bucket.lastSeen
+      }))
+      .sort((a, b) => b.cost - a.cost);
+  }
+
+  getConfig(): RateLimitConfig {
+    return this.config;
+  }
+}
+
+// Singleton instance
+export const rateLimiter = new RateLimiter(config.rateLimit);
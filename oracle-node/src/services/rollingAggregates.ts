@@ -0,0 +1,307 @@
+import { CandleSeries } from './candleEngine';
+import { twapCalculator } from './twapCalculator';
+
+export interface PriceStats {
+  high: number;
+  low: number;
+  open: number;
+  close: number;
+  average: number;
+  volatility: number;
+  change: number;
+  changePercent: number;
+  dataPoints: number;
+}
+
+export interface AnalyticsConfig {
+  statsWindows: { [window: string]: number };      // Trailing windows with running stats
+  candleIntervals: { [interval: string]: number };  // Intervals with pre-bucketed candles
+  candleRetention: number;                         // Buckets kept in memory per interval
+  maxCandles: number;                              // Largest candles page
+  cacheMaxAgeMs: number;                           // Cache-Control max-age and ETag rollover
+}
+
+interface WindowState {
+  windowMs: number;
+  start: number;       // Absolute index of the oldest point still in the window
+  sum: number;         // Σ(price - reference)
+  sumSq: number;       // Σ(price - reference)²
+  area: number;        // Σ trapezoids between consecutive points (TWAP numerator)
+  highs: IndexDeque;   // Window high candidates, prices decreasing
+  lows: IndexDeque;    // Window low candidates, prices increasing
+}
+
+// Array-backed deque of timeline indices; popFront is O(1) amortized
+class IndexDeque {
+  private items: number[] = [];
+  private head = 0;
+
+  get size(): number {
+    return this.items.length - this.head;
+  }
+
+  front(): number {
+    return this.items[this.head];
+  }
+
+  back(): number {
+    return this.items[this.items.length - 1];
+  }
+
+  push(index: number): void {
+    this.items.push(index);
+  }
+
+  popBack(): void {
+    this.items.pop();
+  }
+
+  popFront(): void {
+    this.head++;
+    if (this.head > 1024 && this.head * 2 > this.items.length) {
+      this.items = this.items.slice(this.head);
+      this.head = 0;
+    }
+  }
+}
+
+/**
+ * Incremental analytics for one pair: running stats, TWAP and EMA per trailing
+ * window, and a candle series per interval. Each price is added once and
+ * evicted once, so queries cost the same however long the history is.
+ * Prices are expected in timestamp order; a late one costs a replay of the
+ * in-memory timeline (see addLate).
+ */
+export class RollingAggregates {
+  // Shared timeline, trimmed once every window has moved past the oldest points
+  private times: number[] = [];
+  private prices: number[] = [];
+  private offset = 0;                       // Absolute index of times[0]
+  // Sums are taken relative to the first price, which keeps the variance accurate
+  private reference: number | null = null;
+  private windows: Map<number, WindowState> = new Map();
+  // Time-decayed EMA per window, over every price added (see TWAPCalculator.emaAlpha)
+  private emas: Map<number, number> = new Map();
+  private candles: Map<number, CandleSeries> = new Map();
+
+  constructor(private windowsMs: number[], intervalsMs: number[], candleRetention: number, since: number = -Infinity) {
+    this.resetWindows();
+    for (const intervalMs of intervalsMs) {
+      this.candles.set(intervalMs, new CandleSeries(intervalMs, candleRetention, since));
+    }
+  }
+
+  get lastTimestamp(): number {
+    return this.times.length > 0 ? this.times[this.times.length - 1] : -Infinity;
+  }
+
+  tracksWindow(windowMs: number): boolean {
+    return this.windows.has(windowMs);
+  }
+
+  getCandleSeries(intervalMs: number): CandleSeries | undefined {
+    return this.candles.get(intervalMs);
+  }
+
+  add(timestamp: number, price: number, volume24h?: number): void {
+    if (timestamp < this.lastTimestamp) {
+      this.addLate(timestamp, price, volume24h);
+      return;
+    }
+
+    this.addPoint(timestamp, price);
+    for (const series of this.candles.values()) {
+      series.add(timestamp, price, volume24h);
+    }
+  }
+
+  /**
+   * Same shape as a full scan of the window: population standard deviation
+   * as volatility, change measured from the oldest point in the window
+   */
+  getStats(windowMs: number, now: number): PriceStats | null {
+    const w = this.windows.get(windowMs);
+    if (!w || this.reference === null) return null;
+    this.evict(w, now);
+
+    const count = this.end() - w.start;
+    if (count === 0) return null;
+
+    const mean = w.sum / count;
+    const open = this.priceAt(w.start);
+    const close = this.priceAt(this.end() - 1);
+    const change = close - open;
+
+    return {
+      high: this.priceAt(w.highs.front()),
+      low: this.priceAt(w.lows.front()),
+      open,
+      close,
+      average: this.reference + mean,
+      volatility: Math.sqrt(Math.max(0, w.sumSq / count - mean * mean)),
+      change,
+      changePercent: open > 0 ? (change / open) * 100 : 0,
+      dataPoints: count
+    };
+  }
+
+  /**
+   * Time-weighted average over the window, as TWAPCalculator.calculateTWAP
+   * computes it: trapezoids between points, then the last price held until now
+   */
+  getTWAP(windowMs: number, now: number): number {
+    const w = this.windows.get(windowMs);
+    if (!w || this.times.length === 0) return 0;
+    this.evict(w, now);
+
+    const last = this.end() - 1;
+    const count = last + 1 - w.start;
+    if (count === 0) return this.priceAt(last);   // No data in window, use latest available
+    if (count === 1) return this.priceAt(last);
+
+    let weightedSum = w.area;
+    let totalWeight = this.timeAt(last) - this.timeAt(w.start);
+    const lastWeight = now - this.timeAt(last);
+    if (lastWeight > 0) {
+      weightedSum += this.priceAt(last) * lastWeight;
+      totalWeight += lastWeight;
+    }
+
+    return totalWeight === 0 ? this.priceAt(last) : weightedSum / totalWeight;
+  }
+
+  /**
+   * EMA with a time constant of half the window, as TWAPCalculator.calculateTimeEMA
+   * computes it over the prices added so far. Null before the first price.
+   */
+  getEMA(windowMs: number): number | null {
+    return this.emas.get(windowMs) ?? null;
+  }
+
+  countSince(windowMs: number, now: number): number {
+    const w = this.windows.get(windowMs);
+    if (!w) return 0;
+    this.evict(w, now);
+    return this.end() - w.start;
+  }
+
+  /**
+   * A price older than the newest one. Candles merge it into its bucket; the
+   * windows and EMAs are replayed from the in-memory timeline with it slotted
+   * in, so nothing is re-read from history.
+   */
+  private addLate(timestamp: number, price: number, volume24h?: number): void {
+    for (const series of this.candles.values()) {
+      series.add(timestamp, price, volume24h);
+    }
+
+    // After any points with the same timestamp, as history storage orders them
+    let at = 0;
+    while (at < this.times.length && this.times[at] <= timestamp) at++;
+    const times = [...this.times.slice(0, at), timestamp, ...this.times.slice(at)];
+    const prices = [...this.prices.slice(0, at), price, ...this.prices.slice(at)];
+
+    this.times = [];
+    this.prices = [];
+    this.offset = 0;
+    this.reference = null;
+    this.emas.clear();
+    this.resetWindows();
+    for (let i = 0; i < times.length; i++) {
+      this.addPoint(times[i], prices[i]);
+    }
+  }
+
+  private resetWindows(): void {
+    for (const windowMs of this.windowsMs) {
+      this.windows.set(windowMs, {
+        windowMs, start: 0, sum: 0, sumSq: 0, area: 0, highs: new IndexDeque(), lows: new IndexDeque()
+      });
+    }
+  }
+
+  // Append to the timeline and every window (prices in timestamp order)
+  private addPoint(timestamp: number, price: number): void {
+    if (this.reference === null) this.reference = price;
+    const elapsed = timestamp - this.lastTimestamp;
+    for (const windowMs of this.windows.keys()) {
+      const ema = this.emas.get(windowMs);
+      this.emas.set(windowMs, ema === undefined ? price : ema + twapCalculator.emaAlpha(elapsed, windowMs) * (price - ema));
+    }
+
+    const index = this.end();
+    this.times.push(timestamp);
+    this.prices.push(price);
+    const x = price - this.reference;
+
+    for (const w of this.windows.values()) {
+      this.evict(w, timestamp);
+      if (w.start < index) {
+        w.area += this.segment(index - 1);
+      }
+      w.sum += x;
+      w.sumSq += x * x;
+      while (w.highs.size > 0 && this.priceAt(w.highs.back()) <= price) w.highs.popBack();
+      w.highs.push(index);
+      while (w.lows.size > 0 && this.priceAt(w.lows.back()) >= price) w.lows.popBack();
+      w.lows.push(index);
+    }
+
+    this.trim();
+  }
+
+  private end(): number {
+    return this.offset + this.times.length;
+  }
+
+  private timeAt(index: number): number {
+    return this.times[index - this.offset];
+  }
+
+  private priceAt(index: number): number {
+    return this.prices[index - this.offset];
+  }
+
+  // Trapezoid between point `index` and the one after it
+  private segment(index: number): number {
+    return ((this.priceAt(index) + this.priceAt(index + 1)) / 2) * (this.timeAt(index + 1) - this.timeAt(index));
+  }
+
+  // Drop points older than the window's trailing edge from its running sums
+  private evict(w: WindowState, now: number): void {
+    const cutoff = now - w.windowMs;
+    const end = this.end();
+    while (w.start < end && this.timeAt(w.start) < cutoff) {
+      const x = this.priceAt(w.start) - this.reference!;
+      w.sum -= x;
+      w.sumSq -= x * x;
+      if (w.start + 1 < end) {
+        w.area -= this.segment(w.start);
+      }
+      if (w.highs.size > 0 && w.highs.front() === w.start) w.highs.popFront();
+      if (w.lows.size > 0 && w.lows.front() === w.start) w.lows.popFront();
+      w.start++;
+    }
+    // An emptied window starts again from exact zeros rather than accumulated rounding
+    if (w.start === end) {
+      w.sum = 0;
+      w.sumSq = 0;
+      w.area = 0;
+    }
+  }
+
+  // Forget points that have left every window
+  private trim(): void {
+    let oldest = this.end();
+    for (const w of this.windows.values()) {
+      oldest = Math.min(oldest, w.start);
+    }
+    // The newest point is kept for the TWAP fallback
+    const drop = Math.min(oldest - this.offset, this.times.length - 1);
+    if (drop > 1024 && drop * 2 > this.times.length) {
+      this.times = this.times.slice(drop);
+      this.prices = this.prices.slice(drop);
+      this.offset += drop;
+    }
+  }
+}
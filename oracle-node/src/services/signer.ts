@@ -1,6 +1,9 @@
-import { Account } from '@provablehq/sdk';
+import { Address, BHP256, Plaintext, Signature } from '@provablehq/sdk';
+import { AleoSdk, hashPriceMessage as hashMessage, priceMessageLiteral } from '../shared/priceMessage';
 import { config } from '../config';
+import { pairRegistry } from '../pairRegistry';
 import { logger } from './logger';
+import { SignerBackend, SignerBackendOptions, createSignerBackend } from './signerBackends';
 
 export interface SignedPriceData {
   pair: string;
@@ -9,57 +12,105 @@ export interface SignedPriceData {
   timestamp: number;
   sourceCount: number;
   signature: string;       // Real Aleo signature string
+  messageHash: string;     // BHP256::hash_to_field(PriceMessage) — the signed value
   operatorAddress: string;
 }
 
-// Pair ID mapping (must match relayer and contract)
-const PAIR_IDS: { [key: string]: number } = {
-  'ETH/USD': 1,
-  'BTC/USD': 2,
-  'ALEO/USD': 3,
-  'SOL/USD': 4,
-  'AVAX/USD': 5,
-  'MATIC/USD': 6,
-  'DOT/USD': 7,
-  'ATOM/USD': 8,
-  'LINK/USD': 9,
-  'UNI/USD': 10,
-};
+// The SDK as the shared PriceMessage helpers take it
+export const aleoSdk: AleoSdk = { BHP256, Plaintext, Signature, Address };
+
+export { priceMessageLiteral };
+
+/**
+ * BHP256::hash_to_field of a PriceMessage, as computed by submit_signed_price
+ */
+export function hashPriceMessage(pairId: number, price: bigint, timestamp: number, sourceCount: number): string {
+  return hashMessage(aleoSdk, pairId, price, timestamp, sourceCount);
+}
+
+export interface SignerRotation {
+  backend: string | null;
+  currentAddress: string;
+  nextAddress: string | null;     // Announced key, not yet used for signing
+  cutoverAt: number | null;       // Scheduled cut-over (ms epoch), null = manual
+}
 
 export class AleoSigner {
-  private account: Account | null = null;
-  private operatorAddress: string;
-
-  constructor() {
-    this.operatorAddress = config.operator.address;
-
-    if (config.operator.privateKey) {
-      try {
-        this.account = new Account({ privateKey: config.operator.privateKey });
-        logger.info(`Signer initialized with address: ${this.account.address().to_string()}`);
-      } catch (err) {
-        logger.warn(`Failed to initialize Aleo account: ${err}. Signing disabled.`);
-      }
-    } else {
+  private active: SignerBackend | null;
+  private next: SignerBackend | null;
+  private cutoverAt: number;
+  private ready: Promise<void> | null = null;
+
+  constructor(
+    active: SignerBackend | null = AleoSigner.build(config.signer.current),
+    next: SignerBackend | null = config.signer.next.backend ? AleoSigner.build(config.signer.next) : null,
+    cutoverAt: number = config.signer.rotationCutoverAt
+  ) {
+    this.active = active;
+    this.next = next;
+    this.cutoverAt = cutoverAt;
+
+    if (!this.active) {
       logger.warn('No private key configured — signing disabled');
     }
   }
 
+  private static build(options: SignerBackendOptions): SignerBackend | null {
+    try {
+      return createSignerBackend(options);
+    } catch (err) {
+      logger.warn(`Failed to initialize ${options.backend} signer: ${err}. Signing disabled.`);
+      return null;
+    }
+  }
+
+  /**
+   * Initialize the configured backends (decrypt keystores, reach remote signers).
+   * A backend that fails is dropped; for the active key this disables signing.
+   */
+  init(): Promise<void> {
+    if (!this.ready) {
+      this.ready = (async () => {
+        if (this.active) {
+          try {
+            await this.active.init();
+            logger.info(`Signer initialized (${this.active.name}) with address: ${this.active.getAddress()}`);
+          } catch (err) {
+            logger.warn(`Failed to initialize ${this.active.name} signer: ${err}. Signing disabled.`);
+            this.active = null;
+          }
+        }
+        if (this.next) {
+          try {
+            await this.next.init();
+            logger.info(`Key rotation pending: next operator address ${this.next.getAddress()}`);
+          } catch (err) {
+            logger.warn(`Failed to initialize next ${this.next.name} signer: ${err}. Rotation cancelled.`);
+            this.next = null;
+          }
+        }
+      })();
+    }
+    return this.ready;
+  }
+
   /**
    * Sign price data using real Aleo signatures (BLS12-377).
-   * The message format must match the on-chain BHP256::hash_to_field(PriceMessage { ... }).
    *
-   * The Aleo SDK Account.sign() accepts a Uint8Array of the message bytes.
-   * On-chain, the contract hashes PriceMessage struct via BHP256::hash_to_field,
-   * then verifies signature::verify(sig, caller, hash).
-   *
-   * Off-chain, we construct the same struct literal string that Leo would use
-   * and sign it. The SDK handles the BHP256 hashing internally.
+   * On-chain, submit_signed_price hashes the PriceMessage struct with
+   * BHP256::hash_to_field, then checks signature::verify(sig, self.caller, hash).
+   * We compute the same field off-chain and sign it as a value, so the
+   * signature only verifies when the caller is this operator.
    */
-  signPrice(pair: string, price: bigint, timestamp: number, sourceCount: number): SignedPriceData {
-    const pairId = PAIR_IDS[pair] || 0;
+  async signPrice(pair: string, price: bigint, timestamp: number, sourceCount: number): Promise<SignedPriceData> {
+    const pairId = pairRegistry.getPairId(pair);
 
-    if (!this.account) {
+    await this.init();
+    if (this.next && this.cutoverAt && Date.now() >= this.cutoverAt) {
+      this.cutover();
+    }
+
+    if (!this.active) {
       // Return unsigned data — relayer will use submit_price_simple fallback
       return {
         pair,
@@ -68,20 +119,13 @@ export class AleoSigner {
         timestamp,
         sourceCount,
         signature: '',
-        operatorAddress: this.operatorAddress,
+        messageHash: '',
+        operatorAddress: config.operator.address,
       };
     }
 
-    // Build the message string matching the on-chain PriceMessage struct.
-    // Account.sign() in the Aleo SDK signs arbitrary bytes.
-    // The contract does: BHP256::hash_to_field(PriceMessage { pair_id, price, timestamp, source_count })
-    // then: signature::verify(sig, self.caller, hash)
-    //
-    // We need to produce a signature over the same field value.
-    // We encode the struct as a string that the SDK can process.
-    const message = `{ pair_id: ${pairId}u64, price: ${price}u128, timestamp: ${timestamp}u64, source_count: ${sourceCount}u8 }`;
-
-    const sig = this.account.sign(message);
+    const messageHash = hashPriceMessage(pairId, price, timestamp, sourceCount);
+    const signature = await this.active.signValue(messageHash);
 
     logger.debug(`Signed price for ${pair}: pairId=${pairId}, price=${price}`);
 
@@ -91,20 +135,50 @@ export class AleoSigner {
       price,
       timestamp,
       sourceCount,
-      signature: sig.to_string(),
-      operatorAddress: this.account.address().to_string(),
+      signature,
+      messageHash,
+      operatorAddress: this.active.getAddress(),
     };
   }
 
-  getOperatorAddress(): string {
-    if (this.account) {
-      return this.account.address().to_string();
+  /**
+   * Switch signing to the announced next key. The old backend is closed.
+   */
+  cutover(): SignerRotation {
+    if (!this.next) {
+      throw new Error('No key rotation pending');
     }
-    return this.operatorAddress;
+
+    const previous = this.active;
+    this.active = this.next;
+    this.next = null;
+    this.cutoverAt = 0;
+    previous?.close();
+
+    logger.info(`Key rotation complete: now signing as ${this.active.getAddress()}` +
+      (previous ? ` (was ${previous.getAddress()})` : ''));
+    return this.getRotation();
+  }
+
+  getRotation(): SignerRotation {
+    return {
+      backend: this.active?.name ?? null,
+      currentAddress: this.getOperatorAddress(),
+      nextAddress: this.getNextOperatorAddress(),
+      cutoverAt: this.next && this.cutoverAt ? this.cutoverAt : null
+    };
+  }
+
+  getOperatorAddress(): string {
+    return this.active?.getAddress() || config.operator.address;
+  }
+
+  getNextOperatorAddress(): string | null {
+    return this.next?.getAddress() || null;
   }
 
   isSigningEnabled(): boolean {
-    return this.account !== null;
+    return this.active !== null;
   }
 }
 
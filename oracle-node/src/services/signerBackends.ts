@@ -0,0 +1,255 @@
+import fs from 'fs';
+import net from 'net';
+import { Account, Signature } from '@provablehq/sdk';
+import { logger } from './logger';
+
+/**
+ * Holds an operator key and signs PriceMessage hashes with it.
+ * `init` must resolve before `getAddress`/`signValue` are used.
+ */
+export interface SignerBackend {
+  readonly name: string;
+  init(): Promise<void>;
+  getAddress(): string;
+  signValue(messageHash: string): Promise<string>;
+  close(): void;
+}
+
+export interface SignerBackendOptions {
+  backend: string;              // 'env' | 'keystore' | 'remote'
+  privateKey: string;           // env
+  keystoreFile: string;         // keystore
+  keystorePassphrase: string;   // keystore
+  socketPath: string;           // remote
+  timeoutMs: number;            // remote
+}
+
+// On-disk keystore: the private key encrypted with a passphrase
+export interface KeystoreFile {
+  address: string;
+  ciphertext: string;
+}
+
+/**
+ * Key taken from the environment (OPERATOR_PRIVATE_KEY). Simplest, least protected.
+ */
+export class EnvSignerBackend implements SignerBackend {
+  readonly name = 'env';
+  private account: Account;
+
+  constructor(privateKey: string) {
+    this.account = new Account({ privateKey });
+  }
+
+  async init(): Promise<void> {}
+
+  getAddress(): string {
+    return this.account.address().to_string();
+  }
+
+  async signValue(messageHash: string): Promise<string> {
+    return Signature.signValue(this.account.privateKey(), messageHash).to_string();
+  }
+
+  close(): void {}
+}
+
+/**
+ * Key decrypted at startup from a keystore file written by `npm run keystore`
+ */
+export class KeystoreSignerBackend implements SignerBackend {
+  readonly name = 'keystore';
+  private account: Account;
+
+  constructor(file: string, passphrase: string) {
+    const keystore: KeystoreFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+    this.account = Account.fromCiphertext(keystore.ciphertext, passphrase);
+
+    if (keystore.address && keystore.address !== this.getAddress()) {
+      throw new Error(`Keystore ${file} decrypts to ${this.getAddress()}, expected ${keystore.address}`);
+    }
+  }
+
+  async init(): Promise<void> {}
+
+  getAddress(): string {
+    return this.account.address().to_string();
+  }
+
+  async signValue(messageHash: string): Promise<string> {
+    return Signature.signValue(this.account.privateKey(), messageHash).to_string();
+  }
+
+  close(): void {}
+
+  static encrypt(privateKey: string, passphrase: string): KeystoreFile {
+    const account = new Account({ privateKey });
+    return {
+      address: account.address().to_string(),
+      ciphertext: account.encryptAccount(passphrase).toString()
+    };
+  }
+}
+
+/**
+ * Key held by a separate signing process (see signerDaemon.ts), reached over a
+ * Unix socket with newline-delimited JSON: { id, method: 'address' | 'sign', message? }
+ * answered by { id, result } or { id, error }.
+ */
+export class RemoteSignerBackend implements SignerBackend {
+  readonly name = 'remote';
+  private address = '';
+  private socket: net.Socket | null = null;
+  private buffer = '';
+  private nextId = 1;
+  private pending: Map<number, { resolve: (value: string) => void; reject: (err: Error) => void; timer: NodeJS.Timeout }> = new Map();
+
+  constructor(private socketPath: string, private timeoutMs: number = 5000) {}
+
+  async init(): Promise<void> {
+    this.address = await this.request('address');
+    logger.info(`Remote signer at ${this.socketPath} holds ${this.address}`);
+  }
+
+  getAddress(): string {
+    return this.address;
+  }
+
+  signValue(messageHash: string): Promise<string> {
+    return this.request('sign', messageHash);
+  }
+
+  close(): void {
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(this.socketPath);
+      socket.setEncoding('utf8');
+
+      socket.once('connect', () => {
+        this.socket = socket;
+        resolve(socket);
+      });
+      socket.once('error', reject);
+      socket.on('data', (chunk: string) => this.onData(chunk));
+      socket.on('close', () => {
+        this.socket = null;
+        this.buffer = '';
+        for (const [id, call] of this.pending) {
+          clearTimeout(call.timer);
+          call.reject(new Error('Remote signer connection closed'));
+          this.pending.delete(id);
+        }
+      });
+    });
+  }
+
+  private async request(method: 'address' | 'sign', message?: string): Promise<string> {
+    const socket = await this.connect();
+    const id = this.nextId++;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Remote signer timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      this.pending.set(id, { resolve, reject, timer });
+      socket.write(JSON.stringify({ id, method, message }) + '\n');
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf('\n');
+
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      newline = this.buffer.indexOf('\n');
+
+      try {
+        const reply = JSON.parse(line);
+        const call = this.pending.get(reply.id);
+        if (!call) continue;
+
+        clearTimeout(call.timer);
+        this.pending.delete(reply.id);
+        if (reply.error) call.reject(new Error(reply.error));
+        else call.resolve(reply.result);
+      } catch {
+        logger.warn('Remote signer sent a malformed reply');
+      }
+    }
+  }
+}
+
+/**
+ * Build the backend selected in config. Returns null when no key is configured.
+ */
+export function createSignerBackend(options: SignerBackendOptions): SignerBackend | null {
+  switch (options.backend) {
+    case 'env':
+      return options.privateKey ? new EnvSignerBackend(options.privateKey) : null;
+    case 'keystore':
+      return new KeystoreSignerBackend(options.keystoreFile, options.keystorePassphrase);
+    case 'remote':
+      return new RemoteSignerBackend(options.socketPath, options.timeoutMs);
+    default:
+      throw new Error(`Unknown signer backend "${options.backend}"`);
+  }
+}
+
+/**
+ * Serve a backend's key over a Unix socket (the remote signer's side of the protocol)
+ */
+export function serveSigner(backend: SignerBackend, socketPath: string): net.Server {
+  if (fs.existsSync(socketPath)) {
+    fs.unlinkSync(socketPath);
+  }
+
+  const server = net.createServer(socket => {
+    socket.setEncoding('utf8');
+    let buffer = '';
+
+    socket.on('data', async (chunk: string) => {
+      buffer += chunk;
+      let newline = buffer.indexOf('\n');
+
+      while (newline !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        newline = buffer.indexOf('\n');
+
+        let id: number | null = null;
+        try {
+          const request = JSON.parse(line);
+          id = request.id;
+          // Only field elements (PriceMessage hashes) are signed, never arbitrary values
+          const result = request.method === 'address'
+            ? backend.getAddress()
+            : request.method === 'sign' && /^\d+field$/.test(request.message)
+              ? await backend.signValue(request.message)
+              : null;
+
+          socket.write(JSON.stringify(result === null ? { id, error: 'Unsupported request' } : { id, result }) + '\n');
+        } catch (error) {
+          socket.write(JSON.stringify({ id, error: error instanceof Error ? error.message : String(error) }) + '\n');
+        }
+      }
+    });
+  });
+
+  server.listen(socketPath, () => {
+    // Only the owning user may connect
+    fs.chmodSync(socketPath, 0o600);
+  });
+  return server;
+}
@@ -0,0 +1,169 @@
+import { PriceResult } from '../providers';
+import { config } from '../config';
+import { pairRegistry } from '../pairRegistry';
+import { logger } from './logger';
+import { QuoteConversion, RejectedSource, median } from './aggregationStrategies';
+
+export interface StablecoinConfig {
+  refreshIntervalMs: number;       // Reference rates older than this are re-fetched
+  maxRateAgeMs: number;            // Older rates are unknown; quotes fall back to 1:1 (flagged)
+  depegFlagThreshold: number;      // |rate - 1| above this flags converted quotes
+  depegExcludeThreshold: number;   // |rate - 1| above this drops quotes in that stablecoin
+}
+
+export interface ReferenceRate {
+  asset: string;                   // e.g. 'USDT'
+  pair: string;                    // e.g. 'USDT/USD'
+  rate: number;                    // Median across sources
+  sources: string[];
+  timestamp: number;
+}
+
+export interface NormalizedQuotes {
+  results: PriceResult[];          // Quotes expressed in the pair's quote currency
+  conversions: QuoteConversion[];
+  rejected: RejectedSource[];      // Dropped because their stablecoin depegged
+}
+
+// Stablecoins recognised in venue symbols, most specific first
+const STABLECOINS = ['USDT', 'USDC'];
+
+/**
+ * Currency a venue symbol is quoted in. Venues list ETH/USD as ETHUSDT, ETH-USDT,
+ * ETH_USDT, etc.; anything not ending in a known stablecoin is taken to be the
+ * pair's own quote (ETH-USD, XBTUSD, coin ids such as "ethereum").
+ */
+export function quoteAssetOf(symbol: string, pairQuote: string): string {
+  const compact = symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return STABLECOINS.find(coin => coin !== pairQuote && compact.endsWith(coin)) || pairQuote;
+}
+
+/**
+ * Converts stablecoin-quoted venue prices into the pair's fiat quote using
+ * USDT/USD and USDC/USD reference rates (reference pairs in pairs.json), and
+ * flags or drops quotes in a stablecoin that has lost its peg.
+ */
+export class StablecoinNormalizer {
+  private config: StablecoinConfig;
+  private rates: Map<string, ReferenceRate> = new Map();
+  private pending: Promise<void> | null = null;
+
+  constructor(config: StablecoinConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Re-fetch reference rates older than refreshIntervalMs. Concurrent callers share one refresh.
+   */
+  refresh(fetchQuotes: (pair: string) => Promise<PriceResult[]>): Promise<void> {
+    if (!this.pending) {
+      this.pending = this.refreshStale(fetchQuotes).finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async refreshStale(fetchQuotes: (pair: string) => Promise<PriceResult[]>): Promise<void> {
+    const now = Date.now();
+
+    for (const ref of pairRegistry.getReferencePairs()) {
+      const current = this.rates.get(ref.base);
+      if (current && now - current.timestamp < this.config.refreshIntervalMs) continue;
+
+      try {
+        const quotes = await fetchQuotes(ref.pair);
+        if (quotes.length < ref.minSources) {
+          logger.warn(`Reference rate ${ref.pair}: got ${quotes.length} sources, need ${ref.minSources}`);
+          continue;
+        }
+        this.setRate(ref.base, ref.pair, median(quotes.map(q => q.price)), quotes.map(q => q.source));
+      } catch (error) {
+        logger.error(`Reference rate ${ref.pair} failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+
+  setRate(asset: string, pair: string, rate: number, sources: string[]): void {
+    const deviation = Math.abs(rate - 1);
+    if (deviation > this.config.depegFlagThreshold) {
+      logger.warn(`${asset} off peg: 1 ${asset} = ${rate.toFixed(4)} USD (${(deviation * 100).toFixed(2)}%)`);
+    }
+    this.rates.set(asset, { asset, pair, rate, sources, timestamp: Date.now() });
+  }
+
+  /**
+   * Fresh reference rate for a stablecoin, or null if none is known
+   */
+  getRate(asset: string): ReferenceRate | null {
+    const rate = this.rates.get(asset);
+    if (!rate || Date.now() - rate.timestamp > this.config.maxRateAgeMs) return null;
+    return rate;
+  }
+
+  getRates(): ReferenceRate[] {
+    return [...this.rates.values()];
+  }
+
+  /**
+   * Express every quote in the pair's quote currency
+   */
+  normalize(pair: string, quotes: PriceResult[]): NormalizedQuotes {
+    const pairQuote = pairRegistry.getPair(pair)?.quote ?? pair.split('/')[1];
+    const results: PriceResult[] = [];
+    const conversions: QuoteConversion[] = [];
+    const rejected: RejectedSource[] = [];
+
+    for (const quote of quotes) {
+      const symbol = pairRegistry.getSymbol(quote.source, pair);
+      const quoteAsset = symbol ? quoteAssetOf(symbol, pairQuote) : pairQuote;
+
+      if (quoteAsset === pairQuote) {
+        results.push(quote);
+        conversions.push({
+          source: quote.source, quoteAsset, rawPrice: quote.price, rate: 1, price: quote.price,
+          rateStatus: 'direct', depegged: false, excluded: false
+        });
+        continue;
+      }
+
+      const reference = this.getRate(quoteAsset);
+      const rate = reference?.rate ?? 1;
+      const deviation = Math.abs(rate - 1);
+      const conversion: QuoteConversion = {
+        source: quote.source,
+        quoteAsset,
+        rawPrice: quote.price,
+        rate,
+        price: quote.price * rate,
+        rateStatus: reference ? 'reference' : 'assumed',
+        depegged: deviation > this.config.depegFlagThreshold,
+        excluded: deviation > this.config.depegExcludeThreshold
+      };
+      conversions.push(conversion);
+
+      if (conversion.excluded) {
+        rejected.push({
+          source: quote.source,
+          price: conversion.price,
+          reason: `${quoteAsset} depegged: 1 ${quoteAsset} = ${rate.toFixed(4)} ${pairQuote} (${(deviation * 100).toFixed(2)}% from peg)`,
+          outlier: false
+        });
+        continue;
+      }
+
+      results.push({
+        ...quote,
+        price: conversion.price,
+        quoteVolume: quote.quoteVolume !== undefined ? quote.quoteVolume * rate : undefined,
+        bid: quote.bid !== undefined ? quote.bid * rate : undefined,
+        ask: quote.ask !== undefined ? quote.ask * rate : undefined
+      });
+    }
+
+    return { results, conversions, rejected };
+  }
+}
+
+// Singleton instance
+export const stablecoinNormalizer = new StablecoinNormalizer(config.stablecoins);
@@ -1,8 +1,13 @@
 import { AggregatedPrice } from './priceAggregator';
+import type { Candle } from './candleEngine';
 import { logger } from './logger';
 
+// Crypto trades around the clock: a year of intervals is 365 full days
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
 export interface TWAPResult {
   pair: string;
+  twap5m: number;        // 5 minute TWAP (the contract's TWAPData.twap_5m)
   twap1h: number;        // 1 hour TWAP
   twap24h: number;       // 24 hour TWAP
   twap7d: number;        // 7 day TWAP
@@ -11,12 +16,42 @@ export interface TWAPResult {
   deviation24h: number;  // Percentage deviation from 24h TWAP
   timestamp: number;
   dataPoints: {
+    '5m': number;
     '1h': number;
     '24h': number;
     '7d': number;
   };
 }
 
+/**
+ * Annualized volatility of one window's candles, as fractions (0.5 = 50%).
+ * Null when there are too few candles to estimate.
+ */
+export interface VolatilityMetrics {
+  realized: number | null;    // RMS of close-to-close log returns
+  ewma: number | null;        // Exponentially weighted RMS of the same returns
+  parkinson: number | null;   // High-low range estimator
+  returns: number;            // Log returns used (returns across synthetic candles are left out)
+  candles: number;            // Candles with a high-low range (two or more samples)
+}
+
+export interface PriceMetrics {
+  pair: string;
+  currentPrice: number;
+  windows: {
+    [window: string]: {
+      twap: number;
+      ema: number | null;
+      deviation: number;      // Percentage deviation of the current price from the TWAP
+      dataPoints: number;
+    };
+  };
+  volatility: {
+    [window: string]: VolatilityMetrics & { interval: string };
+  };
+  timestamp: number;
+}
+
 interface StoredPriceWithTimestamp {
   price: number;
   timestamp: number;
@@ -88,30 +123,48 @@ export class TWAPCalculator {
     history: StoredPriceWithTimestamp[],
     currentPrice: number
   ): TWAPResult {
+    const FIVE_MINUTES = 5 * 60 * 1000;
     const ONE_HOUR = 60 * 60 * 1000;
     const ONE_DAY = 24 * ONE_HOUR;
     const SEVEN_DAYS = 7 * ONE_DAY;
 
+    const twap5m = this.calculateTWAP(history, FIVE_MINUTES);
     const twap1h = this.calculateTWAP(history, ONE_HOUR);
     const twap24h = this.calculateTWAP(history, ONE_DAY);
     const twap7d = this.calculateTWAP(history, SEVEN_DAYS);
 
-    // Calculate deviations
-    const deviation1h = twap1h > 0 ? ((currentPrice - twap1h) / twap1h) * 100 : 0;
-    const deviation24h = twap24h > 0 ? ((currentPrice - twap24h) / twap24h) * 100 : 0;
-
     // Count data points in each window
     const now = Date.now();
     const dataPoints = {
+      '5m': history.filter(p => p.timestamp >= now - FIVE_MINUTES).length,
       '1h': history.filter(p => p.timestamp >= now - ONE_HOUR).length,
       '24h': history.filter(p => p.timestamp >= now - ONE_DAY).length,
       '7d': history.filter(p => p.timestamp >= now - SEVEN_DAYS).length
     };
 
-    logger.debug(`TWAP ${pair}: 1h=${twap1h.toFixed(2)} 24h=${twap24h.toFixed(2)} 7d=${twap7d.toFixed(2)}`);
+    return this.summarize(pair, { twap5m, twap1h, twap24h, twap7d }, dataPoints, currentPrice);
+  }
+
+  /**
+   * Assemble a TWAPResult from already computed window TWAPs (e.g. PriceStore's rolling ones)
+   */
+  summarize(
+    pair: string,
+    twaps: { twap5m: number; twap1h: number; twap24h: number; twap7d: number },
+    dataPoints: TWAPResult['dataPoints'],
+    currentPrice: number
+  ): TWAPResult {
+    const { twap5m, twap1h, twap24h, twap7d } = twaps;
+
+    // Calculate deviations
+    const deviation1h = twap1h > 0 ? ((currentPrice - twap1h) / twap1h) * 100 : 0;
+    const deviation24h = twap24h > 0 ? ((currentPrice - twap24h) / twap24h) * 100 : 0;
+
+    logger.debug(`TWAP ${pair}: 5m=${twap5m.toFixed(2)} 1h=${twap1h.toFixed(2)} 24h=${twap24h.toFixed(2)} 7d=${twap7d.toFixed(2)}`);
 
     return {
       pair,
+      twap5m,
       twap1h,
       twap24h,
       twap7d,
@@ -166,6 +219,66 @@ export class TWAPCalculator {
 
     return ema;
   }
+
+  /**
+   * Weight of a new price in a time-decayed EMA after `elapsedMs` since the
+   * previous one. The time constant is half the window, so with evenly spaced
+   * prices this is the period EMA over the window (alpha = 2 / (N + 1)).
+   */
+  emaAlpha(elapsedMs: number, windowMs: number): number {
+    return 1 - Math.exp(-Math.max(0, elapsedMs) / (windowMs / 2));
+  }
+
+  /**
+   * Time-decayed EMA over irregularly spaced prices (sorted by timestamp),
+   * seeded with the first. PriceStore keeps the same value incrementally.
+   */
+  calculateTimeEMA(history: StoredPriceWithTimestamp[], windowMs: number): number {
+    if (history.length === 0) return 0;
+
+    let ema = history[0].price;
+    for (let i = 1; i < history.length; i++) {
+      ema += this.emaAlpha(history[i].timestamp - history[i - 1].timestamp, windowMs) * (history[i].price - ema);
+    }
+    return ema;
+  }
+
+  /**
+   * Annualized volatility from consecutive candles of one interval: realized
+   * (RMS of log returns), EWMA (RiskMetrics, decay `lambda` per candle) and
+   * Parkinson, σ² = mean(ln(high/low)²) / (4 ln 2). Synthetic candles carry no
+   * prices, so returns touching them and their ranges are left out, as are
+   * ranges of single-sample candles (always zero).
+   */
+  calculateVolatility(candles: Candle[], intervalMs: number, lambda: number): VolatilityMetrics {
+    const periodsPerYear = YEAR_MS / intervalMs;
+    const annualize = (variance: number) => Math.sqrt(variance * periodsPerYear);
+
+    const returns: number[] = [];
+    for (let i = 1; i < candles.length; i++) {
+      if (candles[i].synthetic || candles[i - 1].synthetic) continue;
+      returns.push(Math.log(candles[i].close / candles[i - 1].close));
+    }
+
+    let ewmaVariance: number | null = null;
+    for (const r of returns) {
+      ewmaVariance = ewmaVariance === null ? r * r : lambda * ewmaVariance + (1 - lambda) * r * r;
+    }
+
+    const ranges = candles
+      .filter(c => !c.synthetic && c.samples > 1)
+      .map(c => Math.pow(Math.log(c.high / c.low), 2));
+
+    return {
+      realized: returns.length >= 2 ? annualize(returns.reduce((sum, r) => sum + r * r, 0) / returns.length) : null,
+      ewma: returns.length >= 2 && ewmaVariance !== null ? annualize(ewmaVariance) : null,
+      parkinson: ranges.length > 0
+        ? annualize(ranges.reduce((a, b) => a + b, 0) / (4 * Math.LN2 * ranges.length))
+        : null,
+      returns: returns.length,
+      candles: ranges.length
+    };
+  }
 }
 
 // Singleton instance
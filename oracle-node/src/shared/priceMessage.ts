@@ -0,0 +1,145 @@
+/**
+ * The PriceMessage that submit_signed_price verifies: building its literal,
+ * hashing it and checking a signature over it. Shared by the oracle node and
+ * the relayer, so it imports nothing; callers pass in their Aleo SDK.
+ */
+
+// The parts of @provablehq/sdk used here
+export interface AleoSdk {
+  BHP256: new () => { hash(bits: unknown[]): { toString(): string } };
+  Plaintext: { fromString(literal: string): { toBitsLe(): unknown[] } };
+  Signature: { from_string(signature: string): { verifyValue(address: unknown, message: string): boolean } };
+  Address: { from_string(address: string): unknown };
+}
+
+export interface PriceMessage {
+  pairId: number;
+  price: bigint;        // Scaled u128 value
+  timestamp: number;
+  sourceCount: number;
+}
+
+/**
+ * A signed price as a consumer received it
+ */
+export interface PriceClaim extends PriceMessage {
+  signature: string;
+  operatorAddress: string;
+}
+
+export type PriceMessageField = 'pairId' | 'price' | 'timestamp' | 'sourceCount' | 'operatorAddress';
+
+export interface FieldMismatch {
+  field: PriceMessageField;
+  expected: string;   // Value covered by the signature
+  actual: string;     // Value in the claim
+}
+
+export interface VerificationResult {
+  valid: boolean;
+  message: string;        // PriceMessage literal rebuilt from the claim
+  messageHash: string;
+  mismatches: FieldMismatch[];
+  reason: string | null;
+}
+
+const U8_MAX = 255;
+const U128_MAX = (1n << 128n) - 1n;
+
+/**
+ * Reason a message can't be expressed as the contract's PriceMessage
+ * (pair_id: u64, price: u128, timestamp: u64, source_count: u8), or null
+ */
+export function checkPriceMessage(message: PriceMessage): string | null {
+  if (!Number.isSafeInteger(message.pairId) || message.pairId < 0) return 'pairId must be a non-negative integer';
+  if (message.price < 0n || message.price > U128_MAX) return 'price must fit in a u128';
+  if (!Number.isSafeInteger(message.timestamp) || message.timestamp < 0) return 'timestamp must be a non-negative integer';
+  if (!Number.isInteger(message.sourceCount) || message.sourceCount < 0 || message.sourceCount > U8_MAX) {
+    return `sourceCount must be an integer from 0 to ${U8_MAX}`;
+  }
+  return null;
+}
+
+export function priceMessageLiteral(pairId: number, price: bigint, timestamp: number, sourceCount: number): string {
+  return `{ pair_id: ${pairId}u64, price: ${price}u128, timestamp: ${timestamp}u64, source_count: ${sourceCount}u8 }`;
+}
+
+/**
+ * Parse a PriceMessage literal (`{ pair_id: 1u64, price: ...u128, ... }`)
+ */
+export function parsePriceMessage(literal: string): PriceMessage | null {
+  const field = (name: string, type: string) => literal.match(new RegExp(`${name}:\\s*(\\d+)${type}`))?.[1];
+  const pairId = field('pair_id', 'u64');
+  const price = field('price', 'u128');
+  const timestamp = field('timestamp', 'u64');
+  const sourceCount = field('source_count', 'u8');
+
+  if (!pairId || !price || !timestamp || !sourceCount) return null;
+  return {
+    pairId: parseInt(pairId),
+    price: BigInt(price),
+    timestamp: parseInt(timestamp),
+    sourceCount: parseInt(sourceCount)
+  };
+}
+
+/**
+ * BHP256::hash_to_field of a PriceMessage, as computed by submit_signed_price
+ */
+export function hashPriceMessage(sdk: AleoSdk, pairId: number, price: bigint, timestamp: number, sourceCount: number): string {
+  const message = sdk.Plaintext.fromString(priceMessageLiteral(pairId, price, timestamp, sourceCount));
+  return new sdk.BHP256().hash(message.toBitsLe()).toString();
+}
+
+function signatureVerifies(sdk: AleoSdk, signature: string, address: string, messageHash: string): boolean {
+  try {
+    return sdk.Signature.from_string(signature).verifyValue(sdk.Address.from_string(address), messageHash);
+  } catch {
+    return false;
+  }
+}
+
+function compareFields(claim: PriceClaim, signed: Omit<PriceClaim, 'signature'>): FieldMismatch[] {
+  const fields: [PriceMessageField, string, string][] = [
+    ['pairId', String(signed.pairId), String(claim.pairId)],
+    ['price', signed.price.toString(), claim.price.toString()],
+    ['timestamp', String(signed.timestamp), String(claim.timestamp)],
+    ['sourceCount', String(signed.sourceCount), String(claim.sourceCount)],
+    ['operatorAddress', signed.operatorAddress, claim.operatorAddress]
+  ];
+  return fields
+    .filter(([, expected, actual]) => expected !== actual)
+    .map(([field, expected, actual]) => ({ field, expected, actual }));
+}
+
+/**
+ * Rebuild the PriceMessage from a claim (exactly as the oracle signs it), hash
+ * it and verify the signature against the operator address. The claim must
+ * pass checkPriceMessage.
+ *
+ * When the signature does not verify, `reference` — the record the signature was
+ * actually issued for, if known — is used to report which fields were changed.
+ */
+export function verifyPriceSignature(
+  sdk: AleoSdk,
+  claim: PriceClaim,
+  reference?: Omit<PriceClaim, 'signature'>
+): VerificationResult {
+  const message = priceMessageLiteral(claim.pairId, claim.price, claim.timestamp, claim.sourceCount);
+  const messageHash = hashPriceMessage(sdk, claim.pairId, claim.price, claim.timestamp, claim.sourceCount);
+
+  if (!claim.signature) {
+    return { valid: false, message, messageHash, mismatches: [], reason: 'No signature' };
+  }
+
+  if (signatureVerifies(sdk, claim.signature, claim.operatorAddress, messageHash)) {
+    return { valid: true, message, messageHash, mismatches: [], reason: null };
+  }
+
+  const mismatches = reference ? compareFields(claim, reference) : [];
+  const reason = mismatches.length > 0
+    ? `Signature does not cover ${mismatches.map(m => m.field).join(', ')}`
+    : 'Signature does not verify against the price message and operator address';
+
+  return { valid: false, message, messageHash, mismatches, reason };
+}
@@ -0,0 +1,33 @@
+import { config } from './config';
+import { logger } from './services/logger';
+import { createSignerBackend, serveSigner } from './services/signerBackends';
+
+/**
+ * Standalone signing process for SIGNER_BACKEND=remote. Holds the operator key
+ * (from OPERATOR_PRIVATE_KEY or a keystore, per SIGNER_DAEMON_BACKEND) and signs
+ * PriceMessage hashes for the oracle node over SIGNER_SOCKET.
+ */
+async function main() {
+  const backend = createSignerBackend({
+    ...config.signer.current,
+    backend: process.env.SIGNER_DAEMON_BACKEND || 'keystore'
+  });
+  if (!backend || backend.name === 'remote') {
+    throw new Error('Signer daemon needs an env or keystore key');
+  }
+
+  await backend.init();
+  const server = serveSigner(backend, config.signer.current.socketPath);
+  logger.info(`Signer daemon serving ${backend.getAddress()} on ${config.signer.current.socketPath}`);
+
+  const shutdown = () => {
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch(err => {
+  logger.error(`Signer daemon failed: ${err instanceof Error ? err.message : String(err)}`);
+  process.exit(1);
+});
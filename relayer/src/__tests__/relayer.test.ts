@@ -135,4 +135,37 @@ describe('Relayer Logic', () => {
       expect(`${sourceCount}u8`).toBe('5u8');
     });
   });
+
+  describe('consensus round parsing', () => {
+    // Extracted struct parsing (mirrors relayer.ts structField)
+    function structField(raw: string, name: string): string | null {
+      const match = raw.match(new RegExp(`${name}:\\s*([^,\\s}]+)`));
+      return match ? match[1].replace(/(u8|u32|u64|u128|field)$/, '') : null;
+    }
+
+    const round = `{
+  pair_id: 1u64,
+  epoch: 42u32,
+  started_at: 1700000000000u64,
+  deadline: 1700000060000u64,
+  submissions_count: 2u8,
+  finalized: false,
+  finalized_at: 0u64
+}`;
+
+    it('reads members of a ConsensusRound mapping value', () => {
+      expect(structField(round, 'epoch')).toBe('42');
+      expect(structField(round, 'deadline')).toBe('1700000060000');
+      expect(structField(round, 'finalized')).toBe('false');
+    });
+
+    it('does not confuse members sharing a prefix', () => {
+      expect(structField(round, 'finalized_at')).toBe('0');
+      expect(structField(round, 'submissions_count')).toBe('2');
+    });
+
+    it('returns null for missing members', () => {
+      expect(structField(round, 'min_operators')).toBeNull();
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import http from 'http';
+import https from 'https';
 import dotenv from 'dotenv';
 import winston from 'winston';
 import {
@@ -8,10 +9,18 @@ import {
   AleoNetworkClient,
   NetworkRecordProvider,
   AleoKeyProvider,
+  Address,
+  BHP256,
+  Plaintext,
+  Signature,
 } from '@provablehq/sdk';
+import { AleoSdk, hashPriceMessage, verifyPriceSignature } from '../../oracle-node/src/shared/priceMessage';
 
 dotenv.config();
 
+// The SDK as the oracle node's shared PriceMessage helpers take it
+const aleoSdk: AleoSdk = { BHP256, Plaintext, Signature, Address };
+
 // Logger setup
 const logger = winston.createLogger({
   level: process.env.LOG_LEVEL || 'info',
@@ -34,26 +43,38 @@ const config = {
   deviationThreshold: parseFloat(process.env.DEVIATION_THRESHOLD || '0.005'),
   heartbeatInterval: parseInt(process.env.HEARTBEAT_INTERVAL || '300000'),
   pollInterval: parseInt(process.env.POLL_INTERVAL || '30000'),
+  useStream: process.env.USE_PRICE_STREAM === 'true',
+
+  // 'simple': submit_price_simple per update; 'consensus': drive multi-operator rounds
+  mode: (process.env.RELAYER_MODE || 'simple') as 'simple' | 'consensus',
+  roundDuration: parseInt(process.env.ROUND_DURATION || '60000'),
+  roundPollInterval: parseInt(process.env.ROUND_POLL_INTERVAL || '10000'),
+  // Used when the contract's circuit_breaker_config cannot be read
+  minOperators: parseInt(process.env.MIN_OPERATORS || '3'),
+  streamReconnectDelay: parseInt(process.env.STREAM_RECONNECT_DELAY || '5000'),
+  // The oracle sends a heartbeat every 15s; a stream silent this long is reconnected
+  streamStaleTimeout: parseInt(process.env.STREAM_STALE_TIMEOUT || '45000'),
 
   baseFee: parseInt(process.env.BASE_FEE || '500000'),
   priorityFee: parseInt(process.env.PRIORITY_FEE || '100000'),
 
   minSourceCount: parseInt(process.env.MIN_SOURCE_COUNT || '3'),
+  // Use submit_signed_price when the oracle's signature verifies locally and the
+  // open round accepts it; 'false' always uses submit_price_simple. Signed
+  // submissions are published only once a consensus coordinator finalizes the round.
+  preferSigned: process.env.PREFER_SIGNED_SUBMISSION !== 'false',
 
   healthPort: parseInt(process.env.HEALTH_PORT || '3001'),
 
-  pairIds: {
-    'ETH/USD': 1,
-    'BTC/USD': 2,
-    'ALEO/USD': 3,
-    'SOL/USD': 4,
-    'AVAX/USD': 5,
-    'MATIC/USD': 6,
-    'DOT/USD': 7,
-    'ATOM/USD': 8,
-    'LINK/USD': 9,
-    'UNI/USD': 10,
-  } as { [key: string]: number },
+  // Loaded from the oracle node's pair registry (GET /pairs) at startup
+  pairIds: {} as { [key: string]: number },
+  pairDecimals: 8,
+  // Optional pin: refuse to run if the oracle node serves a different registry version
+  expectedRegistryVersion: process.env.PAIR_REGISTRY_VERSION || '',
+  registryRetries: parseInt(process.env.PAIR_REGISTRY_RETRIES || '5'),
+
+  // Oracle node admin key; when set, the relayer executes queued add_pair jobs
+  oracleAdminKey: process.env.ORACLE_ADMIN_KEY || '',
 
   operatorPrivateKey: process.env.OPERATOR_PRIVATE_KEY || '',
 };
@@ -65,6 +86,31 @@ interface PriceData {
   timestamp: number;
   sourceCount: number;
   sources: string[];
+  pairId?: number;
+  signature?: string;
+  operatorAddress?: string;
+}
+
+type SubmissionPath = 'signed' | 'simple' | 'round';
+
+interface RegistryPair {
+  pair: string;
+  pairId: number;
+  base: string;
+  quote: string;
+  decimals: number;
+  minSources: number;
+  status?: 'active' | 'paused' | 'retired';
+}
+
+interface PairJob {
+  id: number;
+  type: 'add_pair';
+  pair: string;
+  pairId: number;
+  inputs: string[];
+  status: 'pending' | 'submitted' | 'confirmed' | 'failed';
+  txId: string | null;
 }
 
 interface SubmittedPrice {
@@ -73,6 +119,27 @@ interface SubmittedPrice {
   timestamp: number;
   txId?: string;
   sourceCount: number;
+  path: SubmissionPath;
+  fallbackReason?: string;
+}
+
+type RoundPhase = 'starting' | 'submitting' | 'collecting' | 'finalizing' | 'finalized' | 'expired' | 'failed';
+
+interface ConsensusRoundState {
+  pair: string;
+  pairId: number;
+  epoch: number | null;
+  phase: RoundPhase;
+  startedAt: number;
+  deadline: number;
+  price: PriceData;
+  submissions: number;
+  startTxId: string | null;
+  submitTxId: string | null;
+  finalizeTxId: string | null;
+  joined: boolean;           // Round opened by another coordinator
+  error: string | null;
+  updatedAt: number;
 }
 
 interface ErrorEntry {
@@ -88,16 +155,32 @@ let networkClient: AleoNetworkClient;
 let programManager: ProgramManager;
 
 const startTime = Date.now();
+let pairRegistryVersion = '';
 const lastSubmitted: Map<string, SubmittedPrice> = new Map();
 const pendingTransactions: Map<string, string> = new Map();
+// Pairs being signed or submitted right now. The stream and the poll loop both
+// submit, and pendingTransactions is only set once execute resolves.
+const inFlight: Set<string> = new Set();
+// add_pair jobs submitted by this relayer: job id -> tx id
+const pendingPairJobs: Map<number, string> = new Map();
+// Onboarded pairs whose add_pair has not confirmed yet; prices are not submitted for them
+const awaitingOnChain: Set<string> = new Set();
 const submissionCounts: Map<string, number> = new Map();
+const activeRounds: Map<string, ConsensusRoundState> = new Map();
+const roundHistory: ConsensusRoundState[] = [];
+const MAX_ROUND_HISTORY = 20;
 const recentErrors: ErrorEntry[] = [];
 const MAX_ERRORS = 50;
+// The live /stream subscription, and the pending reconnect after it dropped
+let streamRequest: http.ClientRequest | null = null;
+let streamReconnectTimer: NodeJS.Timeout | null = null;
 
 const stats = {
   totalSubmissions: 0,
   successfulSubmissions: 0,
   failedSubmissions: 0,
+  signedSubmissions: 0,
+  simpleFallbacks: 0,
   lastSuccessfulSubmission: 0,
 };
 
@@ -143,6 +226,195 @@ async function initializeAleoSdk(): Promise<boolean> {
   }
 }
 
+// Execute a transition of the oracle program, paying the fee from public credits.
+// The SDK computes the base fee and takes the priority fee in credits.
+function executeTransition(functionName: string, inputs: string[]): Promise<string> {
+  return programManager.execute({
+    programName: config.oracleProgramId,
+    functionName,
+    inputs,
+    priorityFee: config.priorityFee / 1_000_000,
+    privateFee: false,
+  });
+}
+
+// ===== PAIR REGISTRY =====
+async function fetchPairRegistry(retries: number): Promise<{ version: string; pairs: RegistryPair[] } | null> {
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    try {
+      const response = await axios.get(`${config.oracleNodeUrl}/pairs`, { timeout: 10000 });
+      return { version: response.data.version, pairs: response.data.pairs || [] };
+    } catch (error) {
+      logger.warn(`Pair registry fetch failed (attempt ${attempt}/${retries}): ${error}`);
+      if (attempt < retries) {
+        await new Promise(resolve => setTimeout(resolve, 5000));
+      }
+    }
+  }
+  return null;
+}
+
+// Compare a registry entry with the contract's `pairs` mapping.
+// Returns a mismatch description, or null when consistent (or not yet on-chain).
+async function checkOnChainPair(entry: RegistryPair): Promise<string | null> {
+  try {
+    const raw = await networkClient.getProgramMappingValue(config.oracleProgramId, 'pairs', `${entry.pairId}u64`);
+    if (!raw || raw === 'null') {
+      logger.warn(`${entry.pair}: pair_id ${entry.pairId} not registered on-chain yet`);
+      return null;
+    }
+
+    const decimalsMatch = String(raw).match(/decimals:\s*(\d+)u8/);
+    if (decimalsMatch && parseInt(decimalsMatch[1]) !== entry.decimals) {
+      return `${entry.pair}: on-chain decimals ${decimalsMatch[1]} != registry ${entry.decimals}`;
+    }
+    return null;
+  } catch (error) {
+    logger.warn(`${entry.pair}: could not read on-chain pair info: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Load active pair ids from the oracle node and verify them. Any mismatch is fatal
+ * at startup: submitting under the wrong pair_id would publish a price for another market.
+ * Re-run every cycle to pick up pairs onboarded, paused or retired at runtime; only
+ * pairs not already loaded are checked on-chain again.
+ */
+async function loadPairRegistry(retries: number = config.registryRetries): Promise<boolean> {
+  const registry = await fetchPairRegistry(retries);
+  if (!registry) {
+    logger.error(`Could not load pair registry from ${config.oracleNodeUrl}/pairs`);
+    return false;
+  }
+
+  if (registry.version === pairRegistryVersion) {
+    return true;
+  }
+
+  if (config.expectedRegistryVersion && registry.version !== config.expectedRegistryVersion) {
+    logger.error(`Pair registry version mismatch: oracle serves ${registry.version}, expected ${config.expectedRegistryVersion}`);
+    return false;
+  }
+
+  const errors: string[] = [];
+  const seenIds = new Set<number>();
+  for (const entry of registry.pairs) {
+    if (seenIds.has(entry.pairId)) {
+      errors.push(`${entry.pair}: duplicate pair_id ${entry.pairId}`);
+    }
+    seenIds.add(entry.pairId);
+
+    if (entry.decimals !== config.pairDecimals) {
+      errors.push(`${entry.pair}: decimals ${entry.decimals} != relayer ${config.pairDecimals}`);
+    }
+
+    if (isActive(entry) && config.pairIds[entry.pair] !== entry.pairId) {
+      const onChainError = await checkOnChainPair(entry);
+      if (onChainError) errors.push(onChainError);
+    }
+  }
+
+  if (errors.length > 0) {
+    for (const err of errors) {
+      logger.error(`Pair registry: ${err}`);
+    }
+    return false;
+  }
+
+  const active = registry.pairs.filter(isActive);
+  const previous = Object.keys(config.pairIds);
+  config.pairIds = {};
+  for (const entry of active) {
+    config.pairIds[entry.pair] = entry.pairId;
+  }
+
+  if (pairRegistryVersion) {
+    const added = active.map(e => e.pair).filter(p => !previous.includes(p));
+    const removed = previous.filter(p => !config.pairIds[p]);
+    logger.info(`Pair registry changed: +[${added.join(', ')}] -[${removed.join(', ')}]`);
+    if (added.length + removed.length > 0 && (streamRequest || streamReconnectTimer)) {
+      restartPriceStream();
+    }
+  }
+  pairRegistryVersion = registry.version;
+
+  logger.info(`Pair registry ${registry.version} loaded: ${active.length} active of ${registry.pairs.length} pairs`);
+  return true;
+}
+
+// Registries served before runtime onboarding have no status field
+function isActive(entry: RegistryPair): boolean {
+  return (entry.status || 'active') === 'active';
+}
+
+// ===== PAIR ONBOARDING JOBS =====
+// Pairs onboarded through the oracle node's admin API must be registered on-chain
+// with add_pair before prices can be submitted for them. The operator key must be
+// the contract admin for these transactions to finalize.
+async function reportPairJob(id: number, status: PairJob['status'], txId?: string, error?: string): Promise<void> {
+  try {
+    await axios.post(
+      `${config.oracleNodeUrl}/admin/jobs/${id}`,
+      { status, txId, error },
+      { headers: { 'X-Admin-Key': config.oracleAdminKey }, timeout: 10000 }
+    );
+  } catch (err) {
+    logger.warn(`Could not report pair job ${id} as ${status}: ${err}`);
+  }
+}
+
+async function processPairJobs(): Promise<void> {
+  if (!config.oracleAdminKey) return;
+
+  let jobs: PairJob[];
+  try {
+    const response = await axios.get(`${config.oracleNodeUrl}/admin/jobs`, {
+      headers: { 'X-Admin-Key': config.oracleAdminKey },
+      timeout: 10000
+    });
+    jobs = response.data.jobs || [];
+  } catch (error) {
+    logger.warn(`Could not fetch pair jobs: ${error}`);
+    return;
+  }
+
+  awaitingOnChain.clear();
+  for (const job of jobs) {
+    if (job.status === 'pending' || job.status === 'submitted') {
+      awaitingOnChain.add(job.pair);
+    }
+  }
+
+  for (const job of jobs) {
+    if (job.status === 'submitted' && pendingPairJobs.has(job.id)) {
+      const txId = pendingPairJobs.get(job.id)!;
+      const status = await checkTransactionStatus(txId);
+      if (status !== 'pending') {
+        pendingPairJobs.delete(job.id);
+        await reportPairJob(job.id, status, txId);
+        if (status === 'confirmed') awaitingOnChain.delete(job.pair);
+        logger.info(`add_pair for ${job.pair} ${status}: ${txId}`);
+      }
+      continue;
+    }
+
+    if (job.status !== 'pending') continue;
+
+    logger.info(`Executing add_pair for ${job.pair} (job ${job.id})`);
+    try {
+      const txId = await executeTransition(job.type, job.inputs);
+      pendingPairJobs.set(job.id, txId);
+      await reportPairJob(job.id, 'submitted', txId);
+    } catch (error: any) {
+      const msg = error.message || String(error);
+      logger.error(`add_pair failed for ${job.pair}: ${msg}`);
+      addError(job.pair, msg);
+      await reportPairJob(job.id, 'failed', undefined, msg);
+    }
+  }
+}
+
 // ===== PRICE VALIDATION =====
 function validatePriceData(priceData: PriceData, pair: string): { valid: boolean; reason?: string } {
   if (priceData.price <= 0) {
@@ -173,29 +445,223 @@ async function fetchPriceFromOracle(pair: string): Promise<PriceData | null> {
       { timeout: 10000 }
     );
 
-    const data = response.data;
-    const priceData: PriceData = {
-      price: data.price,
-      scaledPrice: data.scaledPrice,
-      timestamp: data.timestamp,
-      sourceCount: data.sourceCount || data.sources?.length || config.minSourceCount,
-      sources: data.sources || [],
-    };
-
-    const validation = validatePriceData(priceData, pair);
-    if (!validation.valid) {
-      logger.warn(`Price validation failed for ${pair}: ${validation.reason}`);
-      return null;
-    }
-
-    return priceData;
+    return parseOraclePrice(response.data, pair);
   } catch (error) {
     logger.error(`Failed to fetch ${pair} from oracle: ${error}`);
     return null;
   }
 }
 
+function parseOraclePrice(data: any, pair: string): PriceData | null {
+  const priceData: PriceData = {
+    price: data.price,
+    scaledPrice: data.scaledPrice,
+    timestamp: data.timestamp,
+    sourceCount: data.sourceCount || data.sources?.length || config.minSourceCount,
+    sources: data.sources || [],
+    pairId: data.pairId,
+    signature: data.signature || undefined,
+    operatorAddress: data.operatorAddress,
+  };
+
+  const validation = validatePriceData(priceData, pair);
+  if (!validation.valid) {
+    logger.warn(`Price validation failed for ${pair}: ${validation.reason}`);
+    return null;
+  }
+
+  return priceData;
+}
+
+// ===== ORACLE PRICE STREAM =====
+// Subscribes to the oracle node's SSE endpoint so deviations are acted on
+// within one oracle fetch interval instead of waiting for the next poll.
+function subscribeToPriceStream(): void {
+  streamReconnectTimer = null;
+  const pairs = Object.keys(config.pairIds).map(p => p.replace('/', '-')).join(',');
+  const url = new URL(`${config.oracleNodeUrl}/stream`);
+  url.searchParams.set('pairs', pairs);
+  const client = url.protocol === 'https:' ? https : http;
+
+  let closed = false;
+  let staleTimer: NodeJS.Timeout | null = null;
+
+  // 'error', 'end' and the staleness timer can all fire for one drop: reconnect once.
+  // A stream replaced by restartPriceStream is closed without reconnecting.
+  const reconnect = (reason: string) => {
+    if (closed) return;
+    closed = true;
+    if (staleTimer) clearTimeout(staleTimer);
+    req.destroy();
+    if (streamRequest !== req) return;
+
+    streamRequest = null;
+    logger.warn(`Price stream ${reason}, reconnecting in ${config.streamReconnectDelay / 1000}s`);
+    streamReconnectTimer = setTimeout(subscribeToPriceStream, config.streamReconnectDelay);
+  };
+
+  // Any frame, heartbeats included, proves the connection is alive
+  const resetStaleTimer = () => {
+    if (staleTimer) clearTimeout(staleTimer);
+    staleTimer = setTimeout(() => reconnect(`silent for ${config.streamStaleTimeout / 1000}s`), config.streamStaleTimeout);
+  };
+
+  const req = client.get(url, { headers: { Accept: 'text/event-stream' } }, (res) => {
+    if (res.statusCode !== 200) {
+      logger.error(`Price stream rejected: HTTP ${res.statusCode}`);
+      res.resume();
+      reconnect('rejected');
+      return;
+    }
+
+    logger.info(`Subscribed to oracle price stream (${pairs})`);
+    res.setEncoding('utf8');
+    resetStaleTimer();
+
+    let buffer = '';
+    res.on('data', (chunk: string) => {
+      resetStaleTimer();
+      buffer += chunk;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        handleStreamFrame(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+      }
+    });
+    res.on('end', () => reconnect('disconnected'));
+  });
+  streamRequest = req;
+  resetStaleTimer();
+
+  req.on('error', (error) => {
+    if (!closed && streamRequest === req) logger.error(`Price stream error: ${error.message}`);
+    reconnect('disconnected');
+  });
+}
+
+// Resubscribe with the current pair set after pairs are onboarded, paused or retired
+function restartPriceStream(): void {
+  if (streamReconnectTimer) clearTimeout(streamReconnectTimer);
+  const previous = streamRequest;
+  streamRequest = null;
+  previous?.destroy();
+  logger.info('Pair set changed, resubscribing to the price stream');
+  subscribeToPriceStream();
+}
+
+function handleStreamFrame(frame: string): void {
+  let event = 'message';
+  let data = '';
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data += line.slice(5).trim();
+  }
+
+  if (!data) return;
+
+  try {
+    const payload = JSON.parse(data);
+
+    if (event === 'circuit-breaker') {
+      logger.warn(`Circuit breaker ${payload.event} for ${payload.pair}: ${payload.reason || 'n/a'}`);
+      return;
+    }
+
+    if (event !== 'price' || !config.pairIds[payload.pair] || awaitingOnChain.has(payload.pair)) return;
+    if (payload.circuitBreakerStatus && !payload.circuitBreakerStatus.allowed) {
+      logger.warn(`${payload.pair}: skipping streamed price, circuit breaker halted`);
+      return;
+    }
+
+    const priceData = parseOraclePrice(payload, payload.pair);
+    if (priceData) {
+      processPair(payload.pair, priceData).catch(error => {
+        logger.error(`Error processing streamed ${payload.pair}: ${error}`);
+        addError(payload.pair, String(error));
+      });
+    }
+  } catch (error) {
+    logger.warn(`Malformed stream frame: ${error}`);
+  }
+}
+
+// ===== SIGNED PRICES =====
+// The contract checks signature::verify(sig, self.caller, BHP256::hash_to_field(PriceMessage)),
+// so an oracle signature is only usable when the oracle signs with this relayer's key.
+// Checking locally first avoids paying fees for a transaction that would be rejected.
+
+// Minimum source_count accepted by submit_signed_price / submit_price
+const CONTRACT_MIN_SOURCES = 3;
+// Largest distance submit_signed_price accepts between the price timestamp and the round's started_at
+const CONTRACT_MAX_ROUND_DRIFT = 300000;
+const U64_MAX = (1n << 64n) - 1n;
+
+/**
+ * Check that the oracle's signature is one the contract will accept from us.
+ * Returns the reason it is unusable, or null when it verifies.
+ */
+function checkOracleSignature(pair: string, priceData: PriceData): string | null {
+  const pairId = config.pairIds[pair];
+
+  if (!priceData.signature) return 'oracle response has no signature';
+  if (priceData.pairId !== pairId) return `oracle pairId ${priceData.pairId} != registry ${pairId}`;
+  if (priceData.operatorAddress !== operatorAddress) {
+    return `signed by ${priceData.operatorAddress}, relayer is ${operatorAddress}`;
+  }
+  if (priceData.sourceCount < CONTRACT_MIN_SOURCES) {
+    return `source count ${priceData.sourceCount} below contract minimum ${CONTRACT_MIN_SOURCES}`;
+  }
+
+  try {
+    const { valid } = verifyPriceSignature(aleoSdk, {
+      pairId,
+      price: BigInt(priceData.scaledPrice),
+      timestamp: priceData.timestamp,
+      sourceCount: priceData.sourceCount,
+      signature: priceData.signature,
+      operatorAddress,
+    });
+    return valid ? null : 'signature does not verify against the price message';
+  } catch (error) {
+    return `malformed price message: ${error}`;
+  }
+}
+
 // ===== BLOCKCHAIN SUBMISSION =====
+async function submitSignedPrice(pair: string, priceData: PriceData): Promise<string | null> {
+  const pairId = config.pairIds[pair];
+  logger.info(`Submitting signed ${pair} price: ${priceData.scaledPrice}`);
+
+  try {
+    const inputs = [
+      `${pairId}u64`,
+      `${priceData.scaledPrice}u128`,
+      `${priceData.timestamp}u64`,
+      `${priceData.sourceCount}u8`,
+      priceData.signature!,
+    ];
+
+    const txId = await executeTransition('submit_signed_price', inputs);
+
+    if (txId) {
+      logger.info(`TX submitted: ${txId}`);
+      stats.totalSubmissions++;
+      stats.signedSubmissions++;
+      pendingTransactions.set(pair, txId);
+      submissionCounts.set(pair, (submissionCounts.get(pair) || 0) + 1);
+      return txId;
+    }
+    return null;
+  } catch (error: any) {
+    const msg = error.message || String(error);
+    logger.error(`Signed submission failed for ${pair}: ${msg}`);
+    stats.failedSubmissions++;
+    addError(pair, msg);
+    return null;
+  }
+}
+
 async function submitPriceSimple(
   pair: string,
   scaledPrice: string,
@@ -216,13 +682,7 @@ async function submitPriceSimple(
       `${timestamp}u64`,
     ];
 
-    const txId = await programManager.execute(
-      config.oracleProgramId,
-      'submit_price_simple',
-      inputs,
-      config.baseFee,
-      config.priorityFee
-    );
+    const txId = await executeTransition('submit_price_simple', inputs);
 
     if (txId) {
       logger.info(`TX submitted: ${txId}`);
@@ -242,13 +702,15 @@ async function submitPriceSimple(
 }
 
 // ===== TRANSACTION MONITORING =====
+// A transaction whose finalize fails is still included in a block, as 'rejected'
+// with only its fee charged. Not found yet means pending.
 async function checkTransactionStatus(txId: string): Promise<'pending' | 'confirmed' | 'failed'> {
   try {
-    const transaction = await networkClient.getTransaction(txId);
-    if (transaction?.type === 'execute' && transaction.execution) {
-      return 'confirmed';
+    const confirmed = await networkClient.getConfirmedTransaction(txId);
+    if (!confirmed?.status) {
+      return 'pending';
     }
-    return 'pending';
+    return confirmed.status === 'accepted' ? 'confirmed' : 'failed';
   } catch {
     return 'pending';
   }
@@ -264,7 +726,8 @@ async function monitorPendingTransactions(): Promise<void> {
       stats.lastSuccessfulSubmission = Date.now();
       pendingTransactions.delete(pair);
     } else if (status === 'failed') {
-      logger.warn(`TX failed: ${txId} (${pair})`);
+      logger.warn(`TX rejected: ${txId} (${pair})`);
+      stats.failedSubmissions++;
       pendingTransactions.delete(pair);
       lastSubmitted.delete(pair);
       addError(pair, `TX failed: ${txId}`);
@@ -272,6 +735,346 @@ async function monitorPendingTransactions(): Promise<void> {
   }
 }
 
+// ===== CONSENSUS ROUNDS =====
+// Coordinator mode: open a round per pair (start_round), submit this operator's
+// signed price, watch submission_counts until min_operators is reached or the
+// deadline passes, then finalize_consensus. Rounds opened by other coordinators
+// are joined instead of restarted.
+
+async function readMapping(mapping: string, key: string): Promise<string | null> {
+  try {
+    const raw = await networkClient.getProgramMappingValue(config.oracleProgramId, mapping, key);
+    return raw && raw !== 'null' ? String(raw) : null;
+  } catch (error) {
+    logger.debug(`Mapping ${mapping}[${key}] unavailable: ${error}`);
+    return null;
+  }
+}
+
+// Extract a member from a Leo struct literal, without its type suffix
+function structField(raw: string, name: string): string | null {
+  const match = raw.match(new RegExp(`${name}:\\s*([^,\\s}]+)`));
+  return match ? match[1].replace(/(u8|u32|u64|u128|field)$/, '') : null;
+}
+
+async function readCurrentRound(pairId: number): Promise<{ epoch: number; startedAt: number; deadline: number; finalized: boolean } | null> {
+  const raw = await readMapping('current_round', `${pairId}u64`);
+  if (!raw) return null;
+  return {
+    epoch: parseInt(structField(raw, 'epoch') || '0'),
+    startedAt: parseInt(structField(raw, 'started_at') || '0'),
+    deadline: parseInt(structField(raw, 'deadline') || '0'),
+    finalized: structField(raw, 'finalized') === 'true',
+  };
+}
+
+// Same key as the contract: BHP256::hash_to_field(pair_id + epoch * 10000u64)
+function roundKey(pairId: number, epoch: number): string {
+  const value = Plaintext.fromString(`${BigInt(pairId) + BigInt(epoch) * 10000n}u64`);
+  return new BHP256().hash(value.toBitsLe()).toString();
+}
+
+async function readSubmissionCount(pairId: number, epoch: number): Promise<number> {
+  const raw = await readMapping('submission_counts', roundKey(pairId, epoch));
+  return raw ? parseInt(raw) : 0;
+}
+
+// Same key as the contract: BHP256::hash_to_field(pair_id + epoch * 10000u64 + BHP256::hash_to_u64(operator)).
+// hash_to_u64 keeps the low 64 bits of the field hash. Null when the sum overflows
+// u64, which makes the contract's finalize fail.
+function submissionKey(pairId: number, epoch: number, operator: string): string | null {
+  const bhp = new BHP256();
+  const operatorHash = BigInt(bhp.hash(Plaintext.fromString(operator).toBitsLe()).toString().replace('field', '')) & U64_MAX;
+  const sum = BigInt(pairId) + BigInt(epoch) * 10000n + operatorHash;
+  if (sum > U64_MAX) return null;
+  return bhp.hash(Plaintext.fromString(`${sum}u64`).toBitsLe()).toString();
+}
+
+/**
+ * Check that submit_signed_price's finalize will accept this price in the pair's
+ * current round: open, within the timestamp drift, and no submission from this
+ * operator yet. Returns the reason it would be rejected, or null.
+ */
+async function checkRoundAcceptsSubmission(pairId: number, priceData: PriceData): Promise<string | null> {
+  const round = await readCurrentRound(pairId);
+  if (!round || round.finalized || priceData.timestamp > round.deadline) {
+    return 'no open consensus round on-chain';
+  }
+
+  const drift = Math.abs(priceData.timestamp - round.startedAt);
+  if (drift > CONTRACT_MAX_ROUND_DRIFT) {
+    return `price is ${Math.round(drift / 1000)}s from round ${round.epoch} start (max ${CONTRACT_MAX_ROUND_DRIFT / 1000}s)`;
+  }
+
+  const key = submissionKey(pairId, round.epoch, operatorAddress);
+  if (!key) {
+    return `submission key for round ${round.epoch} overflows u64 on-chain`;
+  }
+  const existing = await readMapping('round_submissions', key);
+  if (existing && structField(existing, 'price') !== '0') {
+    return `already submitted to round ${round.epoch}`;
+  }
+  return null;
+}
+
+async function loadMinOperators(): Promise<void> {
+  const raw = await readMapping('circuit_breaker_config', '0u8');
+  const minOperators = raw ? structField(raw, 'min_operators') : null;
+  if (minOperators) {
+    config.minOperators = parseInt(minOperators);
+  } else {
+    logger.warn(`Could not read min_operators on-chain, using ${config.minOperators}`);
+  }
+}
+
+/**
+ * Sign PriceMessage the way submit_signed_price verifies it: the signature is
+ * over BHP256::hash_to_field of the struct, checked against the caller's address.
+ */
+function signPriceMessage(pairId: number, scaledPrice: string, timestamp: number, sourceCount: number): string {
+  const hash = hashPriceMessage(aleoSdk, pairId, BigInt(scaledPrice), timestamp, sourceCount);
+  return Signature.signValue(account.privateKey(), hash).to_string();
+}
+
+async function executeRoundTransition(pair: string, fn: string, inputs: string[]): Promise<string | null> {
+  try {
+    const txId = await executeTransition(fn, inputs);
+    stats.totalSubmissions++;
+    logger.info(`${pair}: ${fn} submitted: ${txId}`);
+    return txId;
+  } catch (error: any) {
+    const msg = error.message || String(error);
+    logger.error(`${pair}: ${fn} failed: ${msg}`);
+    stats.failedSubmissions++;
+    addError(pair, `${fn}: ${msg}`);
+    return null;
+  }
+}
+
+function setPhase(round: ConsensusRoundState, phase: RoundPhase, error: string | null = null): void {
+  logger.info(`${round.pair}: round ${round.epoch ?? '?'} ${round.phase} -> ${phase}${error ? ` (${error})` : ''}`);
+  round.phase = phase;
+  round.error = error;
+  round.updatedAt = Date.now();
+
+  if (phase === 'finalized' || phase === 'expired' || phase === 'failed') {
+    activeRounds.delete(round.pair);
+    roundHistory.unshift({ ...round });
+    if (roundHistory.length > MAX_ROUND_HISTORY) roundHistory.pop();
+  }
+}
+
+async function submitRoundPrice(round: ConsensusRoundState): Promise<void> {
+  const { pairId, price } = round;
+  let fn = 'submit_signed_price';
+  let inputs: string[];
+
+  try {
+    // Prefer the oracle's own signature; sign locally when it is unusable
+    const sig = checkOracleSignature(round.pair, price) === null
+      ? price.signature!
+      : signPriceMessage(pairId, price.scaledPrice, price.timestamp, price.sourceCount);
+    inputs = [`${pairId}u64`, `${price.scaledPrice}u128`, `${price.timestamp}u64`, `${price.sourceCount}u8`, sig];
+  } catch (error) {
+    logger.warn(`${round.pair}: signing failed, submitting unsigned: ${error}`);
+    fn = 'submit_price';
+    inputs = [`${pairId}u64`, `${price.scaledPrice}u128`, `${price.timestamp}u64`, `${price.sourceCount}u8`];
+  }
+
+  const txId = await executeRoundTransition(round.pair, fn, inputs);
+  if (!txId) {
+    setPhase(round, 'failed', `${fn} rejected`);
+    return;
+  }
+
+  round.submitTxId = txId;
+  lastSubmitted.set(round.pair, {
+    price: price.price,
+    scaledPrice: price.scaledPrice,
+    timestamp: price.timestamp,
+    txId,
+    sourceCount: price.sourceCount,
+    path: 'round',
+  });
+  submissionCounts.set(round.pair, (submissionCounts.get(round.pair) || 0) + 1);
+  setPhase(round, 'submitting');
+}
+
+async function finalizeRound(round: ConsensusRoundState): Promise<void> {
+  const onChain = await readCurrentRound(round.pairId);
+  if (onChain?.epoch === round.epoch && onChain.finalized) {
+    setPhase(round, 'finalized');   // Another coordinator finalized it first
+    return;
+  }
+
+  const txId = await executeRoundTransition(round.pair, 'finalize_consensus', [`${round.pairId}u64`, `${Date.now()}u64`]);
+  if (!txId) {
+    setPhase(round, 'failed', 'finalize_consensus rejected');
+    return;
+  }
+  round.finalizeTxId = txId;
+  setPhase(round, 'finalizing');
+}
+
+/**
+ * Open a round for a pair, or join the one already open on-chain
+ */
+async function openRound(pair: string, priceData: PriceData): Promise<void> {
+  const pairId = config.pairIds[pair];
+  const now = Date.now();
+  const round: ConsensusRoundState = {
+    pair,
+    pairId,
+    epoch: null,
+    phase: 'starting',
+    startedAt: now,
+    deadline: now + config.roundDuration,
+    price: priceData,
+    submissions: 0,
+    startTxId: null,
+    submitTxId: null,
+    finalizeTxId: null,
+    joined: false,
+    error: null,
+    updatedAt: now,
+  };
+  activeRounds.set(pair, round);
+
+  const existing = await readCurrentRound(pairId);
+  if (existing && !existing.finalized && existing.deadline > now) {
+    round.epoch = existing.epoch;
+    round.startedAt = existing.startedAt;
+    round.deadline = existing.deadline;
+    round.joined = true;
+    logger.info(`${pair}: joining open round ${existing.epoch} (deadline in ${Math.round((existing.deadline - now) / 1000)}s)`);
+    await submitRoundPrice(round);
+    return;
+  }
+
+  round.startTxId = await executeRoundTransition(pair, 'start_round', [`${pairId}u64`, `${now}u64`, `${round.deadline}u64`]);
+  if (!round.startTxId) {
+    setPhase(round, 'failed', 'start_round rejected');
+  }
+}
+
+/**
+ * Move a round one step forward based on transaction and mapping state
+ */
+async function advanceRound(round: ConsensusRoundState): Promise<void> {
+  const pastDeadline = Date.now() > round.deadline;
+
+  switch (round.phase) {
+    case 'starting': {
+      const status = await checkTransactionStatus(round.startTxId!);
+      if (status === 'failed') {
+        setPhase(round, 'failed', 'start_round rejected on-chain');
+        return;
+      }
+      if (status !== 'confirmed') {
+        if (pastDeadline) setPhase(round, 'expired', 'start_round not confirmed before deadline');
+        return;
+      }
+      const onChain = await readCurrentRound(round.pairId);
+      if (!onChain || onChain.finalized) {
+        setPhase(round, 'failed', 'round not found on-chain after start_round');
+        return;
+      }
+      round.epoch = onChain.epoch;
+      round.startedAt = onChain.startedAt;
+      round.deadline = onChain.deadline;
+      await submitRoundPrice(round);
+      return;
+    }
+
+    case 'submitting':
+    case 'collecting': {
+      if (round.phase === 'submitting') {
+        const status = await checkTransactionStatus(round.submitTxId!);
+        if (status === 'failed') {
+          setPhase(round, 'failed', 'price submission rejected on-chain');
+          return;
+        }
+        if (status === 'confirmed') setPhase(round, 'collecting');
+      }
+      round.submissions = await readSubmissionCount(round.pairId, round.epoch!);
+      round.updatedAt = Date.now();
+
+      if (round.phase === 'collecting' && round.submissions >= config.minOperators) {
+        await finalizeRound(round);
+      } else if (pastDeadline) {
+        if (round.submissions >= config.minOperators) {
+          await finalizeRound(round);
+        } else {
+          setPhase(round, 'expired', `${round.submissions}/${config.minOperators} operators by deadline`);
+        }
+      }
+      return;
+    }
+
+    case 'finalizing': {
+      const status = await checkTransactionStatus(round.finalizeTxId!);
+      if (status === 'confirmed') {
+        stats.successfulSubmissions++;
+        stats.lastSuccessfulSubmission = Date.now();
+        setPhase(round, 'finalized');
+      } else if (status === 'failed') {
+        setPhase(round, 'failed', 'finalize_consensus rejected on-chain');
+      }
+      return;
+    }
+  }
+}
+
+// Called from both the relayer loop and the round watcher; never run twice at once
+let advancingRounds = false;
+
+async function advanceRounds(): Promise<void> {
+  if (advancingRounds) return;
+  advancingRounds = true;
+  try {
+    for (const round of Array.from(activeRounds.values())) {
+      try {
+        await advanceRound(round);
+      } catch (error) {
+        logger.error(`${round.pair}: round error: ${error}`);
+        addError(round.pair, String(error));
+      }
+    }
+  } finally {
+    advancingRounds = false;
+  }
+}
+
+async function driveConsensusRound(pair: string, priceData: PriceData): Promise<boolean> {
+  if (activeRounds.has(pair)) {
+    return false;
+  }
+  if (!shouldUpdate(pair, priceData.price, priceData.timestamp)) {
+    return false;
+  }
+  await openRound(pair, priceData);
+  return activeRounds.has(pair);
+}
+
+function roundSummary(round: ConsensusRoundState) {
+  return {
+    pair: round.pair,
+    epoch: round.epoch,
+    phase: round.phase,
+    startedAt: round.startedAt,
+    deadline: round.deadline,
+    submissions: round.submissions,
+    minOperators: config.minOperators,
+    price: round.price.scaledPrice,
+    joined: round.joined,
+    startTxId: round.startTxId,
+    submitTxId: round.submitTxId,
+    finalizeTxId: round.finalizeTxId,
+    error: round.error,
+    updatedAt: round.updatedAt,
+  };
+}
+
 // ===== UPDATE LOGIC =====
 function shouldUpdate(pair: string, newPrice: number, newTimestamp: number): boolean {
   if (pendingTransactions.has(pair)) {
@@ -309,6 +1112,72 @@ async function getOperatorBalance(): Promise<bigint> {
   }
 }
 
+// ===== PAIR PROCESSING =====
+// Submit at most one price per pair at a time, whichever of the stream and the
+// poll loop sees it first
+async function processPair(pair: string, priceData: PriceData): Promise<boolean> {
+  if (inFlight.has(pair)) {
+    return false;
+  }
+  inFlight.add(pair);
+  try {
+    return await updatePair(pair, priceData);
+  } finally {
+    inFlight.delete(pair);
+  }
+}
+
+async function updatePair(pair: string, priceData: PriceData): Promise<boolean> {
+  if (config.mode === 'consensus') {
+    return driveConsensusRound(pair, priceData);
+  }
+
+  if (!shouldUpdate(pair, priceData.price, priceData.timestamp)) {
+    return false;
+  }
+
+  // submit_signed_price records into the open consensus round, so it needs a
+  // verified signature and a round that will accept it; a rejection still costs
+  // the fee. It does not publish a price by itself: consensus_prices is only
+  // written when a coordinator (RELAYER_MODE=consensus) calls finalize_consensus.
+  let path: SubmissionPath = 'simple';
+  let fallbackReason: string | undefined;
+  if (!config.preferSigned) {
+    fallbackReason = 'signed submission disabled';
+  } else {
+    fallbackReason = checkOracleSignature(pair, priceData)
+      ?? await checkRoundAcceptsSubmission(config.pairIds[pair], priceData)
+      ?? undefined;
+    if (!fallbackReason) {
+      path = 'signed';
+    }
+  }
+
+  let txId: string | null;
+  if (path === 'signed') {
+    txId = await submitSignedPrice(pair, priceData);
+  } else {
+    logger.info(`${pair}: falling back to submit_price_simple (${fallbackReason})`);
+    stats.simpleFallbacks++;
+    txId = await submitPriceSimple(pair, priceData.scaledPrice, priceData.timestamp);
+  }
+  if (!txId) {
+    return false;
+  }
+
+  lastSubmitted.set(pair, {
+    price: priceData.price,
+    scaledPrice: priceData.scaledPrice,
+    timestamp: priceData.timestamp,
+    txId,
+    sourceCount: priceData.sourceCount,
+    path,
+    fallbackReason,
+  });
+  logger.info(`${pair}: $${priceData.price.toFixed(2)} submitted (${path})`);
+  return true;
+}
+
 // ===== MAIN LOOP =====
 async function relayerLoop(): Promise<void> {
   logger.info('Starting relayer cycle...');
@@ -322,8 +1191,13 @@ async function relayerLoop(): Promise<void> {
   }
 
   await monitorPendingTransactions();
+  if (config.mode === 'consensus') {
+    await advanceRounds();
+  }
+  await loadPairRegistry(1);
+  await processPairJobs();
 
-  const pairs = Object.keys(config.pairIds);
+  const pairs = Object.keys(config.pairIds).filter(pair => !awaitingOnChain.has(pair));
   let updatesThisCycle = 0;
 
   for (const pair of pairs) {
@@ -331,20 +1205,8 @@ async function relayerLoop(): Promise<void> {
       const priceData = await fetchPriceFromOracle(pair);
       if (!priceData) continue;
 
-      if (shouldUpdate(pair, priceData.price, priceData.timestamp)) {
-        const txId = await submitPriceSimple(pair, priceData.scaledPrice, priceData.timestamp);
-
-        if (txId) {
-          lastSubmitted.set(pair, {
-            price: priceData.price,
-            scaledPrice: priceData.scaledPrice,
-            timestamp: priceData.timestamp,
-            txId,
-            sourceCount: priceData.sourceCount,
-          });
-          updatesThisCycle++;
-          logger.info(`${pair}: $${priceData.price.toFixed(2)} submitted`);
-        }
+      if (await processPair(pair, priceData)) {
+        updatesThisCycle++;
       }
     } catch (error) {
       logger.error(`Error processing ${pair}: ${error}`);
@@ -352,7 +1214,7 @@ async function relayerLoop(): Promise<void> {
     }
   }
 
-  logger.info(`Cycle complete: ${updatesThisCycle} updates, ${pendingTransactions.size} pending`);
+  logger.info(`Cycle complete: ${updatesThisCycle} updates, ${pendingTransactions.size} pending, ${activeRounds.size} open rounds`);
 }
 
 // ===== HEALTH CHECK =====
@@ -431,12 +1293,23 @@ function startHealthServer(): void {
           pending: pendingTransactions.has(pair),
           pendingTxId: pendingTransactions.get(pair) ?? null,
           submissionCount: submissionCounts.get(pair) || 0,
+          lastPath: last?.path ?? null,
+          fallbackReason: last?.fallbackReason ?? null,
         });
       }
 
       res.writeHead(200);
       res.end(JSON.stringify({
+        pairRegistryVersion,
         pairs: pairDetails,
+        awaitingOnChain: Array.from(awaitingOnChain),
+        consensus: {
+          mode: config.mode,
+          minOperators: config.minOperators,
+          roundDuration: config.roundDuration,
+          activeRounds: Array.from(activeRounds.values()).map(roundSummary),
+          recentRounds: roundHistory.map(roundSummary),
+        },
         errors: recentErrors.slice(0, 10),
         stats,
         uptime: Date.now() - startTime,
@@ -483,6 +1356,16 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
+  const registryLoaded = await loadPairRegistry();
+  if (!registryLoaded) {
+    logger.error('Pair registry check failed, refusing to start');
+    process.exit(1);
+  }
+
+  if (config.mode === 'consensus') {
+    await loadMinOperators();
+  }
+
   logger.info('\nConfiguration:');
   logger.info(`  Oracle: ${config.oracleNodeUrl}`);
   logger.info(`  Program: ${config.oracleProgramId}`);
@@ -491,6 +1374,8 @@ async function main(): Promise<void> {
   logger.info(`  Deviation: ${config.deviationThreshold * 100}%`);
   logger.info(`  Heartbeat: ${config.heartbeatInterval / 1000}s`);
   logger.info(`  Poll: ${config.pollInterval / 1000}s`);
+  logger.info(`  Stream: ${config.useStream ? 'enabled' : 'disabled'}`);
+  logger.info(`  Mode: ${config.mode}${config.mode === 'consensus' ? ` (min ${config.minOperators} operators, ${config.roundDuration / 1000}s rounds)` : ''}`);
   logger.info(`  Pairs: ${Object.keys(config.pairIds).length}`);
   logger.info('='.repeat(60));
 
@@ -500,6 +1385,12 @@ async function main(): Promise<void> {
   await relayerLoop();
 
   setInterval(relayerLoop, config.pollInterval);
+  if (config.mode === 'consensus') {
+    setInterval(advanceRounds, config.roundPollInterval);
+  }
+  if (config.useStream) {
+    subscribeToPriceStream();
+  }
   setInterval(printStats, 300000);
 
   logger.info('Relayer running. Ctrl+C to stop.');